@@ -0,0 +1,455 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarDays, Plus, Edit, Trash2, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface Semester {
+  id: string;
+  name: string;
+  year: number;
+  position: number;
+  start_date: string;
+  end_date: string;
+  is_current: boolean;
+}
+
+interface AcademicSession {
+  id: string;
+  name: string;
+  start_year: number;
+  semesters: Semester[];
+}
+
+interface AcademicCalendarProps {
+  // Called after the current semester changes, so the header can follow it
+  onCurrentChange?: () => void;
+}
+
+const EMPTY_SEMESTER = {
+  name: "",
+  position: 1,
+  start_date: "",
+  end_date: ""
+};
+
+// Academic sessions and their semesters in order. Exactly one semester is
+// current; result entry and the dashboard default to it.
+const AcademicCalendar = ({ onCurrentChange }: AcademicCalendarProps) => {
+  const [sessions, setSessions] = useState<AcademicSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSessionDialogOpen, setIsSessionDialogOpen] = useState(false);
+  const [sessionYear, setSessionYear] = useState(new Date().getFullYear().toString());
+  // The session a semester is being added to or edited in
+  const [semesterSessionId, setSemesterSessionId] = useState<string | null>(null);
+  const [editingSemesterId, setEditingSemesterId] = useState<string | null>(null);
+  const [semesterForm, setSemesterForm] = useState(EMPTY_SEMESTER);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin', 'registry');
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('academic_sessions')
+        .select('id, name, start_year, semesters (id, name, year, position, start_date, end_date, is_current)')
+        .order('start_year', { ascending: false });
+
+      if (error) throw error;
+      setSessions((data || []).map((session) => ({
+        ...session,
+        semesters: [...session.semesters].sort((a, b) => a.position - b.position),
+      })));
+    } catch (error) {
+      console.error('Error fetching academic sessions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch academic sessions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: { message?: string }, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleAddSession = async () => {
+    const startYear = parseInt(sessionYear);
+    if (isNaN(startYear)) {
+      toast({
+        title: "Invalid year",
+        description: "Enter the year the session starts in",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('academic_sessions')
+        .insert([{ name: `${startYear}/${startYear + 1}`, start_year: startYear }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Session ${startYear}/${startYear + 1} added`,
+      });
+      setIsSessionDialogOpen(false);
+      fetchSessions();
+    } catch (error) {
+      console.error('Error adding academic session:', error);
+      showError(error, "Failed to add session");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSession = async (session: AcademicSession) => {
+    try {
+      const { error } = await supabase.from('academic_sessions').delete().eq('id', session.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Session ${session.name} deleted`,
+      });
+      fetchSessions();
+    } catch (error) {
+      console.error('Error deleting academic session:', error);
+      showError(error, "Failed to delete session");
+    }
+  };
+
+  const openAddSemester = (session: AcademicSession) => {
+    setSemesterSessionId(session.id);
+    setEditingSemesterId(null);
+    setSemesterForm({
+      ...EMPTY_SEMESTER,
+      position: Math.max(0, ...session.semesters.map((semester) => semester.position)) + 1
+    });
+  };
+
+  const openEditSemester = (session: AcademicSession, semester: Semester) => {
+    setSemesterSessionId(session.id);
+    setEditingSemesterId(semester.id);
+    setSemesterForm({
+      name: semester.name,
+      position: semester.position,
+      start_date: semester.start_date,
+      end_date: semester.end_date
+    });
+  };
+
+  const closeSemesterDialog = () => {
+    setSemesterSessionId(null);
+    setEditingSemesterId(null);
+  };
+
+  const handleSaveSemester = async () => {
+    if (!semesterForm.name.trim() || !semesterForm.start_date || !semesterForm.end_date) {
+      toast({
+        title: "Missing details",
+        description: "Name, start date and end date are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (semesterForm.end_date < semesterForm.start_date) {
+      toast({
+        title: "Invalid dates",
+        description: "The semester must end after it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const record = {
+      ...semesterForm,
+      name: semesterForm.name.trim(),
+      year: parseInt(semesterForm.start_date.slice(0, 4)),
+      session_id: semesterSessionId
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingSemesterId
+        ? await supabase.from('semesters').update(record).eq('id', editingSemesterId)
+        : await supabase.from('semesters').insert([{
+            ...record,
+            // The first semester has to be current
+            is_current: !sessions.some((session) => session.semesters.length > 0)
+          }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingSemesterId ? "Semester updated" : "Semester added",
+      });
+      closeSemesterDialog();
+      fetchSessions();
+      onCurrentChange?.();
+    } catch (error) {
+      console.error('Error saving semester:', error);
+      showError(error, "Failed to save semester");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSemester = async (semester: Semester) => {
+    try {
+      const { error } = await supabase.from('semesters').delete().eq('id', semester.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${semester.name} deleted`,
+      });
+      fetchSessions();
+    } catch (error) {
+      console.error('Error deleting semester:', error);
+      showError(error, "Failed to delete semester");
+    }
+  };
+
+  const handleSetCurrent = async (semester: Semester) => {
+    try {
+      const { error } = await supabase.rpc('set_current_semester', { _semester_id: semester.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Current Semester Changed",
+        description: `${semester.name} ${semester.year} is now the current semester`,
+      });
+      fetchSessions();
+      onCurrentChange?.();
+    } catch (error) {
+      console.error('Error setting current semester:', error);
+      showError(error, "Failed to set the current semester");
+    }
+  };
+
+  if (loading) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <CalendarDays className="h-5 w-5 text-primary" />
+              <span>Academic Calendar</span>
+            </CardTitle>
+            <CardDescription>
+              Sessions and their semesters in order. Result entry and the dashboard follow the current semester.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button variant="outline" onClick={() => setIsSessionDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Session
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sessions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No academic sessions yet.</p>
+        )}
+        {sessions.map((session) => (
+          <div key={session.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">{session.name} Session</h3>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openAddSemester(session)}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    Semester
+                  </Button>
+                  {session.semesters.length === 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteSession(session)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+            {session.semesters.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Semester</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Status</TableHead>
+                      {canEdit && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {session.semesters.map((semester) => (
+                      <TableRow key={semester.id}>
+                        <TableCell>{semester.position}</TableCell>
+                        <TableCell className="font-medium">{semester.name}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {new Date(semester.start_date).toLocaleDateString()} – {new Date(semester.end_date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          {semester.is_current && <Badge>Current</Badge>}
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <div className="flex items-center space-x-2">
+                              {!semester.is_current && (
+                                <Button variant="outline" size="sm" onClick={() => handleSetCurrent(semester)} title="Make current">
+                                  <CheckCircle className="h-3 w-3" />
+                                </Button>
+                              )}
+                              <Button variant="outline" size="sm" onClick={() => openEditSemester(session, semester)} title="Edit">
+                                <Edit className="h-3 w-3" />
+                              </Button>
+                              {!semester.is_current && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => handleDeleteSemester(semester)}
+                                  title="Delete"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={isSessionDialogOpen} onOpenChange={setIsSessionDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Add Academic Session</DialogTitle>
+            <DialogDescription>Sessions are named after the years they span, such as 2024/2025</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="session_year">Starts in</Label>
+              <Input
+                id="session_year"
+                type="number"
+                value={sessionYear}
+                onChange={(e) => setSessionYear(e.target.value)}
+              />
+              {!isNaN(parseInt(sessionYear)) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Session {parseInt(sessionYear)}/{parseInt(sessionYear) + 1}
+                </p>
+              )}
+            </div>
+            <Button onClick={handleAddSession} disabled={saving} className="w-full">
+              Add Session
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={semesterSessionId !== null} onOpenChange={(open) => !open && closeSemesterDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSemesterId ? "Edit Semester" : "Add Semester"}</DialogTitle>
+            <DialogDescription>
+              {sessions.find((session) => session.id === semesterSessionId)?.name} session
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="semester_name">Name</Label>
+                <Input
+                  id="semester_name"
+                  value={semesterForm.name}
+                  onChange={(e) => setSemesterForm({...semesterForm, name: e.target.value})}
+                  placeholder="First Semester"
+                />
+              </div>
+              <div>
+                <Label htmlFor="semester_position">Order</Label>
+                <Input
+                  id="semester_position"
+                  type="number"
+                  min="1"
+                  value={semesterForm.position}
+                  onChange={(e) => setSemesterForm({...semesterForm, position: parseInt(e.target.value)})}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="semester_start">Starts</Label>
+                <Input
+                  id="semester_start"
+                  type="date"
+                  value={semesterForm.start_date}
+                  onChange={(e) => setSemesterForm({...semesterForm, start_date: e.target.value})}
+                />
+              </div>
+              <div>
+                <Label htmlFor="semester_end">Ends</Label>
+                <Input
+                  id="semester_end"
+                  type="date"
+                  value={semesterForm.end_date}
+                  onChange={(e) => setSemesterForm({...semesterForm, end_date: e.target.value})}
+                />
+              </div>
+            </div>
+            <Button onClick={handleSaveSemester} disabled={saving} className="w-full">
+              {saving ? "Saving..." : editingSemesterId ? "Save Changes" : "Add Semester"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AcademicCalendar;
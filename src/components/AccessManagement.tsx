@@ -0,0 +1,317 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldCheck, BookOpen, UserCheck, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, type AppRole } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  user_roles: { role: AppRole }[];
+}
+
+interface Allocation {
+  id: string;
+  courses: { course_code: string; course_name: string };
+  profiles: { full_name: string | null; email: string | null };
+}
+
+interface Student {
+  id: string;
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  advisor_id: string | null;
+}
+
+const NO_ADVISOR = "none";
+
+const AccessManagement = () => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [courses, setCourses] = useState<{ id: string; course_code: string }[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [newAllocation, setNewAllocation] = useState({ course_id: "", lecturer_id: "" });
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [profilesData, allocationsData, coursesData, studentsData] = await Promise.all([
+        supabase.from('profiles').select('id, full_name, email, user_roles (role)').order('email'),
+        supabase.from('course_allocations').select(`
+          id,
+          courses (course_code, course_name),
+          profiles (full_name, email)
+        `).order('created_at'),
+        supabase.from('courses').select('id, course_code').order('course_code'),
+        supabase.from('students').select('id, student_id, first_name, last_name, advisor_id').is('archived_at', null).order('student_id'),
+      ]);
+
+      if (profilesData.error) throw profilesData.error;
+      if (allocationsData.error) throw allocationsData.error;
+
+      setProfiles(profilesData.data || []);
+      setAllocations(allocationsData.data || []);
+      setCourses(coursesData.data || []);
+      setStudents(studentsData.data || []);
+    } catch (error) {
+      console.error('Error fetching access data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch users and roles",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRole = async (profile: Profile, role: AppRole, enabled: boolean) => {
+    if (!enabled && role === 'admin' && profile.id === user?.id) {
+      toast({
+        title: "Error",
+        description: "You cannot remove your own admin role",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = enabled
+        ? await supabase.from('user_roles').insert([{ user_id: profile.id, role }])
+        : await supabase.from('user_roles').delete().eq('user_id', profile.id).eq('role', role);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddAllocation = async () => {
+    try {
+      const { error } = await supabase.from('course_allocations').insert([newAllocation]);
+
+      if (error) throw error;
+
+      setNewAllocation({ course_id: "", lecturer_id: "" });
+      fetchData();
+    } catch (error) {
+      console.error('Error allocating course:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to allocate course",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemoveAllocation = async (allocationId: string) => {
+    try {
+      const { error } = await supabase.from('course_allocations').delete().eq('id', allocationId);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error removing allocation:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove allocation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const assignAdvisor = async (studentId: string, advisorId: string) => {
+    try {
+      const { error } = await supabase
+        .from('students')
+        .update({ advisor_id: advisorId === NO_ADVISOR ? null : advisorId })
+        .eq('id', studentId);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error assigning advisor:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign advisor",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const profileName = (profile: { full_name: string | null; email: string | null }) =>
+    profile.full_name || profile.email || "Unnamed user";
+
+  const usersWithRole = (role: AppRole) =>
+    profiles.filter((profile) => profile.user_roles.some((r) => r.role === role));
+
+  if (loading) {
+    return <div className="h-48 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Users & Roles */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <span>Users & Roles</span>
+          </CardTitle>
+          <CardDescription>Grant or revoke access for signed-up users</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  {Constants.public.Enums.app_role.map((role) => (
+                    <TableHead key={role} className="capitalize">{role}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => (
+                  <TableRow key={profile.id} className="hover:bg-muted/50">
+                    <TableCell>
+                      <p className="font-medium">{profileName(profile)}</p>
+                      <p className="text-sm text-muted-foreground">{profile.email}</p>
+                    </TableCell>
+                    {Constants.public.Enums.app_role.map((role) => (
+                      <TableCell key={role}>
+                        <Checkbox
+                          checked={profile.user_roles.some((r) => r.role === role)}
+                          onCheckedChange={(checked) => toggleRole(profile, role, checked === true)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Course Allocations */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <BookOpen className="h-5 w-5 text-primary" />
+              <span>Course Allocations</span>
+            </CardTitle>
+            <CardDescription>Lecturers can only enter results for allocated courses</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Select value={newAllocation.course_id} onValueChange={(value) => setNewAllocation({...newAllocation, course_id: value})}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>{course.course_code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newAllocation.lecturer_id} onValueChange={(value) => setNewAllocation({...newAllocation, lecturer_id: value})}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Lecturer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {usersWithRole('lecturer').map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>{profileName(profile)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddAllocation} disabled={!newAllocation.course_id || !newAllocation.lecturer_id}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {allocations.length > 0 ? (
+              allocations.map((allocation) => (
+                <div key={allocation.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                  <div>
+                    <p className="text-sm font-medium">{allocation.courses?.course_code}</p>
+                    <p className="text-xs text-muted-foreground">{allocation.profiles && profileName(allocation.profiles)}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleRemoveAllocation(allocation.id)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <p className="text-center text-muted-foreground py-6">No courses allocated</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Advisor Assignments */}
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <UserCheck className="h-5 w-5 text-accent" />
+              <span>Academic Advisors</span>
+            </CardTitle>
+            <CardDescription>Advisors can only view their advisees</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {students.length > 0 ? (
+              students.map((student) => (
+                <div key={student.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">{student.first_name} {student.last_name}</p>
+                    <p className="text-xs text-muted-foreground">{student.student_id}</p>
+                  </div>
+                  <Select value={student.advisor_id || NO_ADVISOR} onValueChange={(value) => assignAdvisor(student.id, value)}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ADVISOR}>No advisor</SelectItem>
+                      {usersWithRole('advisor').map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>{profileName(profile)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))
+            ) : (
+              <p className="text-center text-muted-foreground py-6">No students found</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AccessManagement;
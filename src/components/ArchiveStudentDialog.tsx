@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Archive, AlertTriangle, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface ArchiveStudentDialogProps {
+  student: {
+    id: string;
+    student_id: string;
+    first_name: string;
+    last_name: string;
+    archived_at: string | null;
+  };
+  onChange: () => void;
+}
+
+interface Dependents {
+  results: number;
+  cgpa_records: number;
+  contacts: number;
+  messages: number;
+  risk_alerts: number;
+}
+
+const DEPENDENT_LABELS: { key: keyof Dependents; label: string }[] = [
+  { key: "results", label: "results" },
+  { key: "cgpa_records", label: "CGPA records" },
+  { key: "contacts", label: "guardian contacts" },
+  { key: "messages", label: "messages" },
+  { key: "risk_alerts", label: "risk alerts" },
+];
+
+// Archives an active student, or deletes an archived one outright. Both show
+// the records that belong to the student first; deleting is only possible
+// when the student has no results or CGPA records.
+const ArchiveStudentDialog = ({ student, onChange }: ArchiveStudentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [dependents, setDependents] = useState<Dependents | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const archived = student.archived_at !== null;
+  const name = `${student.first_name} ${student.last_name}`;
+  const hasRecords = dependents !== null && dependents.results + dependents.cgpa_records > 0;
+
+  const fetchDependents = async () => {
+    const { data, error } = await supabase.rpc('student_dependents', { _student_id: student.id });
+
+    if (error) {
+      console.error('Error fetching student records:', error);
+      return;
+    }
+    setDependents(data?.[0] ?? null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setDependents(null);
+      fetchDependents();
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const { error } = archived
+        ? await supabase.from('students').delete().eq('id', student.id)
+        : await supabase
+            .from('students')
+            .update({ archived_at: new Date().toISOString(), archived_by: user?.id ?? null })
+            .eq('id', student.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: archived ? `${name} deleted` : `${name} archived`,
+      });
+
+      setOpen(false);
+      onChange();
+    } catch (error) {
+      console.error('Error removing student:', error);
+      toast({
+        title: "Error",
+        description: error.message || (archived ? "Failed to delete student" : "Failed to archive student"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const affected = dependents
+    ? DEPENDENT_LABELS.filter(({ key }) => dependents[key] > 0)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          title={archived ? "Delete permanently" : "Archive"}
+        >
+          {archived ? <Trash2 className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{archived ? "Delete" : "Archive"} {name}?</DialogTitle>
+          <DialogDescription>
+            {archived
+              ? "Deleting removes the student and everything below for good."
+              : "Archived students keep all their records but are hidden from result entry, reports and messaging until restored. Messages still waiting to go out to them are cancelled."}
+          </DialogDescription>
+        </DialogHeader>
+        {dependents === null ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-3">
+            {affected.length > 0 ? (
+              <ul className="text-sm space-y-1">
+                {affected.map(({ key, label }) => (
+                  <li key={key} className="flex justify-between">
+                    <span className="text-muted-foreground capitalize">{label}</span>
+                    <span className="font-medium">{dependents[key]}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">{student.student_id} has no results, contacts or messages.</p>
+            )}
+            {archived && hasRecords && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Students with results or CGPA records cannot be deleted. Keep them archived instead.
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={saving || dependents === null || (archived && hasRecords)}
+          >
+            {saving ? "Saving..." : archived ? "Delete permanently" : "Archive"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveStudentDialog;
@@ -4,9 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { TrendingUp, TrendingDown, AlertCircle, Award, Target, BookOpen } from "lucide-react";
+import { TrendingUp, TrendingDown, AlertCircle, AlertTriangle, Award, Target, BookOpen, RefreshCw, Bell } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { CLASSIFICATION_BANDS, getClassification, onScale } from "@/lib/classification";
+import { fetchGradingConfig, resolveScale } from "@/lib/grading";
+import { DEFAULT_RISK_SETTINGS, getRiskLevel, riskAlertReason, toFourPointScale, type RiskLevel, type RiskSettings } from "@/lib/risk";
+import { invokeEdgeFunction } from "@/lib/functions";
 
 interface Student {
   id: string;
@@ -16,6 +20,22 @@ interface Student {
   program: string;
 }
 
+interface AtRiskStudent extends Student {
+  risk_level: string;
+  risk_level_changed_at: string | null;
+}
+
+interface RiskAlert {
+  id: string;
+  kind: string;
+  risk_level: string;
+  cgpa: number;
+  previous_cgpa: number | null;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
 interface CGPARecord {
   semester_gpa: number;
   cumulative_gpa: number;
@@ -32,8 +52,11 @@ interface CGPAAnalysis {
   currentCGPA: number;
   trend: 'up' | 'down' | 'stable';
   classification: string;
+  // Best grade point on the student's scale; classification bands scale to it
+  maxGradePoint: number;
   recommendations: string[];
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
+  alerts: RiskAlert[];
 }
 
 const CGPAAnalyzer = () => {
@@ -41,17 +64,49 @@ const CGPAAnalyzer = () => {
   const [selectedStudent, setSelectedStudent] = useState("");
   const [analysis, setAnalysis] = useState<CGPAAnalysis | null>(null);
   const [loading, setLoading] = useState(false);
+  const [recomputing, setRecomputing] = useState(false);
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(DEFAULT_RISK_SETTINGS);
+  const [atRisk, setAtRisk] = useState<AtRiskStudent[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchStudents();
+    fetchRiskSettings();
+    fetchAtRisk();
   }, []);
 
+  const fetchRiskSettings = async () => {
+    const { data } = await supabase
+      .from('academic_risk_settings')
+      .select('high_risk_below, medium_risk_below, cgpa_drop_threshold')
+      .maybeSingle();
+    if (data) setRiskSettings(data);
+  };
+
+  // risk_level is kept up to date by every CGPA recompute
+  const fetchAtRisk = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, student_id, first_name, last_name, program, risk_level, risk_level_changed_at')
+        .neq('risk_level', 'low')
+        .is('archived_at', null)
+        .order('risk_level_changed_at', { ascending: false });
+
+      if (error) throw error;
+      // High risk first
+      setAtRisk((data || []).sort((a, b) => (a.risk_level === b.risk_level ? 0 : a.risk_level === 'high' ? -1 : 1)));
+    } catch (error) {
+      console.error('Error fetching at-risk students:', error);
+    }
+  };
+
   const fetchStudents = async () => {
     try {
       const { data, error } = await supabase
         .from('students')
         .select('id, student_id, first_name, last_name, program')
+        .is('archived_at', null)
         .order('student_id');
 
       if (error) throw error;
@@ -83,13 +138,22 @@ const CGPAAnalyzer = () => {
         .from('cgpa_records')
         .select(`
           *,
-          semesters (name, year)
+          semesters (name, year, sort_order)
         `)
         .eq('student_id', studentId)
-        .order('semesters(year)', { ascending: true });
+        .order('semesters(sort_order)', { ascending: true });
 
       if (cgpaError) throw cgpaError;
 
+      const { data: alertData, error: alertError } = await supabase
+        .from('academic_risk_alerts')
+        .select('id, kind, risk_level, cgpa, previous_cgpa, status, error, created_at')
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false })
+        .limit(5);
+
+      if (alertError) throw alertError;
+
       // Calculate analysis
       const records = cgpaData || [];
       const currentCGPA = records.length > 0 ? records[records.length - 1].cumulative_gpa : 0;
@@ -102,11 +166,13 @@ const CGPAAnalyzer = () => {
         else if (lastTwo[1].cumulative_gpa < lastTwo[0].cumulative_gpa) trend = 'down';
       }
 
-      // Classification
-      const classification = getClassification(currentCGPA);
+      // Classification, on the student's programme scale
+      const gradingConfig = await fetchGradingConfig();
+      const maxGradePoint = resolveScale(gradingConfig, undefined, studentData.program)?.max_grade_point ?? 4;
+      const classification = getClassification(currentCGPA, maxGradePoint);
       
       // Risk assessment and recommendations
-      const { riskLevel, recommendations } = getRecommendations(currentCGPA, records);
+      const { riskLevel, recommendations } = getRecommendations(currentCGPA, records, maxGradePoint);
 
       setAnalysis({
         student: studentData,
@@ -114,8 +180,10 @@ const CGPAAnalyzer = () => {
         currentCGPA,
         trend,
         classification,
+        maxGradePoint,
         recommendations,
-        riskLevel
+        riskLevel,
+        alerts: alertData || []
       });
 
     } catch (error: any) {
@@ -130,37 +198,56 @@ const CGPAAnalyzer = () => {
     }
   };
 
-  const getClassification = (cgpa: number): string => {
-    if (cgpa >= 3.7) return "First Class Honours";
-    if (cgpa >= 3.3) return "Second Class Honours (Upper Division)";
-    if (cgpa >= 2.7) return "Second Class Honours (Lower Division)";
-    if (cgpa >= 2.0) return "Third Class Honours";
-    return "Pass";
+  const recomputeAll = async () => {
+    setRecomputing(true);
+    try {
+      const { data, error } = await supabase.rpc('recompute_all_cgpa');
+
+      if (error) throw error;
+
+      toast({
+        title: "CGPA Recomputed",
+        description: `GPA records rebuilt for ${data} students`,
+      });
+
+      // Recomputing may have raised at-risk alerts; the worker queues and sends them
+      invokeEdgeFunction('sms-worker').catch((error) => {
+        console.error('Error starting SMS worker:', error);
+      });
+
+      fetchAtRisk();
+      if (selectedStudent) analyzeCGPA(selectedStudent);
+    } catch (error) {
+      console.error('Error recomputing CGPA:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to recompute CGPA",
+        variant: "destructive",
+      });
+    } finally {
+      setRecomputing(false);
+    }
   };
 
-  const getRecommendations = (cgpa: number, records: CGPARecord[]) => {
+  const getRecommendations = (cgpa: number, records: CGPARecord[], maxGradePoint: number) => {
     const recommendations: string[] = [];
-    let riskLevel: 'low' | 'medium' | 'high' = 'low';
+    const riskLevel = getRiskLevel(cgpa, riskSettings, maxGradePoint);
 
-    if (cgpa < 2.0) {
-      riskLevel = 'high';
+    if (riskLevel === 'high') {
       recommendations.push("Seek academic counseling immediately");
       recommendations.push("Consider reducing course load to focus on improving grades");
       recommendations.push("Utilize tutoring services and study groups");
       recommendations.push("Meet with academic advisor to discuss academic standing");
-    } else if (cgpa < 2.7) {
-      riskLevel = 'medium';
+    } else if (riskLevel === 'medium') {
       recommendations.push("Improve study habits and time management");
       recommendations.push("Seek help from professors during office hours");
       recommendations.push("Consider forming study groups with classmates");
       recommendations.push("Focus on courses with higher credit values");
-    } else if (cgpa < 3.3) {
-      riskLevel = 'low';
+    } else if (cgpa < onScale(3.3, maxGradePoint)) {
       recommendations.push("Maintain consistent study schedule");
       recommendations.push("Challenge yourself with advanced courses");
       recommendations.push("Consider research opportunities or internships");
     } else {
-      riskLevel = 'low';
       recommendations.push("Excellent performance! Keep up the good work");
       recommendations.push("Consider pursuing honors programs or research");
       recommendations.push("Explore leadership opportunities");
@@ -170,7 +257,7 @@ const CGPAAnalyzer = () => {
     // Trend-based recommendations
     if (records.length > 1) {
       const trend = records[records.length - 1].cumulative_gpa - records[records.length - 2].cumulative_gpa;
-      if (trend < -0.2) {
+      if (toFourPointScale(trend, maxGradePoint) < -riskSettings.cgpa_drop_threshold) {
         recommendations.push("Address declining performance - identify problem areas");
       } else if (trend > 0.2) {
         recommendations.push("Great improvement! Continue with current strategies");
@@ -180,6 +267,9 @@ const CGPAAnalyzer = () => {
     return { riskLevel, recommendations };
   };
 
+  const firstClassProgress = ({ currentCGPA, maxGradePoint }: CGPAAnalysis) =>
+    Math.min(100, (currentCGPA / onScale(CLASSIFICATION_BANDS[0].min, maxGradePoint)) * 100);
+
   const getRiskColor = (riskLevel: string) => {
     switch (riskLevel) {
       case 'high': return 'text-destructive';
@@ -202,11 +292,19 @@ const CGPAAnalyzer = () => {
       {/* Student Selection */}
       <Card className="shadow-card">
         <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <TrendingUp className="h-5 w-5 text-primary" />
-            <span>CGPA Analysis & Advisory</span>
-          </CardTitle>
-          <CardDescription>Analyze student performance and get academic recommendations</CardDescription>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5 text-primary" />
+                <span>CGPA Analysis & Advisory</span>
+              </CardTitle>
+              <CardDescription>Analyze student performance and get academic recommendations</CardDescription>
+            </div>
+            <Button variant="outline" onClick={recomputeAll} disabled={recomputing}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${recomputing ? 'animate-spin' : ''}`} />
+              {recomputing ? "Recomputing..." : "Recompute All"}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="flex gap-4 items-end">
@@ -236,6 +334,51 @@ const CGPAAnalyzer = () => {
         </CardContent>
       </Card>
 
+      {/* At-risk Students */}
+      {atRisk.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-warning" />
+              <span>At-risk Students ({atRisk.length})</span>
+            </CardTitle>
+            <CardDescription>
+              CGPA below {riskSettings.medium_risk_below.toFixed(2)} (medium) or {riskSettings.high_risk_below.toFixed(2)} (high) on the 4.0 scale after the latest recompute
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {atRisk.map((student) => (
+                <div key={student.id} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div>
+                    <p className="font-medium">{student.first_name} {student.last_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {student.student_id} • {student.program}
+                      {student.risk_level_changed_at && ` • since ${new Date(student.risk_level_changed_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge className={getRiskColor(student.risk_level)}>
+                      {student.risk_level.toUpperCase()}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedStudent(student.id);
+                        analyzeCGPA(student.id);
+                      }}
+                    >
+                      Analyze
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Analysis Results */}
       {analysis && (
         <div className="grid gap-6 lg:grid-cols-2">
@@ -280,9 +423,9 @@ const CGPAAnalyzer = () => {
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Progress to First Class</span>
-                  <span>{Math.min(100, (analysis.currentCGPA / 3.7) * 100).toFixed(0)}%</span>
+                  <span>{firstClassProgress(analysis).toFixed(0)}%</span>
                 </div>
-                <Progress value={Math.min(100, (analysis.currentCGPA / 3.7) * 100)} className="h-2" />
+                <Progress value={firstClassProgress(analysis)} className="h-2" />
               </div>
             </CardContent>
           </Card>
@@ -307,6 +450,37 @@ const CGPAAnalyzer = () => {
             </CardContent>
           </Card>
 
+          {/* Risk Alerts */}
+          {analysis.alerts.length > 0 && (
+            <Card className="shadow-card lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Bell className="h-5 w-5 text-accent" />
+                  <span>Recent Risk Alerts</span>
+                </CardTitle>
+                <CardDescription>Sent to the student and their advisor</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {analysis.alerts.map((alert) => (
+                    <div key={alert.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                      <div>
+                        <p className="text-sm font-medium capitalize">{riskAlertReason(alert)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(alert.created_at).toLocaleString()}
+                          {alert.error && ` • ${alert.error}`}
+                        </p>
+                      </div>
+                      <Badge variant={alert.status === 'skipped' ? 'outline' : 'secondary'} className="capitalize">
+                        {alert.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Performance History */}
           {analysis.records.length > 0 && (
             <Card className="shadow-card lg:col-span-2">
@@ -0,0 +1,604 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Megaphone, Search, Send, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { invokeEdgeFunction } from "@/lib/functions";
+import { countryOfNumber, fetchDefaultCountry, normalisePhone, DEFAULT_COUNTRY } from "@/lib/phone";
+import { budgetWarning, describeEstimate, estimateCost, fetchSmsPricing, type SmsPricing } from "@/lib/sms-pricing";
+import { sendableEmail } from "@/lib/email";
+import {
+  escapeHtml,
+  formatGpa,
+  renderTemplate,
+  segmentInfo,
+  type TemplateChannel,
+  type TemplateValues,
+} from "@/lib/sms-template";
+
+type AudienceMember = Database["public"]["Functions"]["campaign_audience"]["Returns"][number];
+
+interface Campaign {
+  id: string;
+  name: string;
+  channel: TemplateChannel;
+  batch_id: string | null;
+  recipient_count: number;
+  skipped_count: number;
+  estimated_segments: number;
+  created_at: string;
+}
+
+interface CampaignRecipient {
+  id: string;
+  student_number: string;
+  student_name: string;
+  recipient: string | null;
+  skipped_reason: string | null;
+  sms_messages: { status: string } | null;
+}
+
+interface SegmentFilters {
+  program: string;
+  year_of_study: string;
+  min_cgpa: string;
+  max_cgpa: string;
+  risk_level: string;
+  missing_results_semester_id: string;
+  consent: "opted_in" | "opted_out" | "any";
+}
+
+// A matched student and where the message goes, or why it does not
+interface Addressed {
+  student: AudienceMember;
+  address: string | null;
+  skipped_reason: string | null;
+}
+
+interface CampaignBuilderProps {
+  // Lets the Notifications tab follow the campaign's batch
+  onQueued: (batch: { id: string; label: string }) => void;
+}
+
+const ALL = "all";
+
+const EMPTY_FILTERS: SegmentFilters = {
+  program: ALL,
+  year_of_study: ALL,
+  min_cgpa: "",
+  max_cgpa: "",
+  risk_level: ALL,
+  missing_results_semester_id: ALL,
+  consent: "opted_in",
+};
+
+const CAMPAIGN_PLACEHOLDERS = ["first_name", "last_name", "student_id", "cgpa"];
+
+const CampaignBuilder = ({ onQueued }: CampaignBuilderProps) => {
+  const [programs, setPrograms] = useState<string[]>([]);
+  const [semesters, setSemesters] = useState<{ id: string; name: string; year: number }[]>([]);
+  const [filters, setFilters] = useState<SegmentFilters>(EMPTY_FILTERS);
+  const [audience, setAudience] = useState<AudienceMember[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState<TemplateChannel>("sms");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  // datetime-local value; empty sends right away
+  const [sendAt, setSendAt] = useState("");
+  const [sending, setSending] = useState(false);
+  const [defaultCountry, setDefaultCountry] = useState(DEFAULT_COUNTRY);
+  const [pricing, setPricing] = useState<SmsPricing>({ currency: "NGN", provider: null, prices: [], remainingBudget: null });
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [viewing, setViewing] = useState<Campaign | null>(null);
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOptions();
+    fetchCampaigns();
+    fetchDefaultCountry().then(setDefaultCountry);
+    fetchSmsPricing().then(setPricing);
+  }, []);
+
+  const fetchOptions = async () => {
+    const [{ data: studentData }, { data: semesterData }] = await Promise.all([
+      supabase.from('students').select('program'),
+      supabase.from('semesters').select('id, name, year').order('sort_order', { ascending: false }),
+    ]);
+    setPrograms([...new Set((studentData || []).map((student) => student.program))].sort());
+    setSemesters(semesterData || []);
+  };
+
+  const fetchCampaigns = async () => {
+    const { data, error } = await supabase
+      .from('sms_campaigns')
+      .select('id, name, channel, batch_id, recipient_count, skipped_count, estimated_segments, created_at')
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching campaigns:', error);
+      return;
+    }
+    setCampaigns(data || []);
+  };
+
+  const viewRecipients = async (campaign: Campaign) => {
+    setViewing(campaign);
+    setRecipients([]);
+    const { data, error } = await supabase
+      .from('sms_campaign_recipients')
+      .select('id, student_number, student_name, recipient, skipped_reason, sms_messages (status)')
+      .eq('campaign_id', campaign.id)
+      .order('student_number');
+
+    if (error) {
+      console.error('Error fetching campaign recipients:', error);
+      return;
+    }
+    setRecipients(data || []);
+  };
+
+  const findAudience = async () => {
+    setSearching(true);
+    try {
+      const option = (value: string) => (value === ALL ? undefined : value);
+      const number = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+      const { data, error } = await supabase.rpc('campaign_audience', {
+        _program: option(filters.program),
+        _year_of_study: number(option(filters.year_of_study) ?? ""),
+        _min_cgpa: number(filters.min_cgpa),
+        _max_cgpa: number(filters.max_cgpa),
+        _risk_level: option(filters.risk_level),
+        _missing_results_semester_id: option(filters.missing_results_semester_id),
+      });
+
+      if (error) throw error;
+
+      const consented = (student: AudienceMember) => (channel === "email" ? student.email_consent : student.sms_consent);
+      setAudience((data || []).filter((student) =>
+        filters.consent === "any" || (filters.consent === "opted_in") === consented(student)
+      ));
+    } catch (error) {
+      console.error('Error finding campaign audience:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to find matching students",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const updateFilters = (changes: Partial<SegmentFilters>) => {
+    setFilters({ ...filters, ...changes });
+    // The old count no longer matches the filters
+    setAudience(null);
+  };
+
+  const addressed: Addressed[] = (audience || []).map((student) => {
+    if (channel === "email") {
+      if (!student.email_consent) return { student, address: null, skipped_reason: "Opted out of email" };
+      const email = sendableEmail(student.email);
+      return email ? { student, address: email, skipped_reason: null } : { student, address: null, skipped_reason: "No valid email" };
+    }
+    if (!student.sms_consent) return { student, address: null, skipped_reason: "Opted out of SMS" };
+    const phone = normalisePhone(student.phone_number || "", defaultCountry);
+    return phone.valid ? { student, address: phone.e164, skipped_reason: null } : { student, address: null, skipped_reason: "Invalid number" };
+  });
+  const reachable = addressed.filter((entry) => entry.address);
+
+  const valuesFor = (student: AudienceMember): TemplateValues => ({
+    first_name: student.first_name,
+    last_name: student.last_name,
+    student_id: student.student_id,
+    cgpa: formatGpa(student.cgpa),
+  });
+
+  // Composed as plain text; emails keep the line breaks
+  const messageFor = (student: AudienceMember) => {
+    const text = renderTemplate(body, valuesFor(student));
+    return channel === "email"
+      ? { subject: renderTemplate(subject, valuesFor(student)), body: `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>` }
+      : { subject: null, body: text };
+  };
+
+  const estimate = estimateCost(
+    channel === "sms"
+      ? reachable.map((entry) => ({
+        country: countryOfNumber(entry.address),
+        segments: segmentInfo(messageFor(entry.student).body).segments,
+      }))
+      : [],
+    pricing.prices,
+    pricing.provider
+  );
+  const estimateWarning = budgetWarning(estimate, pricing.remainingBudget, pricing.currency);
+  const preview = reachable[0] ? renderTemplate(body, valuesFor(reachable[0].student)) : body;
+
+  const canSend = !sending && name.trim() && body.trim() && (channel === "sms" || subject.trim()) && reachable.length > 0;
+
+  const sendCampaign = async () => {
+    setSending(true);
+    try {
+      const label = `Campaign: ${name.trim()}`;
+      const scheduledFor = sendAt ? new Date(sendAt).toISOString() : null;
+
+      // The batch, campaign, messages and the audit list of everyone the
+      // segment matched, sent or not, are created together
+      const { data: batchId, error } = await supabase.rpc('create_sms_campaign', {
+        _campaign: {
+          name: name.trim(),
+          channel,
+          subject: channel === "email" ? subject : null,
+          body,
+          filters: { ...filters, channel },
+          estimated_segments: estimate.segments,
+          estimated_cost: channel === "sms" ? estimate.cost : 0,
+        },
+        _recipients: addressed.map(({ student, address, skipped_reason }) => ({
+          student_id: student.id,
+          student_number: student.student_id,
+          student_name: `${student.first_name} ${student.last_name}`,
+          recipient: address,
+          skipped_reason,
+          ...(address ? messageFor(student) : {}),
+        })),
+        _scheduled_for: scheduledFor ?? undefined,
+      });
+
+      if (error) throw error;
+
+      onQueued({ id: batchId, label });
+
+      invokeEdgeFunction('sms-worker').catch((error) => {
+        console.error('Error starting SMS worker:', error);
+      });
+
+      toast({
+        title: scheduledFor ? "Campaign Scheduled" : "Campaign Queued",
+        description: `${reachable.length} messages ${scheduledFor ? `scheduled for ${new Date(scheduledFor).toLocaleString()}` : "queued"}${addressed.length > reachable.length ? `, ${addressed.length - reachable.length} students skipped` : ""}`,
+      });
+
+      setName("");
+      setSubject("");
+      setBody("");
+      setSendAt("");
+      setAudience(null);
+      fetchCampaigns();
+    } catch (error) {
+      console.error('Error queueing campaign:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to queue campaign",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Megaphone className="h-5 w-5 text-primary" />
+          <span>Campaigns</span>
+        </CardTitle>
+        <CardDescription>
+          Send a one-off message to a group of students, e.g. all year 1 Computer Science students or everyone with a CGPA below 2.00
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Segment */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Program</Label>
+              <Select value={filters.program} onValueChange={(value) => updateFilters({ program: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All programs</SelectItem>
+                  {programs.map((program) => (
+                    <SelectItem key={program} value={program}>{program}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Year of study</Label>
+              <Select value={filters.year_of_study} onValueChange={(value) => updateFilters({ year_of_study: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All years</SelectItem>
+                  {[1, 2, 3, 4, 5, 6].map((year) => (
+                    <SelectItem key={year} value={String(year)}>Year {year} ({year}00 level)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="campaign_min_cgpa">CGPA from</Label>
+              <Input
+                id="campaign_min_cgpa"
+                type="number"
+                min="0"
+                step="0.01"
+                value={filters.min_cgpa}
+                onChange={(e) => updateFilters({ min_cgpa: e.target.value })}
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <Label htmlFor="campaign_max_cgpa">CGPA below</Label>
+              <Input
+                id="campaign_max_cgpa"
+                type="number"
+                min="0"
+                step="0.01"
+                value={filters.max_cgpa}
+                onChange={(e) => updateFilters({ max_cgpa: e.target.value })}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Risk level</Label>
+              <Select value={filters.risk_level} onValueChange={(value) => updateFilters({ risk_level: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any risk level</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Missing results</Label>
+              <Select
+                value={filters.missing_results_semester_id}
+                onValueChange={(value) => updateFilters({ missing_results_semester_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Don't filter</SelectItem>
+                  {semesters.map((semester) => (
+                    <SelectItem key={semester.id} value={semester.id}>
+                      No results in {semester.name} {semester.year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Opt-in status</Label>
+              <Select
+                value={filters.consent}
+                onValueChange={(value) => updateFilters({ consent: value as SegmentFilters["consent"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="opted_in">Opted in</SelectItem>
+                  <SelectItem value="opted_out">Opted out (audit only)</SelectItem>
+                  <SelectItem value="any">Anyone</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={findAudience} disabled={searching} className="w-full">
+                <Search className="h-4 w-4 mr-2" />
+                {searching ? "Searching..." : "Find Recipients"}
+              </Button>
+            </div>
+          </div>
+          {audience && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary">
+                <Users className="h-3 w-3 mr-1" />
+                {audience.length} students match
+              </Badge>
+              <Badge variant="secondary">{reachable.length} reachable by {channel === "email" ? "email" : "SMS"}</Badge>
+              {addressed.length > reachable.length && (
+                <Badge variant="outline" className="text-warning">{addressed.length - reachable.length} will be skipped</Badge>
+              )}
+              {channel === "sms" && body.trim() && (
+                <span className="text-muted-foreground">
+                  Estimated cost: {describeEstimate(estimate, pricing.currency)} across {reachable.length} message(s)
+                </span>
+              )}
+              {channel === "sms" && body.trim() && estimateWarning && (
+                <span className="text-destructive">{estimateWarning}</span>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Message */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="campaign_name">Campaign name</Label>
+              <Input
+                id="campaign_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Year 1 CS registration reminder"
+              />
+            </div>
+            <div>
+              <Label>Channel</Label>
+              <Select
+                value={channel}
+                onValueChange={(value) => {
+                  setChannel(value as TemplateChannel);
+                  // Opt-in status is per channel
+                  setAudience(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {channel === "email" && (
+            <div>
+              <Label htmlFor="campaign_subject">Subject</Label>
+              <Input id="campaign_subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="campaign_body">Message</Label>
+            <Textarea
+              id="campaign_body"
+              rows={4}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Dear {first_name}, ..."
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Placeholders: {CAMPAIGN_PLACEHOLDERS.map((key) => `{${key}}`).join(" ")}
+            </p>
+          </div>
+          {body.trim() && (
+            <div className="p-3 rounded-lg bg-muted/50 text-sm">
+              <p className="whitespace-pre-wrap">{preview}</p>
+              {channel === "sms" && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {segmentInfo(preview).encoding}, {segmentInfo(preview).segments} segment(s) for this recipient
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="campaign_send_at">Send at (optional)</Label>
+              <Input
+                id="campaign_send_at"
+                type="datetime-local"
+                className="w-56"
+                value={sendAt}
+                onChange={(e) => setSendAt(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={sendCampaign}
+              disabled={!canSend}
+              className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {sending ? "Queueing..." : `${sendAt ? "Schedule" : "Send"} to ${reachable.length} Students`}
+            </Button>
+          </div>
+        </div>
+
+        {/* Past campaigns */}
+        {campaigns.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Segments</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <TableRow key={campaign.id} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">{campaign.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{campaign.channel === "email" ? "Email" : "SMS"}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {campaign.recipient_count}
+                      {campaign.skipped_count > 0 && <span className="text-muted-foreground"> ({campaign.skipped_count} skipped)</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{campaign.channel === "sms" ? campaign.estimated_segments : "—"}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{new Date(campaign.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => viewRecipients(campaign)}>
+                        Recipients
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing?.name}</DialogTitle>
+            <DialogDescription>Everyone the campaign's segment matched when it was sent</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recipients.map((recipient) => (
+                  <TableRow key={recipient.id}>
+                    <TableCell>
+                      <p className="font-medium">{recipient.student_name}</p>
+                      <p className="text-sm text-muted-foreground">{recipient.student_number}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">{recipient.recipient || "—"}</TableCell>
+                    <TableCell>
+                      {recipient.skipped_reason ? (
+                        <Badge variant="outline" className="text-warning">{recipient.skipped_reason}</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="capitalize">{recipient.sms_messages?.status || "queued"}</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CampaignBuilder;
@@ -0,0 +1,488 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, Plus, Edit, Trash2, Archive, ArchiveRestore, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface Course {
+  id: string;
+  course_code: string;
+  course_name: string;
+  credit_units: number;
+  level: number;
+  department: string | null;
+  course_type: string;
+  is_active: boolean;
+  course_prerequisites: { prerequisite_id: string }[];
+  results: { count: number }[];
+}
+
+const COURSE_TYPES = [
+  { value: "core", label: "Core" },
+  { value: "elective", label: "Elective" },
+  { value: "general_studies", label: "General Studies" },
+];
+
+const LEVELS = [100, 200, 300, 400, 500, 600, 700];
+
+const EMPTY_FORM = {
+  course_code: "",
+  course_name: "",
+  credit_units: 3,
+  level: 100,
+  department: "",
+  course_type: "core",
+  is_active: true,
+  prerequisite_ids: [] as string[]
+};
+
+const CourseManagement = () => {
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // The course being edited; null while adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin', 'registry');
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  const fetchCourses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('courses')
+        .select(`
+          id, course_code, course_name, credit_units, level, department, course_type, is_active,
+          course_prerequisites!course_prerequisites_course_id_fkey (prerequisite_id),
+          results (count)
+        `)
+        .order('course_code');
+
+      if (error) throw error;
+      setCourses(data || []);
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch courses",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const codeOf = (courseId: string) => courses.find((course) => course.id === courseId)?.course_code;
+  const resultCount = (course: Course) => course.results[0]?.count ?? 0;
+
+  const openAddDialog = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (course: Course) => {
+    setEditingId(course.id);
+    setFormData({
+      course_code: course.course_code,
+      course_name: course.course_name,
+      credit_units: course.credit_units,
+      level: course.level,
+      department: course.department || "",
+      course_type: course.course_type,
+      is_active: course.is_active,
+      prerequisite_ids: course.course_prerequisites.map((prerequisite) => prerequisite.prerequisite_id)
+    });
+    setIsDialogOpen(true);
+  };
+
+  const togglePrerequisite = (courseId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      prerequisite_ids: checked
+        ? [...formData.prerequisite_ids, courseId]
+        : formData.prerequisite_ids.filter((id) => id !== courseId)
+    });
+  };
+
+  const handleSaveCourse = async () => {
+    if (!formData.course_code.trim() || !formData.course_name.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Course code and name are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!Number.isInteger(formData.credit_units) || formData.credit_units < 1) {
+      toast({
+        title: "Invalid credit units",
+        description: "Credit units must be a whole number of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { prerequisite_ids, ...fields } = formData;
+    const record = {
+      ...fields,
+      course_code: fields.course_code.trim().toUpperCase(),
+      course_name: fields.course_name.trim(),
+      department: fields.department.trim() || null
+    };
+
+    setSaving(true);
+    try {
+      // One call, so a refused prerequisite leaves the course unchanged too
+      const { error } = await supabase.rpc('save_course', {
+        _course_id: editingId,
+        _course: record,
+        _prerequisite_ids: prerequisite_ids,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: editingId ? "Course updated successfully" : "Course added successfully",
+      });
+
+      setIsDialogOpen(false);
+      setEditingId(null);
+      setFormData(EMPTY_FORM);
+    } catch (error) {
+      console.error('Error saving course:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save course",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      fetchCourses();
+    }
+  };
+
+  const setActive = async (course: Course, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('courses')
+        .update({ is_active: active })
+        .eq('id', course.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: active ? `${course.course_code} is offered again` : `${course.course_code} retired`,
+      });
+      fetchCourses();
+    } catch (error) {
+      console.error('Error updating course:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update course",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Only for courses without results; the database refuses the rest
+  const handleDelete = async (course: Course) => {
+    try {
+      const { error } = await supabase.from('courses').delete().eq('id', course.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${course.course_code} deleted`,
+      });
+      fetchCourses();
+    } catch (error) {
+      console.error('Error deleting course:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete course",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredCourses = courses.filter(course =>
+    course.course_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    course.course_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (course.department || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <BookOpen className="h-5 w-5 text-primary" />
+                <span>Course Catalogue</span>
+              </CardTitle>
+              <CardDescription>
+                Courses offered for result entry. Courses with results are retired rather than deleted.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                onClick={openAddDialog}
+                className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Course
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+              <Input
+                placeholder="Search courses by code, name, or department..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Course</TableHead>
+                    <TableHead>Units</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Prerequisites</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canEdit && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCourses.length > 0 ? (
+                    filteredCourses.map((course) => (
+                      <TableRow key={course.id} className={`hover:bg-muted/50 ${course.is_active ? "" : "opacity-60"}`}>
+                        <TableCell>
+                          <p className="font-medium">{course.course_code}</p>
+                          <p className="text-sm text-muted-foreground">{course.course_name}</p>
+                        </TableCell>
+                        <TableCell>{course.credit_units}</TableCell>
+                        <TableCell>{course.level}</TableCell>
+                        <TableCell className="text-sm">{course.department || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">
+                            {COURSE_TYPES.find((type) => type.value === course.course_type)?.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {course.course_prerequisites.length > 0
+                            ? course.course_prerequisites.map((prerequisite) => codeOf(prerequisite.prerequisite_id)).join(", ")
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={course.is_active ? "outline" : "secondary"}>
+                            {course.is_active ? "Active" : "Retired"}
+                          </Badge>
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <div className="flex items-center space-x-2">
+                              <Button variant="outline" size="sm" onClick={() => openEditDialog(course)} title="Edit">
+                                <Edit className="h-3 w-3" />
+                              </Button>
+                              {resultCount(course) > 0 || !course.is_active ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setActive(course, !course.is_active)}
+                                  title={course.is_active ? `Retire (${resultCount(course)} results)` : "Offer again"}
+                                >
+                                  {course.is_active ? <Archive className="h-3 w-3" /> : <ArchiveRestore className="h-3 w-3" />}
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-destructive hover:text-destructive"
+                                  onClick={() => handleDelete(course)}
+                                  title="Delete"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={canEdit ? 8 : 7} className="h-24 text-center">
+                        <div className="flex flex-col items-center space-y-2">
+                          <BookOpen className="h-8 w-8 text-muted-foreground" />
+                          <p className="text-muted-foreground">
+                            {searchTerm ? "No courses found matching your search" : "No courses found"}
+                          </p>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Course" : "Add New Course"}</DialogTitle>
+            <DialogDescription>
+              {editingId ? "Update the course details below" : "Enter course details below"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="course_code">Course Code</Label>
+                <Input
+                  id="course_code"
+                  value={formData.course_code}
+                  onChange={(e) => setFormData({...formData, course_code: e.target.value})}
+                  placeholder="CS301"
+                />
+              </div>
+              <div>
+                <Label htmlFor="credit_units">Credit Units</Label>
+                <Input
+                  id="credit_units"
+                  type="number"
+                  min="1"
+                  value={formData.credit_units}
+                  onChange={(e) => setFormData({...formData, credit_units: parseInt(e.target.value)})}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="course_name">Course Name</Label>
+              <Input
+                id="course_name"
+                value={formData.course_name}
+                onChange={(e) => setFormData({...formData, course_name: e.target.value})}
+                placeholder="Operating Systems"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Level</Label>
+                <Select
+                  value={formData.level.toString()}
+                  onValueChange={(value) => setFormData({...formData, level: parseInt(value)})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEVELS.map((level) => (
+                      <SelectItem key={level} value={level.toString()}>{level} Level</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={formData.course_type}
+                  onValueChange={(value) => setFormData({...formData, course_type: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COURSE_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="department">Department</Label>
+              <Input
+                id="department"
+                value={formData.department}
+                onChange={(e) => setFormData({...formData, department: e.target.value})}
+                placeholder="Computer Science"
+              />
+            </div>
+            <div>
+              <Label>Prerequisites</Label>
+              <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                {courses.filter((course) => course.id !== editingId).map((course) => (
+                  <div key={course.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`prerequisite-${course.id}`}
+                      checked={formData.prerequisite_ids.includes(course.id)}
+                      onCheckedChange={(checked) => togglePrerequisite(course.id, checked === true)}
+                    />
+                    <Label htmlFor={`prerequisite-${course.id}`} className="font-normal">
+                      {course.course_code} - {course.course_name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="is_active">Active</Label>
+                <p className="text-xs text-muted-foreground">Retired courses keep their results but can't take new ones</p>
+              </div>
+              <Switch
+                id="is_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({...formData, is_active: checked})}
+              />
+            </div>
+            <Button onClick={handleSaveCourse} disabled={saving} className="w-full">
+              {saving ? "Saving..." : editingId ? "Save Changes" : "Add Course"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CourseManagement;
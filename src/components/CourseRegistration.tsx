@@ -0,0 +1,368 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Plus, Undo2, XCircle, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface Student {
+  id: string;
+  student_id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface Course {
+  id: string;
+  course_code: string;
+  course_name: string;
+  credit_units: number;
+  course_prerequisites: { courses: { course_code: string } }[];
+}
+
+interface Semester {
+  id: string;
+  name: string;
+  year: number;
+  is_current: boolean;
+}
+
+interface Registration {
+  id: string;
+  student_id: string;
+  course_id: string;
+  status: string;
+  courses: { course_code: string; course_name: string; credit_units: number };
+}
+
+interface RegistrationLimits {
+  min_credit_units: number;
+  max_credit_units: number;
+}
+
+// Registers students for a semester's courses. The database checks
+// prerequisites and the maximum credit load and explains any refusal.
+const CourseRegistration = () => {
+  const [students, setStudents] = useState<Student[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [semesters, setSemesters] = useState<Semester[]>([]);
+  const [limits, setLimits] = useState<RegistrationLimits>({ min_credit_units: 0, max_credit_units: 0 });
+  const [semesterId, setSemesterId] = useState("");
+  const [studentId, setStudentId] = useState("");
+  const [courseId, setCourseId] = useState("");
+  // Every registration in the semester, for the load check across students
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin', 'registry');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (semesterId) fetchRegistrations();
+  }, [semesterId]);
+
+  const fetchData = async () => {
+    try {
+      const [studentsData, coursesData, semestersData, settingsData] = await Promise.all([
+        supabase.from('students').select('id, student_id, first_name, last_name').is('archived_at', null).order('student_id'),
+        supabase
+          .from('courses')
+          .select('id, course_code, course_name, credit_units, course_prerequisites!course_prerequisites_course_id_fkey (courses!course_prerequisites_prerequisite_id_fkey (course_code))')
+          .eq('is_active', true)
+          .order('course_code'),
+        supabase.from('semesters').select('id, name, year, is_current').order('sort_order', { ascending: false }),
+        supabase.from('registration_settings').select('min_credit_units, max_credit_units').single(),
+      ]);
+
+      if (studentsData.error) throw studentsData.error;
+      if (coursesData.error) throw coursesData.error;
+      if (semestersData.error) throw semestersData.error;
+      if (settingsData.error) throw settingsData.error;
+
+      setStudents(studentsData.data || []);
+      setCourses(coursesData.data || []);
+      setSemesters(semestersData.data || []);
+      setLimits(settingsData.data);
+      setSemesterId((semestersData.data || []).find((semester) => semester.is_current)?.id || "");
+    } catch (error) {
+      console.error('Error fetching registration data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch registration data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRegistrations = async () => {
+    const { data, error } = await supabase
+      .from('course_registrations')
+      .select('id, student_id, course_id, status, courses (course_code, course_name, credit_units)')
+      .eq('semester_id', semesterId);
+
+    if (error) {
+      console.error('Error fetching course registrations:', error);
+      return;
+    }
+    setRegistrations(data || []);
+  };
+
+  const loadOf = (id: string) => registrations
+    .filter((registration) => registration.student_id === id && registration.status === 'registered')
+    .reduce((sum, registration) => sum + registration.courses.credit_units, 0);
+
+  const studentRegistrations = registrations
+    .filter((registration) => registration.student_id === studentId)
+    .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code));
+  const studentLoad = loadOf(studentId);
+  const availableCourses = courses.filter(
+    (course) => !studentRegistrations.some((registration) => registration.course_id === course.id)
+  );
+
+  // Registered students below the minimum load this semester
+  const underloaded = students
+    .map((student) => ({ student, load: loadOf(student.id) }))
+    .filter(({ load }) => load > 0 && load < limits.min_credit_units);
+
+  const handleRegister = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('course_registrations')
+        .insert([{ student_id: studentId, course_id: courseId, semester_id: semesterId, registered_by: user?.id ?? null }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Registered for ${courses.find((course) => course.id === courseId)?.course_code}`,
+      });
+      setCourseId("");
+      fetchRegistrations();
+    } catch (error) {
+      console.error('Error registering course:', error);
+      toast({
+        title: "Registration Refused",
+        description: error.message || "Failed to register course",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (registration: Registration, status: string) => {
+    try {
+      const { error } = await supabase
+        .from('course_registrations')
+        .update({ status })
+        .eq('id', registration.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === 'dropped'
+          ? `${registration.courses.course_code} dropped`
+          : `Registered for ${registration.courses.course_code} again`,
+      });
+      fetchRegistrations();
+    } catch (error) {
+      console.error('Error updating course registration:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update registration",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ClipboardList className="h-5 w-5 text-primary" />
+            <span>Course Registration</span>
+          </CardTitle>
+          <CardDescription>
+            Results can only be entered for registered courses. Credit load: {limits.min_credit_units} to {limits.max_credit_units} units per semester.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Semester</Label>
+              <Select value={semesterId} onValueChange={setSemesterId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select semester" />
+                </SelectTrigger>
+                <SelectContent>
+                  {semesters.map((semester) => (
+                    <SelectItem key={semester.id} value={semester.id}>
+                      {semester.name} {semester.year}{semester.is_current && " (current)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Student</Label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((student) => (
+                    <SelectItem key={student.id} value={student.id}>
+                      {student.student_id} - {student.first_name} {student.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {studentId && semesterId && (
+            <>
+              <div className="flex items-center justify-between">
+                <p className="text-sm">
+                  <span className="font-medium">{studentLoad}</span> credit units registered
+                </p>
+                {studentLoad > 0 && studentLoad < limits.min_credit_units && (
+                  <Badge variant="outline" className="text-warning">Below minimum load</Badge>
+                )}
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Units</TableHead>
+                      <TableHead>Status</TableHead>
+                      {canEdit && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {studentRegistrations.length > 0 ? (
+                      studentRegistrations.map((registration) => (
+                        <TableRow key={registration.id}>
+                          <TableCell>
+                            <p className="font-medium">{registration.courses.course_code}</p>
+                            <p className="text-sm text-muted-foreground">{registration.courses.course_name}</p>
+                          </TableCell>
+                          <TableCell>{registration.courses.credit_units}</TableCell>
+                          <TableCell>
+                            <Badge variant={registration.status === 'registered' ? "secondary" : "outline"} className="capitalize">
+                              {registration.status}
+                            </Badge>
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              {registration.status === 'registered' ? (
+                                <Button variant="outline" size="sm" onClick={() => setStatus(registration, 'dropped')}>
+                                  <XCircle className="h-3 w-3 mr-1" />
+                                  Drop
+                                </Button>
+                              ) : (
+                                <Button variant="outline" size="sm" onClick={() => setStatus(registration, 'registered')}>
+                                  <Undo2 className="h-3 w-3 mr-1" />
+                                  Register again
+                                </Button>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={canEdit ? 4 : 3} className="h-16 text-center text-muted-foreground">
+                          No courses registered this semester
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {canEdit && (
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Label>Add course</Label>
+                    <Select value={courseId} onValueChange={setCourseId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableCourses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.course_code} - {course.course_name} ({course.credit_units} units)
+                            {course.course_prerequisites.length > 0 &&
+                              ` · needs ${course.course_prerequisites.map((prerequisite) => prerequisite.courses.course_code).join(", ")}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    onClick={handleRegister}
+                    disabled={saving || !courseId}
+                    className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Register
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {underloaded.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-warning" />
+              <span>Below Minimum Load</span>
+            </CardTitle>
+            <CardDescription>
+              {underloaded.length} student(s) registered for fewer than {limits.min_credit_units} units this semester
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {underloaded.map(({ student, load }) => (
+                <div key={student.id} className="flex items-center justify-between text-sm">
+                  <button type="button" className="hover:underline text-left" onClick={() => setStudentId(student.id)}>
+                    {student.student_id} - {student.first_name} {student.last_name}
+                  </button>
+                  <span className="font-medium">{load} units</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CourseRegistration;
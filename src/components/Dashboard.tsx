@@ -3,6 +3,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
+import { getGradeColor } from "@/lib/grading";
+import { fetchCurrentSemester, type CurrentSemester } from "@/lib/semesters";
 import { Users, BookOpen, TrendingUp, MessageSquare, Award, AlertCircle } from "lucide-react";
 
 interface DashboardStats {
@@ -23,6 +25,7 @@ const Dashboard = () => {
     recentResults: [],
     gradeDistribution: {}
   });
+  const [currentSemester, setCurrentSemester] = useState<CurrentSemester | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -31,21 +34,25 @@ const Dashboard = () => {
 
   const fetchDashboardStats = async () => {
     try {
+      // Grades and CGPA are for the current semester
+      const semester = await fetchCurrentSemester();
+
       // Get total students
       const { count: studentsCount } = await supabase
         .from('students')
-        .select('*', { count: 'exact', head: true });
+        .select('*', { count: 'exact', head: true })
+        .is('archived_at', null);
 
       // Get total courses
       const { count: coursesCount } = await supabase
         .from('courses')
         .select('*', { count: 'exact', head: true });
 
-      // Get SMS sent count
+      // Get delivered SMS count
       const { count: smsCount } = await supabase
-        .from('results')
+        .from('sms_messages')
         .select('*', { count: 'exact', head: true })
-        .eq('sms_sent', true);
+        .eq('status', 'delivered');
 
       // Get recent results with student and course info
       const { data: recentResults } = await supabase
@@ -62,7 +69,8 @@ const Dashboard = () => {
       // Get grade distribution
       const { data: gradeData } = await supabase
         .from('results')
-        .select('grade');
+        .select('grade')
+        .eq('semester_id', semester?.id);
 
       const gradeDistribution = gradeData?.reduce((acc: { [key: string]: number }, result) => {
         acc[result.grade] = (acc[result.grade] || 0) + 1;
@@ -72,12 +80,14 @@ const Dashboard = () => {
       // Calculate average CGPA
       const { data: cgpaData } = await supabase
         .from('cgpa_records')
-        .select('cumulative_gpa');
+        .select('cumulative_gpa')
+        .eq('semester_id', semester?.id);
 
       const averageCGPA = cgpaData && cgpaData.length > 0
         ? cgpaData.reduce((sum, record) => sum + parseFloat(record.cumulative_gpa.toString()), 0) / cgpaData.length
         : 0;
 
+      setCurrentSemester(semester);
       setStats({
         totalStudents: studentsCount || 0,
         totalCourses: coursesCount || 0,
@@ -93,17 +103,6 @@ const Dashboard = () => {
     }
   };
 
-  const getGradeColor = (grade: string) => {
-    switch (grade) {
-      case 'A': return 'bg-success text-success-foreground';
-      case 'B': return 'bg-primary text-primary-foreground';
-      case 'C': return 'bg-accent text-accent-foreground';
-      case 'D': return 'bg-warning text-warning-foreground';
-      case 'E': case 'F': return 'bg-destructive text-destructive-foreground';
-      default: return 'bg-muted text-muted-foreground';
-    }
-  };
-
   if (loading) {
     return (
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -154,7 +153,9 @@ const Dashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-success">{stats.averageCGPA}</div>
-            <p className="text-xs text-muted-foreground">Overall performance</p>
+            <p className="text-xs text-muted-foreground">
+              {currentSemester ? `After ${currentSemester.name} ${currentSemester.year}` : "No current semester"}
+            </p>
           </CardContent>
         </Card>
 
@@ -178,7 +179,9 @@ const Dashboard = () => {
               <Award className="h-5 w-5 text-primary" />
               <span>Grade Distribution</span>
             </CardTitle>
-            <CardDescription>Current semester grade breakdown</CardDescription>
+            <CardDescription>
+              {currentSemester ? `${currentSemester.name} ${currentSemester.year} grade breakdown` : "No current semester set"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Mail, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { invokeEdgeFunction } from "@/lib/functions";
+import { sendableEmail } from "@/lib/email";
+
+// SMTP settings are function secrets, so this only checks that they work
+const EmailSettings = () => {
+  const { user } = useAuth();
+  const [to, setTo] = useState(user?.email || "");
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  const sendTestEmail = async () => {
+    setSending(true);
+    try {
+      const { provider } = await invokeEdgeFunction<{ provider: string }>('email-test', { to });
+
+      toast({
+        title: "Test email sent",
+        description: provider === "console"
+          ? "EMAIL_PROVIDER is the console sink; the email was logged, not delivered"
+          : `Sent to ${to} over ${provider.toUpperCase()}`,
+      });
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send test email",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Mail className="h-5 w-5 text-primary" />
+          <span>Email Delivery</span>
+        </CardTitle>
+        <CardDescription>
+          Emails are sent over SMTP with the <code>EMAIL_PROVIDER</code> and <code>SMTP_*</code> function secrets and share the queue and rate above
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="md:w-1/3">
+            <Label htmlFor="test_email_to">Send a test email to</Label>
+            <Input
+              id="test_email_to"
+              type="email"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              placeholder="you@example.edu"
+            />
+          </div>
+          <Button onClick={sendTestEmail} disabled={sending || !sendableEmail(to)} variant="outline">
+            <Send className="h-4 w-4 mr-2" />
+            {sending ? "Sending..." : "Send Test Email"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Point <code>SMTP_HOST</code> at a local catch-all such as Mailpit to check the configuration without emailing anyone.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailSettings;
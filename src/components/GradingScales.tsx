@@ -0,0 +1,491 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Scale, Plus, Trash2, Save, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchGradingConfig, getGradeColor, type GradeBand, type GradingConfig } from "@/lib/grading";
+
+interface Course {
+  id: string;
+  course_code: string;
+  course_name: string;
+  grading_scale_id: string | null;
+}
+
+const DEFAULT_SCALE = "default";
+
+const GradingScales = () => {
+  const [config, setConfig] = useState<GradingConfig>({ scales: [], programScales: {} });
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [programs, setPrograms] = useState<string[]>([]);
+  const [selectedScaleId, setSelectedScaleId] = useState("");
+  const [bands, setBands] = useState<GradeBand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [newScale, setNewScale] = useState({ name: "", description: "", max_grade_point: "4" });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async (preferredScaleId: string = selectedScaleId) => {
+    try {
+      const [grading, coursesData, studentsData] = await Promise.all([
+        fetchGradingConfig(),
+        supabase.from('courses').select('id, course_code, course_name, grading_scale_id').order('course_code'),
+        supabase.from('students').select('program'),
+      ]);
+
+      if (coursesData.error) throw coursesData.error;
+      if (studentsData.error) throw studentsData.error;
+
+      setConfig(grading);
+      setCourses(coursesData.data || []);
+      setPrograms([...new Set((studentsData.data || []).map((s) => s.program))].sort());
+
+      const selected = grading.scales.find((s) => s.id === preferredScaleId)
+        || grading.scales.find((s) => s.is_default)
+        || grading.scales[0];
+      if (selected) selectScale(selected.id, grading);
+    } catch (error) {
+      console.error('Error fetching grading scales:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch grading scales",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectScale = (scaleId: string, source: GradingConfig = config) => {
+    const scale = source.scales.find((s) => s.id === scaleId);
+    setSelectedScaleId(scaleId);
+    setBands(
+      [...(scale?.grade_bands || [])]
+        .sort((a, b) => b.min_score - a.min_score)
+        .map(({ letter, min_score, grade_point, is_pass }) => ({ letter, min_score, grade_point, is_pass }))
+    );
+  };
+
+  const selectedScale = config.scales.find((s) => s.id === selectedScaleId);
+
+  const updateBand = (index: number, changes: Partial<GradeBand>) => {
+    setBands(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+  };
+
+  const validateBands = (): string | null => {
+    if (bands.length === 0) return "A scale needs at least one band";
+    if (!bands.some((b) => Number(b.min_score) === 0)) return "One band must start at 0 so every score gets a grade";
+    if (new Set(bands.map((b) => b.letter)).size !== bands.length) return "Grade letters must be unique";
+    if (new Set(bands.map((b) => Number(b.min_score))).size !== bands.length) return "Minimum scores must be unique";
+    if (bands.some((b) => Number(b.grade_point) > selectedScale.max_grade_point)) {
+      return `Grade points cannot exceed ${selectedScale.max_grade_point}`;
+    }
+    return null;
+  };
+
+  const handleSaveBands = async () => {
+    const validationError = validateBands();
+    if (validationError) {
+      toast({ title: "Error", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Replaced in one transaction, so a failed save keeps the old bands
+      const { error } = await supabase.rpc('replace_grade_bands', {
+        _grading_scale_id: selectedScaleId,
+        _bands: bands.map((band) => ({
+          letter: band.letter.trim().toUpperCase(),
+          min_score: Number(band.min_score),
+          grade_point: Number(band.grade_point),
+          is_pass: band.is_pass,
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${selectedScale.name} saved. Use "Re-grade Results" to apply it to existing results.`,
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error saving grade bands:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save grade bands",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddScale = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .insert([{
+          name: newScale.name,
+          description: newScale.description || null,
+          max_grade_point: parseFloat(newScale.max_grade_point),
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Grading scale created",
+      });
+
+      setIsAddDialogOpen(false);
+      setNewScale({ name: "", description: "", max_grade_point: "4" });
+      fetchData(data.id);
+    } catch (error) {
+      console.error('Error adding grading scale:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create grading scale",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMakeDefault = async () => {
+    try {
+      const { error } = await supabase.rpc('set_default_grading_scale', { _grading_scale_id: selectedScaleId });
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error setting default scale:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set default scale",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const assignProgramScale = async (program: string, scaleId: string) => {
+    try {
+      const { error } = scaleId === DEFAULT_SCALE
+        ? await supabase.from('program_grading_scales').delete().eq('program', program)
+        : await supabase.from('program_grading_scales').upsert({ program, grading_scale_id: scaleId });
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error assigning program scale:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign grading scale",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const assignCourseScale = async (courseId: string, scaleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('courses')
+        .update({ grading_scale_id: scaleId === DEFAULT_SCALE ? null : scaleId })
+        .eq('id', courseId);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error assigning course scale:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign grading scale",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRegrade = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('regrade_results');
+
+      if (error) throw error;
+
+      toast({
+        title: "Results Re-graded",
+        description: `${data} results re-graded with their current scales`,
+      });
+    } catch (error) {
+      console.error('Error re-grading results:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-grade results",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderScaleSelect = (value: string, onChange: (value: string) => void, fallbackLabel: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_SCALE}>{fallbackLabel}</SelectItem>
+        {config.scales.map((scale) => (
+          <SelectItem key={scale.id} value={scale.id}>{scale.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading) {
+    return <div className="h-48 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Scale Editor */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Scale className="h-5 w-5 text-primary" />
+                <span>Grading Scales</span>
+              </CardTitle>
+              <CardDescription>Score bands, letter grades and grade points used to grade results</CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={handleRegrade} disabled={saving}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Re-grade Results
+              </Button>
+              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Scale
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>New Grading Scale</DialogTitle>
+                    <DialogDescription>Create a scale, then add its grade bands</DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="scale_name">Name</Label>
+                      <Input
+                        id="scale_name"
+                        value={newScale.name}
+                        onChange={(e) => setNewScale({...newScale, name: e.target.value})}
+                        placeholder="Engineering 5-Point"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="scale_description">Description</Label>
+                      <Input
+                        id="scale_description"
+                        value={newScale.description}
+                        onChange={(e) => setNewScale({...newScale, description: e.target.value})}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="max_grade_point">Maximum Grade Point</Label>
+                      <Input
+                        id="max_grade_point"
+                        type="number"
+                        min="1"
+                        step="0.5"
+                        value={newScale.max_grade_point}
+                        onChange={(e) => setNewScale({...newScale, max_grade_point: e.target.value})}
+                      />
+                    </div>
+                    <Button onClick={handleAddScale} disabled={!newScale.name} className="w-full">
+                      Create Scale
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="flex-1">
+              <Label>Scale</Label>
+              <Select value={selectedScaleId} onValueChange={(value) => selectScale(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a scale" />
+                </SelectTrigger>
+                <SelectContent>
+                  {config.scales.map((scale) => (
+                    <SelectItem key={scale.id} value={scale.id}>
+                      {scale.name} (max {scale.max_grade_point})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedScale && (selectedScale.is_default ? (
+              <Badge variant="secondary">Default</Badge>
+            ) : (
+              <Button variant="outline" onClick={handleMakeDefault}>Make Default</Button>
+            ))}
+          </div>
+
+          {selectedScale && (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Grade</TableHead>
+                      <TableHead>Minimum Score</TableHead>
+                      <TableHead>Grade Point</TableHead>
+                      <TableHead>Pass</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bands.map((band, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Input
+                              className="w-20"
+                              maxLength={2}
+                              value={band.letter}
+                              onChange={(e) => updateBand(index, { letter: e.target.value })}
+                            />
+                            <Badge className={getGradeColor(band.letter)}>{band.letter || "?"}</Badge>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={band.min_score}
+                            onChange={(e) => updateBand(index, { min_score: parseFloat(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            min="0"
+                            max={selectedScale.max_grade_point}
+                            step="0.1"
+                            value={band.grade_point}
+                            onChange={(e) => updateBand(index, { grade_point: parseFloat(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={band.is_pass}
+                            onCheckedChange={(checked) => updateBand(index, { is_pass: checked })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setBands(bands.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setBands([...bands, { letter: "", min_score: 0, grade_point: 0, is_pass: true }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Band
+                </Button>
+                <Button onClick={handleSaveBands} disabled={saving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Bands
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Assignments */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Program Scales</CardTitle>
+            <CardDescription>Scale used for a program's students unless the course sets one</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {programs.length > 0 ? (
+              programs.map((program) => (
+                <div key={program} className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{program}</span>
+                  {renderScaleSelect(config.programScales[program] || DEFAULT_SCALE, (value) => assignProgramScale(program, value), "Default scale")}
+                </div>
+              ))
+            ) : (
+              <p className="text-center text-muted-foreground py-6">No programs found</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Course Scales</CardTitle>
+            <CardDescription>A course scale overrides the program scale</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {courses.length > 0 ? (
+              courses.map((course) => (
+                <div key={course.id} className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">{course.course_code}</p>
+                    <p className="text-xs text-muted-foreground">{course.course_name}</p>
+                  </div>
+                  {renderScaleSelect(course.grading_scale_id || DEFAULT_SCALE, (value) => assignCourseScale(course.id, value), "Program scale")}
+                </div>
+              ))
+            ) : (
+              <p className="text-center text-muted-foreground py-6">No courses found</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default GradingScales;
@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessagesSquare, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeEdgeFunction } from "@/lib/functions";
+
+interface SimulatedExchange {
+  from: string;
+  text: string;
+  reply: string | null;
+  note: string | null;
+}
+
+interface SimulationResponse {
+  keyword: string | null;
+  reply: string | null;
+  student: { student_id: string; first_name: string; last_name: string; sms_consent: boolean } | null;
+}
+
+const EXAMPLE_COMMANDS = ["RESULT CS101", "GPA", "CGPA FALL2024", "HELP"];
+
+// Type a text as if it came from a student's phone and see what sms-inbound
+// would reply. Nothing is logged or sent, and STOP / START change nothing.
+const InboundSMSSimulator = () => {
+  const [students, setStudents] = useState<{ id: string; student_id: string; first_name: string; last_name: string; phone_number: string }[]>([]);
+  const [from, setFrom] = useState("");
+  const [text, setText] = useState("");
+  const [exchanges, setExchanges] = useState<SimulatedExchange[]>([]);
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStudents();
+  }, []);
+
+  const fetchStudents = async () => {
+    const { data } = await supabase
+      .from('students')
+      .select('id, student_id, first_name, last_name, phone_number')
+      .order('student_id');
+    setStudents(data || []);
+  };
+
+  const simulate = async () => {
+    setSending(true);
+    try {
+      const data = await invokeEdgeFunction<SimulationResponse>('sms-simulate', { from, text });
+
+      let note: string | null = null;
+      if (!data.student) {
+        note = "Unknown number: the text is ignored";
+      } else if (!data.reply) {
+        note = `${data.student.first_name} ${data.student.last_name} has opted out: no reply is sent`;
+      }
+
+      setExchanges([...exchanges, { from, text, reply: data.reply, note }]);
+      setText("");
+    } catch (error) {
+      console.error('Error simulating inbound SMS:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to simulate inbound SMS",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MessagesSquare className="h-5 w-5 text-primary" />
+          <span>Inbound SMS Simulator</span>
+        </CardTitle>
+        <CardDescription>
+          Try the text commands students can send; replies use the reply templates above
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Student</Label>
+            <Select
+              value={students.find((student) => student.phone_number === from)?.id || ""}
+              onValueChange={(id) => setFrom(students.find((student) => student.id === id)?.phone_number || "")}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pick a student to use their number" />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map((student) => (
+                  <SelectItem key={student.id} value={student.id}>
+                    {student.student_id} - {student.first_name} {student.last_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="simulator_from">From number</Label>
+            <Input
+              id="simulator_from"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              placeholder="+1234567890"
+            />
+          </div>
+        </div>
+
+        <div className="rounded-lg bg-muted/50 p-4 space-y-3 min-h-32 max-h-96 overflow-y-auto">
+          {exchanges.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">
+              Try {EXAMPLE_COMMANDS.join(", ")}
+            </p>
+          )}
+          {exchanges.map((exchange, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex justify-end">
+                <div className="max-w-[75%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm">
+                  <p className="text-xs opacity-75">{exchange.from}</p>
+                  <p className="whitespace-pre-wrap">{exchange.text}</p>
+                </div>
+              </div>
+              {exchange.reply && (
+                <div className="flex justify-start">
+                  <div className="max-w-[75%] rounded-lg bg-background border px-3 py-2 text-sm whitespace-pre-wrap">
+                    {exchange.reply}
+                  </div>
+                </div>
+              )}
+              {exchange.note && (
+                <p className="text-xs text-muted-foreground text-center">{exchange.note}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            simulate();
+          }}
+        >
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="e.g., RESULT CS101"
+          />
+          <Button type="submit" disabled={sending || !from.trim() || !text.trim()}>
+            <Send className="h-4 w-4 mr-2" />
+            {sending ? "Sending..." : "Send"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InboundSMSSimulator;
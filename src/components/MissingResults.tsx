@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileWarning } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface MissingResult {
+  registration_id: string;
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  program: string;
+  course_code: string;
+  course_name: string;
+}
+
+interface MissingResultsProps {
+  semesterId: string;
+  // Narrows the report to one course when set
+  courseId: string;
+  // Bumped by the parent after it records a result
+  refreshKey: number;
+}
+
+// Registered courses in a semester that still have no result
+const MissingResults = ({ semesterId, courseId, refreshKey }: MissingResultsProps) => {
+  const [missing, setMissing] = useState<MissingResult[]>([]);
+
+  useEffect(() => {
+    if (semesterId) fetchMissing();
+    else setMissing([]);
+  }, [semesterId, courseId, refreshKey]);
+
+  const fetchMissing = async () => {
+    const { data, error } = await supabase.rpc('missing_results', {
+      _semester_id: semesterId,
+      _course_id: courseId || undefined,
+    });
+
+    if (error) {
+      console.error('Error fetching missing results:', error);
+      return;
+    }
+    setMissing(data || []);
+  };
+
+  if (missing.length === 0) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileWarning className="h-5 w-5 text-warning" />
+          <span>Missing Results</span>
+        </CardTitle>
+        <CardDescription>
+          {missing.length} registered course(s) {courseId ? "for this course " : ""}with no result this semester
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Program</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {missing.map((row) => (
+                <TableRow key={row.registration_id}>
+                  <TableCell>
+                    <p className="font-medium">{row.course_code}</p>
+                    <p className="text-sm text-muted-foreground">{row.course_name}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{row.first_name} {row.last_name}</p>
+                    <p className="text-sm text-muted-foreground">{row.student_id}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">{row.program}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MissingResults;
@@ -0,0 +1,1211 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { MessageSquare, Mail, Send, Clock, CheckCircle, AlertTriangle, Settings, BellOff, Ban, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { invokeEdgeFunction } from "@/lib/functions";
+import { countryOfNumber, fetchDefaultCountry, normalisePhone, DEFAULT_COUNTRY } from "@/lib/phone";
+import { budgetWarning, describeEstimate, estimateCost, fetchSmsPricing, type SmsPricing } from "@/lib/sms-pricing";
+import { sendableEmail } from "@/lib/email";
+import {
+  composeSemesterSummary,
+  courseTableHtml,
+  formatGpa,
+  htmlToText,
+  renderHtmlTemplate,
+  renderTemplate,
+  resultTemplateValues,
+  segmentInfo,
+  templateInLanguage,
+  type CourseTableRow,
+  type SMSTemplate,
+  type TemplateChannel,
+  type TemplateValues,
+} from "@/lib/sms-template";
+import SMSQueueProgress from "./SMSQueueProgress";
+import SMSTemplateEditor from "./SMSTemplateEditor";
+import UndeliveredSMS from "./UndeliveredSMS";
+import InboundSMSSimulator from "./InboundSMSSimulator";
+import USSDEmulator from "./USSDEmulator";
+import CampaignBuilder from "./CampaignBuilder";
+import ScheduledSends from "./ScheduledSends";
+import ResultOutbox from "./ResultOutbox";
+import SMSSpend from "./SMSSpend";
+
+type SMSStatus = Database["public"]["Enums"]["sms_status"];
+
+interface StudentContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone_number: string | null;
+  email: string | null;
+  notify_sms: boolean;
+  notify_email: boolean;
+  preferred_language: string;
+}
+
+interface PendingResult {
+  id: string;
+  student_id: string;
+  semester_id: string;
+  score: number;
+  grade: string;
+  students: {
+    first_name: string;
+    last_name: string;
+    student_id: string;
+    phone_number: string;
+    email: string;
+    sms_consent: boolean;
+    email_consent: boolean;
+    preferred_language: string;
+    student_contacts: StudentContact[];
+  };
+  courses: {
+    course_code: string;
+    course_name: string;
+  };
+  semesters: {
+    name: string;
+    year: number;
+  };
+}
+
+interface SMSLog {
+  id: string;
+  channel: TemplateChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: SMSStatus;
+  error: string | null;
+  created_at: string;
+  students: {
+    first_name: string;
+    last_name: string;
+    student_id: string;
+  } | null;
+  student_contacts: {
+    name: string;
+    relationship: string;
+  } | null;
+}
+
+interface SMSLogFilters {
+  status: SMSStatus | "all";
+  channel: TemplateChannel | "all";
+  student_id: string;
+  from: string;
+  to: string;
+}
+
+interface SemesterSummaryGroup {
+  key: string;
+  student_id: string;
+  semester_id: string;
+  students: PendingResult["students"];
+  semesters: PendingResult["semesters"];
+  results: PendingResult[];
+  parts: string[];
+}
+
+// One row per message to insert into sms_messages. result_ids lists every
+// result a summary covers; it is stored in sms_message_results.
+interface OutgoingMessage {
+  student_id: string;
+  contact_id?: string;
+  result_id: string | null;
+  channel: TemplateChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  template_id: string | null;
+  idempotency_key: string;
+  result_ids?: string[];
+}
+
+// Someone a result goes to, on one channel
+interface Recipient {
+  channel: TemplateChannel;
+  // null for the student themselves
+  contact: StudentContact | null;
+  address: string;
+  // Picks the template variant
+  language: string;
+}
+
+type SendMode = "result" | "summary";
+type Audience = "students" | "guardians" | "both";
+type ChannelChoice = TemplateChannel | "both";
+
+const CHANNELS: Record<ChannelChoice, TemplateChannel[]> = {
+  sms: ["sms"],
+  email: ["email"],
+  both: ["sms", "email"],
+};
+
+const ALL = "all";
+
+const slotKey = (purpose: string, channel: string) => `${purpose}:${channel}`;
+// Rows per insert request when queueing a bulk send
+const QUEUE_CHUNK_SIZE = 500;
+
+const Notifications = () => {
+  const [pendingResults, setPendingResults] = useState<PendingResult[]>([]);
+  const [smsLogs, setSmsLogs] = useState<SMSLog[]>([]);
+  const [logFilters, setLogFilters] = useState<SMSLogFilters>({ status: ALL, channel: ALL, student_id: ALL, from: "", to: "" });
+  const [students, setStudents] = useState<{ id: string; student_id: string; first_name: string; last_name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [queuedResultIds, setQueuedResultIds] = useState<Set<string>>(new Set());
+  const [activeBatch, setActiveBatch] = useState<{ id: string; label: string } | null>(null);
+  const [templates, setTemplates] = useState<SMSTemplate[]>([]);
+  // Chosen template per purpose and channel, keyed "<purpose>:<channel>"
+  const [templateIds, setTemplateIds] = useState<Record<string, string>>({});
+  const [audience, setAudience] = useState<Audience>("students");
+  const [channel, setChannel] = useState<ChannelChoice>("sms");
+  const [defaultCountry, setDefaultCountry] = useState(DEFAULT_COUNTRY);
+  const [gpaRecords, setGpaRecords] = useState<Record<string, { semester_gpa: number; cumulative_gpa: number }>>({});
+  const [courseTables, setCourseTables] = useState<Record<string, CourseTableRow[]>>({});
+  const [sendMode, setSendMode] = useState<SendMode>("result");
+  // datetime-local value; empty sends right away
+  const [sendAt, setSendAt] = useState("");
+  const [scheduleVersion, setScheduleVersion] = useState(0);
+  const [pricing, setPricing] = useState<SmsPricing>({ currency: "NGN", provider: null, prices: [], remainingBudget: null });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPendingResults();
+    fetchStudents();
+    fetchTemplates();
+    restoreActiveBatch();
+    fetchDefaultCountry().then(setDefaultCountry);
+    fetchSmsPricing().then(setPricing);
+  }, []);
+
+  useEffect(() => {
+    fetchSMSLogs();
+  }, [logFilters]);
+
+  const fetchStudents = async () => {
+    const { data } = await supabase
+      .from('students')
+      .select('id, student_id, first_name, last_name')
+      .is('archived_at', null)
+      .order('student_id');
+    setStudents(data || []);
+  };
+
+  // Only released results of current students: one still waiting for
+  // approval, or rejected, is decided in the Result Outbox below first
+  const fetchPendingResults = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('results')
+        .select(`
+          *,
+          students!inner (
+            first_name, last_name, student_id, phone_number, email, sms_consent, email_consent, preferred_language,
+            student_contacts (id, name, relationship, phone_number, email, notify_sms, notify_email, preferred_language)
+          ),
+          courses (course_code, course_name),
+          semesters (name, year)
+        `)
+        .eq('sms_sent', false)
+        .not('released_at', 'is', null)
+        .is('students.archived_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPendingResults(data || []);
+      fetchCgpa(data || []);
+      fetchCourseTables(data || []);
+
+      const [{ data: queued }, { data: queuedSummaries }] = await Promise.all([
+        supabase
+          .from('sms_messages')
+          .select('result_id')
+          .eq('status', 'queued')
+          .not('result_id', 'is', null),
+        supabase
+          .from('sms_message_results')
+          .select('result_id, sms_messages!inner (status)')
+          .eq('sms_messages.status', 'queued'),
+      ]);
+      setQueuedResultIds(new Set([...(queued || []), ...(queuedSummaries || [])].map((message) => message.result_id)));
+    } catch (error) {
+      console.error('Error fetching pending results:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch pending results",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSMSLogs = async () => {
+    try {
+      let query = supabase
+        .from('sms_messages')
+        .select(`
+          id, channel, recipient, subject, body, status, error, created_at,
+          students (first_name, last_name, student_id),
+          student_contacts (name, relationship)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (logFilters.status !== ALL) query = query.eq('status', logFilters.status);
+      if (logFilters.channel !== ALL) query = query.eq('channel', logFilters.channel);
+      if (logFilters.student_id !== ALL) query = query.eq('student_id', logFilters.student_id);
+      if (logFilters.from) query = query.gte('created_at', new Date(logFilters.from).toISOString());
+      if (logFilters.to) {
+        // Inclusive of the whole "to" day
+        const to = new Date(logFilters.to);
+        to.setDate(to.getDate() + 1);
+        query = query.lt('created_at', to.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setSmsLogs(data || []);
+    } catch (error) {
+      console.error('Error fetching SMS logs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch notification history",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sms_templates')
+        .select('id, name, body, subject, purpose, channel, is_default, sms_template_variants (language, subject, body)')
+        .order('name');
+
+      if (error) throw error;
+      setTemplates(data || []);
+
+      // Keep each current choice if it still exists, otherwise use the default
+      const slots = [...new Set((data || []).map((t) => slotKey(t.purpose, t.channel)))];
+      setTemplateIds((current) => Object.fromEntries(slots.map((slot) => {
+        const candidates = (data || []).filter((t) => slotKey(t.purpose, t.channel) === slot);
+        return [
+          slot,
+          candidates.some((t) => t.id === current[slot])
+            ? current[slot]
+            : (candidates.find((t) => t.is_default) || candidates[0]).id,
+        ];
+      })));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch message templates",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // GPA and CGPA as of each result's semester, keyed by student and semester
+  const fetchCgpa = async (results: PendingResult[]) => {
+    const studentIds = [...new Set(results.map((result) => result.student_id))];
+    if (studentIds.length === 0) return;
+
+    const { data } = await supabase
+      .from('cgpa_records')
+      .select('student_id, semester_id, semester_gpa, cumulative_gpa')
+      .in('student_id', studentIds);
+
+    setGpaRecords(Object.fromEntries(
+      (data || []).map((record) => [`${record.student_id}:${record.semester_id}`, record])
+    ));
+  };
+
+  // Every result each student has in the semesters being notified, for the
+  // course table in emails; published earlier or not
+  const fetchCourseTables = async (results: PendingResult[]) => {
+    const studentIds = [...new Set(results.map((result) => result.student_id))];
+    if (studentIds.length === 0) return;
+
+    const { data } = await supabase
+      .from('results')
+      .select('student_id, semester_id, score, grade, courses (course_code, course_name, credit_units)')
+      .in('student_id', studentIds)
+      .not('released_at', 'is', null);
+
+    setCourseTables((data || []).reduce((tables: Record<string, CourseTableRow[]>, row) => {
+      const key = `${row.student_id}:${row.semester_id}`;
+      tables[key] = [...(tables[key] || []), { ...row.courses, score: row.score, grade: row.grade }];
+      return tables;
+    }, {}));
+  };
+
+  const courseTableFor = (studentId: string, semesterId: string) =>
+    courseTableHtml(courseTables[`${studentId}:${semesterId}`] || []);
+
+  const templateValuesFor = (result: PendingResult): TemplateValues => ({
+    ...resultTemplateValues(result, gpaRecords[`${result.student_id}:${result.semester_id}`]),
+    course_table: courseTableFor(result.student_id, result.semester_id),
+  });
+
+  const guardianValuesFor = (result: PendingResult, contact: StudentContact) => ({
+    ...templateValuesFor(result),
+    contact_name: contact.name,
+    relationship: contact.relationship,
+  });
+
+  // Template previews show guardian placeholders filled in from the first contact
+  const previewValuesFor = (result: PendingResult) => {
+    const contact = result.students.student_contacts[0];
+    return contact ? guardianValuesFor(result, contact) : templateValuesFor(result);
+  };
+
+  // Pick up a bulk send that is still in flight, e.g. after a page reload
+  const restoreActiveBatch = async () => {
+    const { data } = await supabase
+      .from('sms_messages')
+      .select('sms_batches (id, label, created_at)')
+      .eq('status', 'queued')
+      .not('batch_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data?.sms_batches) {
+      setActiveBatch({ id: data.sms_batches.id, label: data.sms_batches.label });
+    }
+  };
+
+  const templateFor = (purpose: string, templateChannel: TemplateChannel) =>
+    templates.find((t) => t.id === templateIds[slotKey(purpose, templateChannel)]);
+
+  // E.164 form of a stored number, or null when it cannot be sent to
+  const sendableNumber = (phoneNumber: string | null) => {
+    const phone = normalisePhone(phoneNumber || "", defaultCountry);
+    return phone.valid ? phone.e164 : null;
+  };
+
+  // Where a student or contact gets messages on a channel, or null when they
+  // have turned that channel off or have nothing usable to send to
+  const studentAddress = (student: PendingResult["students"], to: TemplateChannel) =>
+    to === "email"
+      ? (student.email_consent ? sendableEmail(student.email) : null)
+      : (student.sms_consent ? sendableNumber(student.phone_number) : null);
+
+  const contactAddress = (contact: StudentContact, to: TemplateChannel) =>
+    to === "email"
+      ? (contact.notify_email ? sendableEmail(contact.email) : null)
+      : (contact.notify_sms ? sendableNumber(contact.phone_number) : null);
+
+  // Who gets a student's results for the chosen audience and channels
+  const recipientsFor = (student: PendingResult["students"]): Recipient[] =>
+    CHANNELS[channel].flatMap((to) => [
+      ...(audience !== "guardians" && studentAddress(student, to)
+        ? [{ channel: to, contact: null, address: studentAddress(student, to), language: student.preferred_language }]
+        : []),
+      ...(audience === "students" ? [] : student.student_contacts)
+        .filter((contact) => contactAddress(contact, to))
+        .map((contact) => ({ channel: to, contact, address: contactAddress(contact, to), language: contact.preferred_language })),
+    ]);
+
+  const hasRecipients = (student: PendingResult["students"]) => recipientsFor(student).length > 0;
+
+  const noRecipientLabel = (student: PendingResult["students"]) => {
+    if (audience === "guardians") return "No guardian";
+    if (channel === "email") return student.email_consent ? "No valid email" : "Opted out";
+    if (student.sms_consent && !sendableNumber(student.phone_number)) return "Invalid number";
+    return "Opted out";
+  };
+
+  // Results without a recipient stay in the pending list, marked, but are never sent
+  const isSendable = (result: PendingResult) => hasRecipients(result.students) && !queuedResultIds.has(result.id);
+  const sendableResults = pendingResults.filter(isSendable);
+  const unsendableCount = pendingResults.filter((result) => !hasRecipients(result.students)).length;
+
+  // Templates the current choices need. SMS summaries are composed to fit
+  // whole segments rather than rendered from a template.
+  const studentPurpose = sendMode === "summary" ? "semester_summary" : "result_notification";
+  const guardianPurpose = sendMode === "summary" ? "guardian_semester_summary" : "guardian_notification";
+  const templateSlots = CHANNELS[channel]
+    .filter((to) => sendMode === "result" || to === "email")
+    .flatMap((to) => [
+      ...(audience !== "guardians" ? [{ channel: to, purpose: studentPurpose }] : []),
+      ...(audience !== "students" ? [{ channel: to, purpose: guardianPurpose }] : []),
+    ]);
+  const templatesReady = templateSlots.every((slot) => templateFor(slot.purpose, slot.channel));
+
+  const renderMessage = (template: SMSTemplate | undefined, values: TemplateValues, language: string) => {
+    const text = template && templateInLanguage(template, language);
+    return text?.channel === "email"
+      ? { body: renderHtmlTemplate(text.body, values), subject: renderTemplate(text.subject || "", values), template_id: text.id }
+      : { body: text ? renderTemplate(text.body, values) : "", subject: null, template_id: text?.id ?? null };
+  };
+
+  // Suffixes keep each recipient and channel's copy of a result apart
+  const recipientSuffix = (recipient: Recipient) =>
+    `${recipient.contact ? `:contact:${recipient.contact.id}` : ""}${recipient.channel === "email" ? ":email" : ""}`;
+
+  const resultMessages = (result: PendingResult): OutgoingMessage[] =>
+    recipientsFor(result.students).map((recipient) => ({
+      student_id: result.student_id,
+      contact_id: recipient.contact?.id,
+      result_id: result.id,
+      channel: recipient.channel,
+      recipient: recipient.address,
+      ...renderMessage(
+        templateFor(recipient.contact ? "guardian_notification" : "result_notification", recipient.channel),
+        recipient.contact ? guardianValuesFor(result, recipient.contact) : templateValuesFor(result),
+        recipient.language
+      ),
+      idempotency_key: `result:${result.id}${recipientSuffix(recipient)}`,
+    }));
+
+  // What the pending list shows: the first message that would go out, or
+  // the student's own when nobody can be reached
+  const previewMessage = (result: PendingResult) =>
+    resultMessages(result)[0]
+    ?? renderMessage(templateFor("result_notification", CHANNELS[channel][0]), templateValuesFor(result), result.students.preferred_language);
+
+  const previewText = (message: { subject: string | null; body: string }) =>
+    message.subject ?? message.body;
+
+  // Unsent, unqueued results grouped into one summary per student and semester
+  const summaries = Object.values(
+    pendingResults
+      .filter((result) => !queuedResultIds.has(result.id))
+      .reduce((groups: Record<string, SemesterSummaryGroup>, result) => {
+        const key = `${result.student_id}:${result.semester_id}`;
+        groups[key] = groups[key] || {
+          key,
+          student_id: result.student_id,
+          semester_id: result.semester_id,
+          students: result.students,
+          semesters: result.semesters,
+          results: [],
+          parts: [],
+        };
+        groups[key].results.push(result);
+        return groups;
+      }, {})
+  ).map((group) => ({
+    ...group,
+    parts: composeSemesterSummary({
+      first_name: group.students.first_name,
+      semester: `${group.semesters.name} ${group.semesters.year}`,
+      courses: [...group.results]
+        .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code))
+        .map((result) => ({ course_code: result.courses.course_code, grade: result.grade })),
+      gpa: gpaRecords[group.key]?.semester_gpa,
+      cgpa: gpaRecords[group.key]?.cumulative_gpa,
+    }),
+  }));
+
+  // Summaries are keyed by the exact set of results they cover, so a later
+  // result in the same semester produces a new summary rather than a duplicate
+  const summaryKey = async (group: SemesterSummaryGroup, part: number) => {
+    const ids = group.results.map((result) => result.id).sort().join(",");
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(ids));
+    const hash = Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+    return `summary:${group.key}:${hash}:${part}`;
+  };
+
+  const guardianSummaryParts = (group: SemesterSummaryGroup, contact: StudentContact) =>
+    composeSemesterSummary({
+      first_name: group.students.first_name,
+      guardian_name: contact.name,
+      semester: `${group.semesters.name} ${group.semesters.year}`,
+      courses: [...group.results]
+        .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code))
+        .map((result) => ({ course_code: result.courses.course_code, grade: result.grade })),
+      gpa: gpaRecords[group.key]?.semester_gpa,
+      cgpa: gpaRecords[group.key]?.cumulative_gpa,
+    });
+
+  const summaryValuesFor = (group: SemesterSummaryGroup, contact: StudentContact | null): TemplateValues => ({
+    first_name: group.students.first_name,
+    last_name: group.students.last_name,
+    student_id: group.students.student_id,
+    semester: `${group.semesters.name} ${group.semesters.year}`,
+    gpa: formatGpa(gpaRecords[group.key]?.semester_gpa),
+    cgpa: formatGpa(gpaRecords[group.key]?.cumulative_gpa),
+    course_table: courseTableFor(group.student_id, group.semester_id),
+    contact_name: contact?.name,
+    relationship: contact?.relationship,
+  });
+
+  // An email summary is one message with the course table; an SMS summary
+  // may be split into several parts
+  const summaryMessages = async (groups: SemesterSummaryGroup[]): Promise<OutgoingMessage[]> =>
+    (await Promise.all(groups.map((group) => {
+      const result_ids = group.results.map((result) => result.id);
+
+      return Promise.all(recipientsFor(group.students).map(async (recipient) => {
+        const message = {
+          student_id: group.student_id,
+          contact_id: recipient.contact?.id,
+          result_id: null,
+          channel: recipient.channel,
+          recipient: recipient.address,
+          result_ids,
+        };
+
+        if (recipient.channel === "email") {
+          return [{
+            ...message,
+            ...renderMessage(
+              templateFor(recipient.contact ? "guardian_semester_summary" : "semester_summary", "email"),
+              summaryValuesFor(group, recipient.contact),
+              recipient.language
+            ),
+            idempotency_key: `${await summaryKey(group, 1)}${recipientSuffix(recipient)}`,
+          }];
+        }
+
+        const parts = recipient.contact ? guardianSummaryParts(group, recipient.contact) : group.parts;
+        return Promise.all(parts.map(async (body, index) => ({
+          ...message,
+          body,
+          subject: null,
+          template_id: null,
+          idempotency_key: `${await summaryKey(group, index + 1)}${recipientSuffix(recipient)}`,
+        })));
+      }));
+    }))).flat(2);
+
+  // The summary list previews the email subject when only email is sent
+  const summaryPreview = (group: SemesterSummaryGroup) =>
+    channel === "email"
+      ? [renderMessage(templateFor("semester_summary", "email"), summaryValuesFor(group, null), group.students.preferred_language).subject || ""]
+      : group.parts;
+
+  const sendSingleResult = async (result: PendingResult) => {
+    setSending(true);
+    try {
+      // The send-sms edge function holds the provider credentials for both
+      // channels, logs the message and marks the result as sent once the
+      // provider accepts it
+      const messages = resultMessages(result);
+      const held: string[] = [];
+      for (const message of messages) {
+        const { status, send_at } = await invokeEdgeFunction<{ status: string; send_at?: string }>('send-sms', {
+          result_id: result.id,
+          channel: message.channel,
+          subject: message.subject,
+          body: message.body,
+          template_id: message.template_id,
+          contact_id: message.contact_id,
+        });
+        if (status === "held" && send_at) held.push(send_at);
+      }
+
+      toast({
+        title: held.length > 0 ? "Held for Quiet Hours" : "Notification Sent",
+        description: held.length > 0
+          ? `Result notification for ${result.students.first_name} ${result.students.last_name} will be sent at ${new Date(held[0]).toLocaleString()}`
+          : `Result notification for ${result.students.first_name} ${result.students.last_name} sent to ${messages.length} recipient(s)`,
+      });
+
+      fetchPendingResults();
+      fetchSMSLogs();
+    } catch (error: any) {
+      console.error('Error sending notification:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send notification",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Queue messages as one batch; the sms-worker function sends them, at
+  // sendAt when one is set
+  const queueMessages = async (label: string, messages: OutgoingMessage[]) => {
+    setSending(true);
+    try {
+      const scheduledFor = sendAt ? new Date(sendAt).toISOString() : null;
+      const { data: batch, error: batchError } = await supabase
+        .from('sms_batches')
+        .insert([{ label, scheduled_for: scheduledFor }])
+        .select('id')
+        .single();
+
+      if (batchError) throw batchError;
+
+      // The idempotency key makes re-queueing an already queued or sent
+      // message a no-op, so double clicks never produce duplicate messages.
+      // Failed and cancelled messages with the same key are queued again.
+      let queuedCount = 0;
+      for (let i = 0; i < messages.length; i += QUEUE_CHUNK_SIZE) {
+        const rows = messages.slice(i, i + QUEUE_CHUNK_SIZE).map((message) => ({
+          ...message,
+          ...(scheduledFor ? { next_attempt_at: scheduledFor } : {}),
+        }));
+
+        const { data, error } = await supabase.rpc('enqueue_sms_messages', {
+          _batch_id: batch.id,
+          _messages: rows,
+        });
+
+        if (error) throw error;
+        queuedCount += (data || []).filter((row) => row.status === 'queued').length;
+      }
+
+      setActiveBatch({ id: batch.id, label });
+
+      // The worker drains the queue at the configured rate; no need to wait
+      invokeEdgeFunction('sms-worker').catch((error) => {
+        console.error('Error starting SMS worker:', error);
+      });
+
+      const skipped = messages.length - queuedCount;
+      toast({
+        title: scheduledFor ? "Notifications Scheduled" : "Notifications Queued",
+        description: `${queuedCount} messages ${scheduledFor ? `scheduled for ${new Date(scheduledFor).toLocaleString()}` : "queued"}${skipped > 0 ? `, ${skipped} skipped (already queued or sent, opted out or invalid)` : ""}`,
+      });
+
+      setSendAt("");
+      setScheduleVersion((version) => version + 1);
+
+      fetchPendingResults();
+      fetchSMSLogs();
+    } catch (error) {
+      console.error('Error queueing notifications:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to queue notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Results already covered by a queued summary are left to it
+  const sendBulk = () =>
+    queueMessages(`Result notifications (${sendableResults.length})`, sendableResults.flatMap(resultMessages));
+
+  const sendableSummaries = summaries.filter((group) => hasRecipients(group.students));
+
+  // What Send All would cost in texts; emails are free
+  const bulkTexts = sendMode === "summary"
+    ? sendableSummaries.flatMap((group) => recipientsFor(group.students)
+      .filter((recipient) => recipient.channel === "sms")
+      .flatMap((recipient) => (recipient.contact ? guardianSummaryParts(group, recipient.contact) : group.parts)
+        .map((body) => ({ recipient: recipient.address, body }))))
+    : sendableResults.flatMap(resultMessages).filter((message) => message.channel === "sms");
+  const bulkEstimate = estimateCost(
+    bulkTexts.map((text) => ({ country: countryOfNumber(text.recipient), segments: segmentInfo(text.body).segments })),
+    pricing.prices,
+    pricing.provider
+  );
+  const bulkBudgetWarning = budgetWarning(bulkEstimate, pricing.remainingBudget, pricing.currency);
+
+  const sendSummaries = async (groups: SemesterSummaryGroup[]) =>
+    queueMessages(
+      groups.length === 1
+        ? `Semester summary for ${groups[0].students.first_name} ${groups[0].students.last_name}`
+        : `Semester summaries (${groups.length})`,
+      await summaryMessages(groups)
+    );
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'delivered': return 'text-success';
+      case 'sent': return 'text-primary';
+      case 'failed': return 'text-destructive';
+      case 'queued': return 'text-warning';
+      default: return 'text-muted-foreground';
+    }
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'delivered': case 'sent': return <CheckCircle className="h-4 w-4" />;
+      case 'failed': return <AlertTriangle className="h-4 w-4" />;
+      case 'queued': return <Clock className="h-4 w-4" />;
+      case 'cancelled': return <Ban className="h-4 w-4" />;
+      default: return <Clock className="h-4 w-4" />;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Channel Configuration Alert */}
+      <Alert>
+        <Settings className="h-4 w-4" />
+        <AlertDescription>
+          Notifications are sent by the <code>send-sms</code> edge function; bulk sends are queued and drained by the <code>sms-worker</code> function at the rate set under Settings. Choose the gateway (Twilio, Africa's Talking, Termii, a generic HTTP gateway or the console sink) with the <code>SMS_PROVIDER</code> secret and set that provider's credentials as function secrets. Point the provider's delivery reports at the <code>sms-receipts</code> function to track delivery, and incoming messages at the <code>sms-inbound</code> function so students can text STOP, START, RESULT, GPA, CGPA or HELP. Students without data can dial the USSD service code served by the <code>ussd</code> function. Emails go out over SMTP when <code>EMAIL_PROVIDER</code> is <code>smtp</code>; see Settings to send a test email.
+        </AlertDescription>
+      </Alert>
+
+      {activeBatch && (
+        <SMSQueueProgress
+          batchId={activeBatch.id}
+          label={activeBatch.label}
+          onSettled={() => {
+            fetchPendingResults();
+            fetchSMSLogs();
+          }}
+        />
+      )}
+
+      <ResultOutbox
+        refreshKey={scheduleVersion}
+        onDecided={() => {
+          fetchPendingResults();
+          fetchSMSLogs();
+        }}
+      />
+
+      <ScheduledSends
+        refreshKey={scheduleVersion}
+        onCancelled={() => {
+          fetchPendingResults();
+          fetchSMSLogs();
+        }}
+      />
+
+      {/* Pending Notifications */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <MessageSquare className="h-5 w-5 text-primary" />
+                <span>Pending Notifications</span>
+              </CardTitle>
+              <CardDescription>
+                Results awaiting notification ({pendingResults.length} pending{unsendableCount > 0 ? `, ${unsendableCount} without a recipient` : ""})
+              </CardDescription>
+              {bulkEstimate.segments > 0 && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Estimated cost of Send All: {describeEstimate(bulkEstimate, pricing.currency)}
+                </p>
+              )}
+              {bulkBudgetWarning && (
+                <p className="text-sm text-destructive mt-1">{bulkBudgetWarning}</p>
+              )}
+            </div>
+            {pendingResults.length > 0 && (
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <Select value={channel} onValueChange={(value) => setChannel(value as ChannelChoice)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="email">Email</SelectItem>
+                    <SelectItem value="both">SMS & email</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={audience} onValueChange={(value) => setAudience(value as Audience)}>
+                  <SelectTrigger className="w-44">
+                    <Users className="h-4 w-4 mr-2" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="students">Students</SelectItem>
+                    <SelectItem value="guardians">Guardians</SelectItem>
+                    <SelectItem value="both">Students & guardians</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={sendMode} onValueChange={(value) => setSendMode(value as SendMode)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="result">One message per result</SelectItem>
+                    <SelectItem value="summary">Semester summary</SelectItem>
+                  </SelectContent>
+                </Select>
+                {templateSlots.map((slot) => (
+                  <Select
+                    key={slotKey(slot.purpose, slot.channel)}
+                    value={templateIds[slotKey(slot.purpose, slot.channel)] || ""}
+                    onValueChange={(value) => setTemplateIds({ ...templateIds, [slotKey(slot.purpose, slot.channel)]: value })}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder={`Select ${slot.purpose.startsWith("guardian") ? "guardian " : ""}${slot.channel === "email" ? "email" : "SMS"} template`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.filter((t) => t.purpose === slot.purpose && t.channel === slot.channel).map((template) => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+                <Input
+                  type="datetime-local"
+                  className="w-56"
+                  value={sendAt}
+                  onChange={(e) => setSendAt(e.target.value)}
+                  title="Leave empty to send now"
+                />
+                {sendMode === "summary" ? (
+                  <Button
+                    onClick={() => sendSummaries(sendableSummaries)}
+                    disabled={sending || !templatesReady || sendableSummaries.length === 0}
+                    className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {sendAt ? "Schedule" : "Send"} All ({sendableSummaries.length})
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={sendBulk}
+                    disabled={sending || !templatesReady || sendableResults.length === 0}
+                    className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {sendAt ? "Schedule" : "Send"} All ({sendableResults.length})
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted rounded animate-pulse"></div>
+              ))}
+            </div>
+          ) : pendingResults.length > 0 && sendMode === "summary" ? (
+            summaries.length > 0 ? (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Semester</TableHead>
+                      <TableHead>Results</TableHead>
+                      <TableHead>Preview</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map((group) => (
+                      <TableRow key={group.key} className={`hover:bg-muted/50 ${hasRecipients(group.students) ? "" : "opacity-60"}`}>
+                        <TableCell>
+                          <div>
+                            <p className="font-medium">{group.students.first_name} {group.students.last_name}</p>
+                            <p className="text-sm text-muted-foreground">{group.students.phone_number}</p>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">{group.semesters.name} {group.semesters.year}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {group.results.map((result) => (
+                              <Badge key={result.id} variant="secondary">{result.courses.course_code} {result.grade}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="max-w-xs space-y-1">
+                            {summaryPreview(group).map((part, index) => (
+                              <p key={index} className="truncate text-sm text-muted-foreground" title={part}>{part}</p>
+                            ))}
+                          </div>
+                          {channel !== "email" && (
+                            <p className="text-xs text-muted-foreground">
+                              {group.parts.length} message(s), {group.parts.reduce((total, part) => total + segmentInfo(part).segments, 0)} segment(s)
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {hasRecipients(group.students) ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => sendSummaries([group])}
+                              disabled={sending || !templatesReady}
+                            >
+                              <Send className="h-3 w-3 mr-1" />
+                              Send
+                            </Button>
+                          ) : (
+                            <Badge variant="outline" className="text-destructive">
+                              <BellOff className="h-3 w-3 mr-1" />
+                              {noRecipientLabel(group.students)}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">All pending results are already queued</p>
+              </div>
+            )
+          ) : pendingResults.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Course</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Preview</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingResults.map((result) => (
+                    <TableRow key={result.id} className={`hover:bg-muted/50 ${hasRecipients(result.students) ? "" : "opacity-60"}`}>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{result.students.first_name} {result.students.last_name}</p>
+                          <p className="text-sm text-muted-foreground">{result.students.student_id}</p>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{result.courses.course_code}</p>
+                          <p className="text-sm text-muted-foreground">{result.semesters.name} {result.semesters.year}</p>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{result.score}%</span>
+                          <Badge variant="secondary">{result.grade}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p>{channel === "email" ? result.students.email : result.students.phone_number}</p>
+                        {audience !== "students" && recipientsFor(result.students).some((recipient) => recipient.contact) && (
+                          <p className="text-muted-foreground">
+                            +{new Set(recipientsFor(result.students).filter((recipient) => recipient.contact).map((recipient) => recipient.contact.id)).size} guardian(s)
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="max-w-xs truncate text-sm text-muted-foreground" title={previewText(previewMessage(result))}>
+                          {previewText(previewMessage(result))}
+                        </div>
+                        {previewMessage(result).subject === null && (
+                          <p className="text-xs text-muted-foreground">
+                            {segmentInfo(previewMessage(result).body).segments} segment(s)
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!hasRecipients(result.students) ? (
+                          <Badge variant="outline" className="text-destructive">
+                            <BellOff className="h-3 w-3 mr-1" />
+                            {noRecipientLabel(result.students)}
+                          </Badge>
+                        ) : queuedResultIds.has(result.id) ? (
+                          <Badge variant="outline" className="text-warning">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Queued
+                          </Badge>
+                        ) : (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => sendSingleResult(result)}
+                            disabled={sending || !templatesReady}
+                          >
+                            <Send className="h-3 w-3 mr-1" />
+                            Send
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No pending notifications</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SMSSpend refreshKey={scheduleVersion} />
+
+      <CampaignBuilder
+        onQueued={(batch) => {
+          setActiveBatch(batch);
+          setScheduleVersion((version) => version + 1);
+          fetchSMSLogs();
+        }}
+      />
+
+      <SMSTemplateEditor
+        templates={templates}
+        sampleResults={pendingResults}
+        valuesFor={previewValuesFor}
+        onSaved={fetchTemplates}
+      />
+
+      <InboundSMSSimulator />
+
+      <USSDEmulator />
+
+      <UndeliveredSMS />
+
+      {/* Notification Logs */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Clock className="h-5 w-5 text-accent" />
+            <span>Delivery History</span>
+          </CardTitle>
+          <CardDescription>Recent SMS and email notifications</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+            <div>
+              <Label>Status</Label>
+              <Select value={logFilters.status} onValueChange={(value) => setLogFilters({...logFilters, status: value as SMSLogFilters["status"]})}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  <SelectItem value="queued">Queued</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Channel</Label>
+              <Select value={logFilters.channel} onValueChange={(value) => setLogFilters({...logFilters, channel: value as SMSLogFilters["channel"]})}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All channels</SelectItem>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Student</Label>
+              <Select value={logFilters.student_id} onValueChange={(value) => setLogFilters({...logFilters, student_id: value})}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All students</SelectItem>
+                  {students.map((student) => (
+                    <SelectItem key={student.id} value={student.id}>
+                      {student.student_id} - {student.first_name} {student.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="log_from">From</Label>
+              <Input
+                id="log_from"
+                type="date"
+                value={logFilters.from}
+                onChange={(e) => setLogFilters({...logFilters, from: e.target.value})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="log_to">To</Label>
+              <Input
+                id="log_to"
+                type="date"
+                value={logFilters.to}
+                onChange={(e) => setLogFilters({...logFilters, to: e.target.value})}
+              />
+            </div>
+          </div>
+
+          {smsLogs.length > 0 ? (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created At</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {smsLogs.map((log) => (
+                    <TableRow key={log.id} className="hover:bg-muted/50">
+                      <TableCell className="font-medium">
+                        {log.students ? `${log.students.first_name} ${log.students.last_name}` : "—"}
+                        {log.student_contacts && (
+                          <p className="text-sm font-normal text-muted-foreground">
+                            to {log.student_contacts.name} ({log.student_contacts.relationship})
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          {log.channel === "email" ? <Mail className="h-4 w-4 text-muted-foreground" /> : <MessageSquare className="h-4 w-4 text-muted-foreground" />}
+                          <span>{log.recipient}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="max-w-xs truncate text-sm" title={log.channel === "email" ? htmlToText(log.body) : undefined}>
+                          {log.subject ?? log.body}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className={`flex items-center space-x-1 ${getStatusColor(log.status)}`} title={log.error || undefined}>
+                          {getStatusIcon(log.status)}
+                          <span className="capitalize">{log.status}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(log.created_at).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No messages match these filters</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Notifications;
\ No newline at end of file
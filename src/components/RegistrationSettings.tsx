@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ClipboardList, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface RegistrationLimits {
+  min_credit_units: number;
+  max_credit_units: number;
+}
+
+const RegistrationSettings = () => {
+  const [settings, setSettings] = useState<RegistrationLimits | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('registration_settings')
+        .select('min_credit_units, max_credit_units')
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching registration settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch registration settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('registration_settings')
+        .update(settings)
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Registration settings saved",
+      });
+    } catch (error) {
+      console.error('Error saving registration settings:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save registration settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardList className="h-5 w-5 text-primary" />
+          <span>Course Registration</span>
+        </CardTitle>
+        <CardDescription>
+          Credit load per semester. Registering beyond the maximum is refused; loads under the minimum are flagged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="min_credit_units">Minimum credit units</Label>
+            <Input
+              id="min_credit_units"
+              type="number"
+              min="0"
+              value={settings.min_credit_units}
+              onChange={(e) => setSettings({...settings, min_credit_units: parseInt(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="max_credit_units">Maximum credit units</Label>
+            <Input
+              id="max_credit_units"
+              type="number"
+              min="1"
+              value={settings.max_credit_units}
+              onChange={(e) => setSettings({...settings, max_credit_units: parseInt(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RegistrationSettings;
@@ -8,13 +8,18 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Plus, Award, Send } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
+import { invokeEdgeFunction } from "@/lib/functions";
+import { fetchGradingConfig, getGradeColor, gradeForScore, resolveScale, type GradingConfig } from "@/lib/grading";
+import MissingResults from "./MissingResults";
 
 interface Student {
   id: string;
   student_id: string;
   first_name: string;
   last_name: string;
+  program: string;
 }
 
 interface Course {
@@ -22,12 +27,14 @@ interface Course {
   course_code: string;
   course_name: string;
   credit_units: number;
+  grading_scale_id: string | null;
 }
 
 interface Semester {
   id: string;
   name: string;
   year: number;
+  is_current?: boolean;
 }
 
 interface Result {
@@ -46,6 +53,7 @@ const ResultEntry = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [semesters, setSemesters] = useState<Semester[]>([]);
   const [results, setResults] = useState<Result[]>([]);
+  const [gradingConfig, setGradingConfig] = useState<GradingConfig>({ scales: [], programScales: {} });
   const [loading, setLoading] = useState(true);
   const [formData, setFormData] = useState({
     student_id: "",
@@ -53,30 +61,57 @@ const ResultEntry = () => {
     semester_id: "",
     score: ""
   });
+  const [notifyingId, setNotifyingId] = useState<string | null>(null);
+  // Students registered for the chosen course and semester
+  const [registeredIds, setRegisteredIds] = useState<Set<string>>(new Set());
+  const [resultsVersion, setResultsVersion] = useState(0);
+  const { user, hasRole } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    fetchRegisteredStudents();
+  }, [formData.course_id, formData.semester_id]);
+
   const fetchData = async () => {
     try {
-      const [studentsData, coursesData, semestersData, resultsData] = await Promise.all([
-        supabase.from('students').select('id, student_id, first_name, last_name').order('student_id'),
-        supabase.from('courses').select('*').order('course_code'),
-        supabase.from('semesters').select('*').order('year', { ascending: false }),
+      const [studentsData, coursesData, semestersData, resultsData, grading] = await Promise.all([
+        supabase.from('students').select('id, student_id, first_name, last_name, program').is('archived_at', null).order('student_id'),
+        supabase.from('courses').select('*').eq('is_active', true).order('course_code'),
+        supabase.from('semesters').select('*').order('sort_order', { ascending: false }),
         supabase.from('results').select(`
           *,
-          students (id, student_id, first_name, last_name),
-          courses (id, course_code, course_name, credit_units),
+          students (id, student_id, first_name, last_name, program),
+          courses (id, course_code, course_name, credit_units, grading_scale_id),
           semesters (id, name, year)
-        `).order('created_at', { ascending: false })
+        `).order('created_at', { ascending: false }),
+        fetchGradingConfig()
       ]);
 
+      // Lecturers can only enter results for courses allocated to them
+      let availableCourses = coursesData.data || [];
+      if (!hasRole('admin', 'registry')) {
+        const { data: allocations } = await supabase
+          .from('course_allocations')
+          .select('course_id')
+          .eq('lecturer_id', user?.id);
+        const allocated = new Set((allocations || []).map((a) => a.course_id));
+        availableCourses = availableCourses.filter((course) => allocated.has(course.id));
+      }
+
       setStudents(studentsData.data || []);
-      setCourses(coursesData.data || []);
+      setCourses(availableCourses);
       setSemesters(semestersData.data || []);
+      // New results default to the current semester
+      const current = (semestersData.data || []).find((semester) => semester.is_current);
+      if (current) {
+        setFormData((form) => form.semester_id ? form : { ...form, semester_id: current.id });
+      }
       setResults(resultsData.data || []);
+      setGradingConfig(grading);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -89,13 +124,34 @@ const ResultEntry = () => {
     }
   };
 
+  const fetchRegisteredStudents = async () => {
+    if (!formData.course_id || !formData.semester_id) {
+      setRegisteredIds(new Set());
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('course_registrations')
+      .select('student_id')
+      .eq('course_id', formData.course_id)
+      .eq('semester_id', formData.semester_id)
+      .eq('status', 'registered');
+
+    if (error) {
+      console.error('Error fetching course registrations:', error);
+      return;
+    }
+    const registered = new Set((data || []).map((registration) => registration.student_id));
+    setRegisteredIds(registered);
+    setFormData((form) => registered.has(form.student_id) ? form : { ...form, student_id: "" });
+  };
+
+  const registeredStudents = students.filter((student) => registeredIds.has(student.id));
+
   const calculateGradeInfo = (score: number) => {
-    if (score >= 70) return { grade: 'A', grade_point: 4.0, color: 'bg-success' };
-    if (score >= 60) return { grade: 'B', grade_point: 3.0, color: 'bg-primary' };
-    if (score >= 50) return { grade: 'C', grade_point: 2.0, color: 'bg-accent' };
-    if (score >= 45) return { grade: 'D', grade_point: 1.0, color: 'bg-warning' };
-    if (score >= 40) return { grade: 'E', grade_point: 0.0, color: 'bg-warning' };
-    return { grade: 'F', grade_point: 0.0, color: 'bg-destructive' };
+    const course = courses.find((c) => c.id === formData.course_id);
+    const student = students.find((s) => s.id === formData.student_id);
+    return gradeForScore(resolveScale(gradingConfig, course, student?.program), score);
   };
 
   const handleAddResult = async () => {
@@ -110,7 +166,16 @@ const ResultEntry = () => {
         return;
       }
 
+      // The database re-derives the grade on insert; this keeps the row valid
       const gradeInfo = calculateGradeInfo(score);
+      if (!gradeInfo) {
+        toast({
+          title: "Error",
+          description: "No grading scale covers this score",
+          variant: "destructive",
+        });
+        return;
+      }
 
       const { error } = await supabase
         .from('results')
@@ -119,12 +184,21 @@ const ResultEntry = () => {
           course_id: formData.course_id,
           semester_id: formData.semester_id,
           score: score,
-          grade: gradeInfo.grade,
+          grade: gradeInfo.letter,
           grade_point: gradeInfo.grade_point
         }]);
 
       if (error) throw error;
 
+      // The result is now in the notification outbox and the CGPA recompute
+      // may have raised an at-risk alert. Lecturers cannot run the worker;
+      // theirs go out on its next scheduled run.
+      if (hasRole('admin', 'registry')) {
+        invokeEdgeFunction('sms-worker').catch((error) => {
+          console.error('Error starting SMS worker:', error);
+        });
+      }
+
       toast({
         title: "Success",
         description: "Result added successfully",
@@ -133,9 +207,10 @@ const ResultEntry = () => {
       setFormData({
         student_id: "",
         course_id: "",
-        semester_id: "",
+        semester_id: formData.semester_id,
         score: ""
       });
+      setResultsVersion((version) => version + 1);
       fetchData();
     } catch (error: any) {
       console.error('Error adding result:', error);
@@ -147,32 +222,42 @@ const ResultEntry = () => {
     }
   };
 
+  // Approves the result's outbox row, so the worker notifies it on this run
+  // whatever the notification policy in Settings
   const sendSMSNotification = async (resultId: string) => {
+    setNotifyingId(resultId);
     try {
-      // This would call your SMS sending edge function
+      const { error } = await supabase.rpc('decide_result_notifications', {
+        _result_ids: [resultId],
+        _approve: true,
+      });
+
+      if (error) throw error;
+
+      invokeEdgeFunction('sms-worker').catch((error) => {
+        console.error('Error starting SMS worker:', error);
+      });
+
       toast({
-        title: "SMS Sent",
-        description: "Result notification sent successfully",
+        title: "Notification Queued",
+        description: "The result will be sent shortly; track it in the SMS tab",
       });
     } catch (error) {
+      console.error('Error queueing result notification:', error);
       toast({
         title: "Error",
-        description: "Failed to send SMS notification",
+        description: error.message || "Failed to queue result notification",
         variant: "destructive",
       });
+    } finally {
+      setNotifyingId(null);
     }
   };
 
-  const getGradeColor = (grade: string) => {
-    switch (grade) {
-      case 'A': return 'bg-success text-success-foreground';
-      case 'B': return 'bg-primary text-primary-foreground';
-      case 'C': return 'bg-accent text-accent-foreground';
-      case 'D': return 'bg-warning text-warning-foreground';
-      case 'E': case 'F': return 'bg-destructive text-destructive-foreground';
-      default: return 'bg-muted text-muted-foreground';
-    }
-  };
+  const previewScore = parseFloat(formData.score);
+  const previewGrade = !isNaN(previewScore) && previewScore >= 0 && previewScore <= 100
+    ? calculateGradeInfo(previewScore)
+    : undefined;
 
   return (
     <div className="space-y-6">
@@ -183,18 +268,28 @@ const ResultEntry = () => {
             <Award className="h-5 w-5 text-primary" />
             <span>Enter New Result</span>
           </CardTitle>
-          <CardDescription>Add student exam results and grades</CardDescription>
+          <CardDescription>Add exam results for students registered on the course</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
             <div>
               <Label htmlFor="student">Student</Label>
-              <Select value={formData.student_id} onValueChange={(value) => setFormData({...formData, student_id: value})}>
+              <Select
+                value={formData.student_id}
+                onValueChange={(value) => setFormData({...formData, student_id: value})}
+                disabled={!formData.course_id || !formData.semester_id}
+              >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select student" />
+                  <SelectValue
+                    placeholder={
+                      !formData.course_id || !formData.semester_id
+                        ? "Select course and semester first"
+                        : registeredStudents.length > 0 ? "Select student" : "No registered students"
+                    }
+                  />
                 </SelectTrigger>
                 <SelectContent>
-                  {students.map((student) => (
+                  {registeredStudents.map((student) => (
                     <SelectItem key={student.id} value={student.id}>
                       {student.student_id} - {student.first_name} {student.last_name}
                     </SelectItem>
@@ -228,7 +323,7 @@ const ResultEntry = () => {
                 <SelectContent>
                   {semesters.map((semester) => (
                     <SelectItem key={semester.id} value={semester.id}>
-                      {semester.name} {semester.year}
+                      {semester.name} {semester.year}{semester.is_current && " (current)"}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -246,6 +341,11 @@ const ResultEntry = () => {
                 onChange={(e) => setFormData({...formData, score: e.target.value})}
                 placeholder="85"
               />
+              {previewGrade && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Grade <Badge className={getGradeColor(previewGrade.letter)}>{previewGrade.letter}</Badge> ({previewGrade.grade_point.toFixed(2)} points)
+                </p>
+              )}
             </div>
           </div>
 
@@ -260,6 +360,12 @@ const ResultEntry = () => {
         </CardContent>
       </Card>
 
+      <MissingResults
+        semesterId={formData.semester_id}
+        courseId={formData.course_id}
+        refreshKey={resultsVersion}
+      />
+
       {/* Results Table */}
       <Card className="shadow-card">
         <CardHeader>
@@ -316,14 +422,15 @@ const ResultEntry = () => {
                           )}
                         </TableCell>
                         <TableCell>
-                          {!result.sms_sent && (
+                          {!result.sms_sent && hasRole('admin', 'registry') && (
                             <Button 
                               variant="outline" 
                               size="sm"
                               onClick={() => sendSMSNotification(result.id)}
+                              disabled={notifyingId === result.id}
                             >
                               <Send className="h-3 w-3 mr-1" />
-                              Send SMS
+                              {notifyingId === result.id ? "Queueing..." : "Send SMS"}
                             </Button>
                           )}
                         </TableCell>
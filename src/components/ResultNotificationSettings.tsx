@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface NotificationSettings {
+  policy: string;
+  channel: string;
+  audience: string;
+  batch_delay_minutes: number;
+}
+
+const NOTIFICATION_POLICIES = [
+  { value: "immediate", label: "Immediately", description: "Each result is sent as soon as it is entered." },
+  { value: "semester", label: "Batched per semester", description: "A student's results for a semester go out together as one summary, once no result has been entered for that semester for the wait below." },
+  { value: "approval", label: "After approval", description: "Results wait in the outbox on the SMS tab until staff approve or reject them." },
+];
+
+const ResultNotificationSettings = () => {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('result_notification_settings')
+        .select('policy, channel, audience, batch_delay_minutes')
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching result notification settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch result notification settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('result_notification_settings')
+        .update(settings)
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Result notification settings saved",
+      });
+    } catch (error) {
+      console.error('Error saving result notification settings:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save result notification settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          <span>Result Notifications</span>
+        </CardTitle>
+        <CardDescription>
+          When entered and corrected results are sent, to whom and how. Uses the default templates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Send results</Label>
+            <Select
+              value={settings.policy}
+              onValueChange={(value) => setSettings({...settings, policy: value})}
+              disabled={!canEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTIFICATION_POLICIES.map((policy) => (
+                  <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              {NOTIFICATION_POLICIES.find((policy) => policy.value === settings.policy)?.description}
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="batch_delay_minutes">Semester batch wait (minutes)</Label>
+            <Input
+              id="batch_delay_minutes"
+              type="number"
+              min="0"
+              value={settings.batch_delay_minutes}
+              onChange={(e) => setSettings({...settings, batch_delay_minutes: parseInt(e.target.value)})}
+              disabled={!canEdit || settings.policy !== "semester"}
+            />
+          </div>
+          <div>
+            <Label>Channel</Label>
+            <Select
+              value={settings.channel}
+              onValueChange={(value) => setSettings({...settings, channel: value})}
+              disabled={!canEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="both">SMS and email</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Send to</Label>
+            <Select
+              value={settings.audience}
+              onValueChange={(value) => setSettings({...settings, audience: value})}
+              disabled={!canEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="students">Students</SelectItem>
+                <SelectItem value="guardians">Guardians</SelectItem>
+                <SelectItem value="both">Students and guardians</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The Send button in the Results table, and approving in the outbox, send a result straight away whatever is chosen here.
+        </p>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResultNotificationSettings;
@@ -0,0 +1,208 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, Inbox, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeEdgeFunction } from "@/lib/functions";
+
+interface OutboxEntry {
+  id: string;
+  result_id: string;
+  event: string;
+  status: string;
+  created_at: string;
+  students: {
+    student_id: string;
+    first_name: string;
+    last_name: string;
+  };
+  results: {
+    score: number;
+    grade: string;
+    courses: { course_code: string };
+    semesters: { name: string; year: number };
+  };
+}
+
+const POLICY_NOTES: Record<string, string> = {
+  immediate: "Results are sent on the next worker run.",
+  semester: "Results wait until their semester has had no new results for a while, then go out as one summary per student.",
+  approval: "Results wait here until approved or rejected.",
+};
+
+interface ResultOutboxProps {
+  // Bumped by the parent whenever it queues a batch
+  refreshKey: number;
+  onDecided?: () => void;
+}
+
+// Entered and corrected results waiting to be notified under the policy set
+// in Settings. Approving sends them on this worker run.
+const ResultOutbox = ({ refreshKey, onDecided }: ResultOutboxProps) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [policy, setPolicy] = useState("approval");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [deciding, setDeciding] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEntries();
+  }, [refreshKey]);
+
+  const fetchEntries = async () => {
+    const [{ data, error }, { data: settings }] = await Promise.all([
+      supabase
+        .from('result_outbox')
+        .select(`
+          id, result_id, event, status, created_at,
+          students (student_id, first_name, last_name),
+          results (score, grade, courses (course_code), semesters (name, year))
+        `)
+        .in('status', ['pending', 'approved'])
+        .order('created_at'),
+      supabase.from('result_notification_settings').select('policy').maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Error fetching result outbox:', error);
+      return;
+    }
+    setEntries(data || []);
+    setSelected(new Set());
+    if (settings) setPolicy(settings.policy);
+  };
+
+  const toggle = (resultId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(resultId);
+    else next.delete(resultId);
+    setSelected(next);
+  };
+
+  const decide = async (approve: boolean) => {
+    setDeciding(true);
+    try {
+      const { data, error } = await supabase.rpc('decide_result_notifications', {
+        _result_ids: [...selected],
+        _approve: approve,
+      });
+
+      if (error) throw error;
+
+      if (approve) {
+        invokeEdgeFunction('sms-worker').catch((error) => {
+          console.error('Error starting SMS worker:', error);
+        });
+      }
+
+      toast({
+        title: approve ? "Results Approved" : "Results Rejected",
+        description: approve
+          ? `${data} result notification(s) will be sent shortly`
+          : `${data} result notification(s) will not be sent`,
+      });
+
+      fetchEntries();
+      onDecided?.();
+    } catch (error) {
+      console.error('Error deciding result notifications:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the result outbox",
+        variant: "destructive",
+      });
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Inbox className="h-5 w-5 text-primary" />
+              <span>Result Outbox</span>
+            </CardTitle>
+            <CardDescription>
+              {entries.length} entered or corrected result(s) waiting to be notified. {POLICY_NOTES[policy]}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => decide(false)} disabled={deciding || selected.size === 0}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+            <Button
+              onClick={() => decide(true)}
+              disabled={deciding || selected.size === 0}
+              className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Approve ({selected.size})
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={selected.size === entries.length}
+                    onCheckedChange={(checked) => setSelected(new Set(checked === true ? entries.map((entry) => entry.result_id) : []))}
+                  />
+                </TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Semester</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(entry.result_id)}
+                      onCheckedChange={(checked) => toggle(entry.result_id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{entry.students.first_name} {entry.students.last_name}</p>
+                    <p className="text-sm text-muted-foreground">{entry.students.student_id}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {entry.results.courses.course_code} {entry.results.grade} ({entry.results.score}%)
+                      {entry.event === "corrected" && <Badge variant="outline">Corrected</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{entry.results.semesters.name} {entry.results.semesters.year}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={entry.status === "approved" ? "secondary" : "outline"}>
+                      {entry.status === "approved" ? "Approved" : "Waiting"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResultOutbox;
@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface AlertSettings {
+  enabled: boolean;
+  high_risk_below: number;
+  medium_risk_below: number;
+  cgpa_drop_threshold: number;
+  repeat_after_days: number;
+  alert_by_sms: boolean;
+  alert_by_email: boolean;
+  alert_advisor: boolean;
+}
+
+const RiskAlertSettings = () => {
+  const [settings, setSettings] = useState<AlertSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('academic_risk_settings')
+        .select('enabled, high_risk_below, medium_risk_below, cgpa_drop_threshold, repeat_after_days, alert_by_sms, alert_by_email, alert_advisor')
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching risk alert settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch risk alert settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    if (settings.medium_risk_below < settings.high_risk_below) {
+      toast({
+        title: "Error",
+        description: "The medium risk threshold cannot be below the high risk one",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('academic_risk_settings')
+        .update(settings)
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Risk alert settings saved; they apply from the next CGPA recompute",
+      });
+    } catch (error) {
+      console.error('Error saving risk alert settings:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save risk alert settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const toggles: { key: keyof AlertSettings; label: string }[] = [
+    { key: "enabled", label: "Raise alerts" },
+    { key: "alert_by_sms", label: "Text the student" },
+    { key: "alert_by_email", label: "Email the student" },
+    { key: "alert_advisor", label: "Email the advisor" },
+  ];
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <AlertTriangle className="h-5 w-5 text-primary" />
+          <span>At-risk Alerts</span>
+        </CardTitle>
+        <CardDescription>
+          After each CGPA recompute, students moving into medium or high risk, or whose CGPA falls sharply, are alerted along with their advisor. Thresholds are on the 4.0 scale and converted for students graded on other scales.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="high_risk_below">High risk below CGPA</Label>
+            <Input
+              id="high_risk_below"
+              type="number"
+              min="0"
+              max="4"
+              step="0.01"
+              value={settings.high_risk_below}
+              onChange={(e) => setSettings({...settings, high_risk_below: parseFloat(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="medium_risk_below">Medium risk below CGPA</Label>
+            <Input
+              id="medium_risk_below"
+              type="number"
+              min="0"
+              max="4"
+              step="0.01"
+              value={settings.medium_risk_below}
+              onChange={(e) => setSettings({...settings, medium_risk_below: parseFloat(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cgpa_drop_threshold">Alert on a CGPA fall over</Label>
+            <Input
+              id="cgpa_drop_threshold"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={settings.cgpa_drop_threshold}
+              onChange={(e) => setSettings({...settings, cgpa_drop_threshold: parseFloat(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="repeat_after_days">Repeat an alert after (days)</Label>
+            <Input
+              id="repeat_after_days"
+              type="number"
+              min="0"
+              value={settings.repeat_after_days}
+              onChange={(e) => setSettings({...settings, repeat_after_days: parseInt(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {toggles.map((toggle) => (
+            <div key={toggle.key} className="flex items-center space-x-2">
+              <Switch
+                id={toggle.key}
+                checked={settings[toggle.key] as boolean}
+                onCheckedChange={(checked) => setSettings({...settings, [toggle.key]: checked})}
+                disabled={!canEdit || (toggle.key !== "enabled" && !settings.enabled)}
+              />
+              <Label htmlFor={toggle.key}>{toggle.label}</Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Students are only messaged on channels they have not opted out of. Edit the wording with the At-risk alert templates under Notifications.
+        </p>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskAlertSettings;
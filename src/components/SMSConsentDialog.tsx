@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Bell, BellOff } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+interface SMSConsentDialogProps {
+  student: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    sms_consent: boolean;
+    email_consent: boolean;
+  };
+  onChange: () => void;
+}
+
+interface ConsentChange {
+  id: string;
+  channel: string;
+  consented: boolean;
+  source: string;
+  note: string | null;
+  created_at: string;
+  profiles: { full_name: string | null; email: string | null } | null;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  staff: "Staff",
+  sms_keyword: "Text message",
+  ussd: "USSD",
+  system: "System",
+};
+
+const CHANNELS = [
+  { value: "sms", label: "SMS", field: "sms_consent", rpc: "set_sms_consent" },
+  { value: "email", label: "Email", field: "email_consent", rpc: "set_email_consent" },
+] as const;
+
+// Shows a student's SMS and email preferences with their audit trail; staff
+// can change them. The button reflects SMS, the channel students opt out of.
+const SMSConsentDialog = ({ student, onChange }: SMSConsentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<ConsentChange[]>([]);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin', 'registry');
+
+  const fetchHistory = async () => {
+    const { data, error } = await supabase
+      .from('notification_consent_log')
+      .select('id, channel, consented, source, note, created_at, profiles (full_name, email)')
+      .eq('student_id', student.id)
+      .is('contact_id', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching consent history:', error);
+      return;
+    }
+    setHistory(data || []);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      setNote("");
+      fetchHistory();
+    }
+  };
+
+  const handleToggle = async (channel: typeof CHANNELS[number]) => {
+    const consented = student[channel.field];
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc(channel.rpc, {
+        _student_id: student.id,
+        _consented: !consented,
+        _note: note.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${student.first_name} ${student.last_name} is now ${consented ? "opted out of" : "opted in to"} ${channel.value === "sms" ? "SMS" : "email"}`,
+      });
+      setOpen(false);
+      onChange();
+    } catch (error) {
+      console.error('Error updating consent:', error);
+      toast({
+        title: "Error",
+        description: error.message || `Failed to update ${channel.label} preference`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className={student.sms_consent ? "text-success" : "text-destructive"} title="Notification preferences">
+          {student.sms_consent ? <Bell className="h-3 w-3" /> : <BellOff className="h-3 w-3" />}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>
+            How {student.first_name} {student.last_name} receives result notifications
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {CHANNELS.map((channel) => (
+            <div key={channel.value} className="flex items-center justify-between p-3 rounded-lg border">
+              <div className="text-sm">
+                <span className="font-medium">{channel.label}</span>{" "}
+                <span className={student[channel.field] ? "text-success" : "text-destructive"}>
+                  {student[channel.field] ? "opted in" : "opted out"}
+                </span>
+              </div>
+              {canEdit && (
+                <Button
+                  size="sm"
+                  onClick={() => handleToggle(channel)}
+                  disabled={saving}
+                  variant={student[channel.field] ? "destructive" : "default"}
+                >
+                  {student[channel.field] ? "Opt Out" : "Opt In"}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <div>
+            <Label htmlFor="consent_note">Reason for a change (optional)</Label>
+            <Input
+              id="consent_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Requested by phone on 12 March"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">History</p>
+          {history.length > 0 ? (
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {history.map((change) => (
+                <div key={change.id} className="p-3 rounded-lg bg-muted/50 text-sm">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" className={change.consented ? "text-success" : "text-destructive"}>
+                      {CHANNELS.find((channel) => channel.value === change.channel)?.label || change.channel}{" "}
+                      {change.consented ? "opted in" : "opted out"}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{new Date(change.created_at).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {SOURCE_LABELS[change.source] || change.source}
+                    {change.profiles && ` · ${change.profiles.full_name || change.profiles.email}`}
+                    {change.note && ` · ${change.note}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No consent changes recorded</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SMSConsentDialog;
@@ -0,0 +1,325 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { COUNTRIES } from "@/lib/phone";
+import { ANY, SMS_PROVIDERS } from "@/lib/sms-pricing";
+
+interface BillingSettings {
+  currency: string;
+  billing_provider: string | null;
+  // Null for no cap
+  monthly_budget: number | null;
+}
+
+interface PriceRow {
+  id: string;
+  provider: string;
+  country: string;
+  price_per_segment: number;
+}
+
+const providerLabel = (provider: string) =>
+  provider === ANY ? "Any provider" : SMS_PROVIDERS.find((p) => p.value === provider)?.label || provider;
+
+const countryLabel = (country: string) =>
+  country === ANY ? "Any country" : COUNTRIES.find((c) => c.code === country)?.name || country;
+
+const SMSPricing = () => {
+  const [settings, setSettings] = useState<BillingSettings | null>(null);
+  const [prices, setPrices] = useState<PriceRow[]>([]);
+  const [newPrice, setNewPrice] = useState({ provider: ANY, country: ANY, price_per_segment: "" });
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    fetchSettings();
+    fetchPrices();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sms_settings')
+        .select('currency, billing_provider, monthly_budget')
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching SMS billing settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch SMS billing settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchPrices = async () => {
+    const { data, error } = await supabase
+      .from('sms_prices')
+      .select('id, provider, country, price_per_segment')
+      .order('provider')
+      .order('country');
+
+    if (error) {
+      console.error('Error fetching SMS prices:', error);
+      return;
+    }
+    setPrices(data || []);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('sms_settings')
+        .update({ ...settings, currency: settings.currency.trim().toUpperCase() })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "SMS billing settings saved",
+      });
+    } catch (error) {
+      console.error('Error saving SMS billing settings:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save SMS billing settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addPrice = async () => {
+    const price = parseFloat(newPrice.price_per_segment);
+    if (isNaN(price) || price < 0) {
+      toast({
+        title: "Error",
+        description: "Enter a price per segment of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('sms_prices')
+        .upsert(
+          { provider: newPrice.provider, country: newPrice.country, price_per_segment: price },
+          { onConflict: 'provider,country' }
+        );
+
+      if (error) throw error;
+
+      setNewPrice({ provider: ANY, country: ANY, price_per_segment: "" });
+      fetchPrices();
+    } catch (error) {
+      console.error('Error saving SMS price:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save SMS price",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deletePrice = async (price: PriceRow) => {
+    try {
+      const { error } = await supabase
+        .from('sms_prices')
+        .delete()
+        .eq('id', price.id);
+
+      if (error) throw error;
+      fetchPrices();
+    } catch (error) {
+      console.error('Error deleting SMS price:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete SMS price",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!settings) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Coins className="h-5 w-5 text-primary" />
+          <span>SMS Pricing & Budget</span>
+        </CardTitle>
+        <CardDescription>
+          What each text segment costs, used for cost estimates and monthly spend, and the most to spend on texts in a month
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="currency">Currency</Label>
+            <Input
+              id="currency"
+              maxLength={3}
+              value={settings.currency}
+              onChange={(e) => setSettings({...settings, currency: e.target.value})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label>Provider to estimate with</Label>
+            <Select
+              value={settings.billing_provider || ANY}
+              onValueChange={(value) => setSettings({...settings, billing_provider: value === ANY ? null : value})}
+              disabled={!canEdit}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Not set</SelectItem>
+                {SMS_PROVIDERS.map((provider) => (
+                  <SelectItem key={provider.value} value={provider.value}>{provider.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="monthly_budget">Monthly budget</Label>
+            <Input
+              id="monthly_budget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No cap"
+              value={settings.monthly_budget ?? ""}
+              onChange={(e) => setSettings({
+                ...settings,
+                monthly_budget: e.target.value === "" ? null : parseFloat(e.target.value),
+              })}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Once the month's spend reaches the budget, texts stay queued and admins are emailed. Raising the budget, or the next month, lets them go out. Emails are not affected.
+        </p>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead>Country</TableHead>
+                <TableHead>Price per segment</TableHead>
+                {canEdit && <TableHead>Action</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prices.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 4 : 3} className="text-center text-muted-foreground">
+                    No prices yet; texts are recorded without a cost
+                  </TableCell>
+                </TableRow>
+              )}
+              {prices.map((price) => (
+                <TableRow key={price.id} className="hover:bg-muted/50">
+                  <TableCell>{providerLabel(price.provider)}</TableCell>
+                  <TableCell>{countryLabel(price.country)}</TableCell>
+                  <TableCell>{settings.currency} {price.price_per_segment}</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => deletePrice(price)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {canEdit && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label>Provider</Label>
+              <Select value={newPrice.provider} onValueChange={(value) => setNewPrice({...newPrice, provider: value})}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any provider</SelectItem>
+                  {SMS_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.value} value={provider.value}>{provider.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Country</Label>
+              <Select value={newPrice.country} onValueChange={(value) => setNewPrice({...newPrice, country: value})}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any country</SelectItem>
+                  {COUNTRIES.map((country) => (
+                    <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="price_per_segment">Price per segment</Label>
+              <Input
+                id="price_per_segment"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={newPrice.price_per_segment}
+                onChange={(e) => setNewPrice({...newPrice, price_per_segment: e.target.value})}
+              />
+            </div>
+            <Button variant="outline" onClick={addPrice}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Price
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          The most specific price wins: provider and country, then provider, then country, then any.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SMSPricing;
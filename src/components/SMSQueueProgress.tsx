@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Activity } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type SMSStatus = Database["public"]["Enums"]["sms_status"];
+
+interface SMSQueueProgressProps {
+  batchId: string;
+  label: string;
+  onSettled?: () => void;
+}
+
+// Live progress of one bulk send, fed by realtime updates on sms_messages
+const SMSQueueProgress = ({ batchId, label, onSettled }: SMSQueueProgressProps) => {
+  const [statuses, setStatuses] = useState<Record<string, SMSStatus>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from('sms_messages')
+      .select('id, status')
+      .eq('batch_id', batchId)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setStatuses((current) => ({
+          ...Object.fromEntries((data || []).map((row) => [row.id, row.status])),
+          ...current,
+        }));
+      });
+
+    const channel = supabase
+      .channel(`sms-batch-${batchId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sms_messages', filter: `batch_id=eq.${batchId}` },
+        (payload) => {
+          const row = payload.new as { id?: string; status?: SMSStatus };
+          if (row.id && row.status) {
+            setStatuses((current) => ({ ...current, [row.id]: row.status }));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [batchId]);
+
+  const values = Object.values(statuses);
+  const total = values.length;
+  const count = (status: SMSStatus) => values.filter((value) => value === status).length;
+  const queued = count('queued');
+  const failed = count('failed');
+  const done = total - queued;
+  const settled = total > 0 && queued === 0;
+
+  useEffect(() => {
+    if (settled) onSettled?.();
+  }, [settled]);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-primary" />
+          <span>Sending Progress</span>
+        </CardTitle>
+        <CardDescription>{label}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between text-sm">
+          <span>{done} of {total} processed</span>
+          <span>{total > 0 ? Math.round((done / total) * 100) : 0}%</span>
+        </div>
+        <Progress value={total > 0 ? (done / total) * 100 : 0} className="h-2" />
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="text-warning">Queued {queued}</Badge>
+          <Badge variant="outline" className="text-primary">Sent {count('sent')}</Badge>
+          <Badge variant="outline" className="text-success">Delivered {count('delivered')}</Badge>
+          <Badge variant="outline" className="text-destructive">Failed {failed}</Badge>
+          {count('cancelled') > 0 && (
+            <Badge variant="outline" className="text-muted-foreground">Opted out {count('cancelled')}</Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SMSQueueProgress;
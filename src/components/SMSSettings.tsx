@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Gauge, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { COUNTRIES } from "@/lib/phone";
+
+interface DispatchSettings {
+  rate_per_second: number;
+  max_attempts: number;
+  retry_base_seconds: number;
+  default_country: string;
+  // Both null when quiet hours are off
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+const TIMEZONES = [
+  "Africa/Lagos",
+  "Africa/Accra",
+  "Africa/Nairobi",
+  "Africa/Johannesburg",
+  "Africa/Cairo",
+  "Europe/London",
+  "UTC",
+];
+
+const SMSSettings = () => {
+  const [settings, setSettings] = useState<DispatchSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sms_settings')
+        .select('rate_per_second, max_attempts, retry_base_seconds, default_country, quiet_hours_start, quiet_hours_end, timezone')
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching SMS settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch SMS settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('sms_settings')
+        .update(settings)
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "SMS settings saved",
+      });
+    } catch (error) {
+      console.error('Error saving SMS settings:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save SMS settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <div className="h-32 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          <span>SMS Dispatch</span>
+        </CardTitle>
+        <CardDescription>
+          How fast queued messages are sent, how failed sends are retried and when texts are held back
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="rate_per_second">Messages per second</Label>
+            <Input
+              id="rate_per_second"
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={settings.rate_per_second}
+              onChange={(e) => setSettings({...settings, rate_per_second: parseFloat(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="max_attempts">Max attempts</Label>
+            <Input
+              id="max_attempts"
+              type="number"
+              min="1"
+              value={settings.max_attempts}
+              onChange={(e) => setSettings({...settings, max_attempts: parseInt(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+          <div>
+            <Label htmlFor="retry_base_seconds">First retry after (seconds)</Label>
+            <Input
+              id="retry_base_seconds"
+              type="number"
+              min="1"
+              value={settings.retry_base_seconds}
+              onChange={(e) => setSettings({...settings, retry_base_seconds: parseInt(e.target.value)})}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Each further retry waits twice as long as the previous one.
+        </p>
+        <div className="md:w-1/3">
+          <Label>Default country for phone numbers</Label>
+          <Select
+            value={settings.default_country}
+            onValueChange={(value) => setSettings({...settings, default_country: value})}
+            disabled={!canEdit}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COUNTRIES.map((country) => (
+                <SelectItem key={country.code} value={country.code}>
+                  {country.name} (+{country.callingCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Numbers entered without a country code, e.g. 0803..., are saved with this one.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="quiet_hours"
+              checked={settings.quiet_hours_start !== null}
+              onCheckedChange={(checked) => setSettings({
+                ...settings,
+                quiet_hours_start: checked ? "21:00" : null,
+                quiet_hours_end: checked ? "07:00" : null,
+              })}
+              disabled={!canEdit}
+            />
+            <Label htmlFor="quiet_hours">Quiet hours</Label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="quiet_hours_start">No texts from</Label>
+              <Input
+                id="quiet_hours_start"
+                type="time"
+                value={settings.quiet_hours_start?.slice(0, 5) || ""}
+                onChange={(e) => setSettings({...settings, quiet_hours_start: e.target.value})}
+                disabled={!canEdit || settings.quiet_hours_start === null}
+              />
+            </div>
+            <div>
+              <Label htmlFor="quiet_hours_end">Until</Label>
+              <Input
+                id="quiet_hours_end"
+                type="time"
+                value={settings.quiet_hours_end?.slice(0, 5) || ""}
+                onChange={(e) => setSettings({...settings, quiet_hours_end: e.target.value})}
+                disabled={!canEdit || settings.quiet_hours_end === null}
+              />
+            </div>
+            <div>
+              <Label>Institution time zone</Label>
+              <Select
+                value={settings.timezone}
+                onValueChange={(value) => setSettings({...settings, timezone: value})}
+                disabled={!canEdit}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([settings.timezone, ...TIMEZONES])].map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Texts due during quiet hours, including retries, are held until they end. Emails and replies to incoming texts are not held.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SMSSettings;
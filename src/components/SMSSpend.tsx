@@ -0,0 +1,163 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { PauseCircle, Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCost } from "@/lib/sms-pricing";
+
+interface DepartmentSpend {
+  department: string;
+  messages: number;
+  segments: number;
+  cost: number;
+}
+
+interface Budget {
+  currency: string;
+  monthly_budget: number | null;
+}
+
+// First day of this month and the eleven before it, as YYYY-MM-DD
+const recentMonths = () => {
+  const now = new Date();
+  return Array.from({ length: 12 }, (_, i) => {
+    const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    return {
+      value: `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, "0")}-01`,
+      label: month.toLocaleDateString(undefined, { month: "long", year: "numeric" }),
+    };
+  });
+};
+
+interface SMSSpendProps {
+  // Bumped by the parent whenever it queues a batch
+  refreshKey: number;
+}
+
+// What texts cost per department in a month, against the monthly budget
+const SMSSpend = ({ refreshKey }: SMSSpendProps) => {
+  const months = recentMonths();
+  const [month, setMonth] = useState(months[0].value);
+  const [spend, setSpend] = useState<DepartmentSpend[]>([]);
+  const [budget, setBudget] = useState<Budget>({ currency: "NGN", monthly_budget: null });
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    fetchBudget();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    fetchSpend();
+  }, [month, refreshKey]);
+
+  const fetchBudget = async () => {
+    const [{ data: settings }, { data: exhausted }] = await Promise.all([
+      supabase.from('sms_settings').select('currency, monthly_budget').maybeSingle(),
+      supabase.rpc('sms_budget_exhausted'),
+    ]);
+    if (settings) setBudget(settings);
+    setPaused(!!exhausted);
+  };
+
+  const fetchSpend = async () => {
+    const { data, error } = await supabase.rpc('sms_spend_by_department', { _month: month });
+
+    if (error) {
+      console.error('Error fetching SMS spend:', error);
+      return;
+    }
+    setSpend(data || []);
+  };
+
+  const total = spend.reduce((sum, row) => sum + Number(row.cost), 0);
+  const isCurrentMonth = month === months[0].value;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Wallet className="h-5 w-5 text-primary" />
+              <span>SMS Spend</span>
+            </CardTitle>
+            <CardDescription>
+              Cost of texts sent by the department of the student they were about
+            </CardDescription>
+          </div>
+          <Select value={month} onValueChange={setMonth}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {months.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {paused && (
+          <Alert variant="destructive">
+            <PauseCircle className="h-4 w-4" />
+            <AlertDescription>
+              This month's SMS budget has been reached, so texts are paused and stay queued. Raise the monthly budget under Settings to resume sending.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isCurrentMonth && budget.monthly_budget !== null && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Spent this month</span>
+              <span>{formatCost(total, budget.currency)} of {formatCost(budget.monthly_budget, budget.currency)}</span>
+            </div>
+            <Progress
+              value={budget.monthly_budget > 0 ? Math.min(100, (total / budget.monthly_budget) * 100) : 100}
+              className="h-2"
+            />
+          </div>
+        )}
+
+        {spend.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Texts</TableHead>
+                  <TableHead>Segments</TableHead>
+                  <TableHead>Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {spend.map((row) => (
+                  <TableRow key={row.department} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">{row.department}</TableCell>
+                    <TableCell>{row.messages}</TableCell>
+                    <TableCell>{row.segments}</TableCell>
+                    <TableCell>{formatCost(Number(row.cost), budget.currency)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  <TableCell>{spend.reduce((sum, row) => sum + row.messages, 0)}</TableCell>
+                  <TableCell>{spend.reduce((sum, row) => sum + row.segments, 0)}</TableCell>
+                  <TableCell className="font-medium">{formatCost(total, budget.currency)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No texts sent this month</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SMSSpend;
@@ -0,0 +1,472 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Plus, Save, Star, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_LANGUAGE,
+  TEMPLATE_CHANNELS,
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_PLACEHOLDERS,
+  TEMPLATE_PURPOSES,
+  renderHtmlTemplate,
+  renderTemplate,
+  segmentInfo,
+  unknownPlaceholders,
+  type ResultTemplateSource,
+  type SMSTemplate,
+  type TemplateChannel,
+  type TemplateLanguage,
+  type TemplateValues,
+} from "@/lib/sms-template";
+
+interface SMSTemplateEditorProps {
+  templates: SMSTemplate[];
+  sampleResults: (ResultTemplateSource & { id: string })[];
+  valuesFor: (result: ResultTemplateSource & { id: string }) => TemplateValues;
+  onSaved: () => void;
+}
+
+const NEW_TEMPLATE = "new";
+const EMPTY_DRAFT = { name: "", body: "", subject: "", purpose: "result_notification", channel: "sms" as TemplateChannel };
+const EMPTY_TEXT = { subject: "", body: "" };
+
+type VariantDrafts = Partial<Record<TemplateLanguage, typeof EMPTY_TEXT>>;
+
+const SegmentCounter = ({ text }: { text: string }) => {
+  const info = segmentInfo(text);
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <Badge variant={info.encoding === "GSM-7" ? "secondary" : "outline"} className={info.encoding === "UCS-2" ? "text-warning" : undefined}>
+        {info.encoding}
+      </Badge>
+      <span>{info.length} characters</span>
+      <span>·</span>
+      <span className={info.segments > 1 ? "text-warning font-medium" : undefined}>
+        {info.segments} segment{info.segments === 1 ? "" : "s"}
+      </span>
+      <span>·</span>
+      <span>{info.remaining} left in this segment</span>
+    </div>
+  );
+};
+
+const SMSTemplateEditor = ({ templates, sampleResults, valuesFor, onSaved }: SMSTemplateEditorProps) => {
+  const [editingId, setEditingId] = useState(NEW_TEMPLATE);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  // Other languages' text; an empty body removes the variant on save
+  const [variants, setVariants] = useState<VariantDrafts>({});
+  const [language, setLanguage] = useState<TemplateLanguage>(DEFAULT_LANGUAGE);
+  const [sampleId, setSampleId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin');
+
+  // Start on the default template once templates arrive
+  useEffect(() => {
+    if (editingId === NEW_TEMPLATE && templates.length > 0) {
+      const notifications = templates.filter((t) => t.purpose === 'result_notification');
+      selectTemplate((notifications.find((t) => t.is_default) || notifications[0] || templates[0]).id);
+    }
+  }, [templates]);
+
+  useEffect(() => {
+    if (!sampleResults.some((result) => result.id === sampleId)) {
+      setSampleId(sampleResults[0]?.id || "");
+    }
+  }, [sampleResults]);
+
+  const selectTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    setEditingId(template ? template.id : NEW_TEMPLATE);
+    setDraft(template
+      ? { name: template.name, body: template.body, subject: template.subject || "", purpose: template.purpose, channel: template.channel }
+      : EMPTY_DRAFT);
+    setVariants(Object.fromEntries((template?.sms_template_variants || []).map((variant) => [
+      variant.language,
+      { subject: variant.subject || "", body: variant.body },
+    ])));
+    setLanguage(DEFAULT_LANGUAGE);
+  };
+
+  // The text being edited: the template's own (English) or a variant's
+  const text = language === DEFAULT_LANGUAGE ? draft : variants[language] || EMPTY_TEXT;
+  const setText = (changes: Partial<typeof EMPTY_TEXT>) =>
+    language === DEFAULT_LANGUAGE
+      ? setDraft({ ...draft, ...changes })
+      : setVariants({ ...variants, [language]: { ...text, ...changes } });
+
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? text.body.length;
+    const end = textarea?.selectionEnd ?? text.body.length;
+    setText({ body: text.body.slice(0, start) + token + text.body.slice(end) });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const row = { ...draft, subject: draft.channel === "email" ? draft.subject : null };
+      const { data, error } = editingId === NEW_TEMPLATE
+        ? await supabase.from('sms_templates').insert([row]).select('id').single()
+        : await supabase.from('sms_templates').update(row).eq('id', editingId).select('id').single();
+
+      if (error) throw error;
+
+      const entries = Object.entries(variants);
+      const written = entries.filter(([, variant]) => variant.body.trim());
+      const cleared = entries.filter(([, variant]) => !variant.body.trim()).map(([variantLanguage]) => variantLanguage);
+      if (written.length > 0) {
+        const { error: variantError } = await supabase
+          .from('sms_template_variants')
+          .upsert(
+            written.map(([variantLanguage, variant]) => ({
+              template_id: data.id,
+              language: variantLanguage,
+              subject: draft.channel === "email" && variant.subject.trim() ? variant.subject : null,
+              body: variant.body,
+            })),
+            { onConflict: 'template_id,language' }
+          );
+        if (variantError) throw variantError;
+      }
+      if (cleared.length > 0) {
+        const { error: clearError } = await supabase
+          .from('sms_template_variants')
+          .delete()
+          .eq('template_id', data.id)
+          .in('language', cleared);
+        if (clearError) throw clearError;
+      }
+
+      setEditingId(data.id);
+      toast({
+        title: "Success",
+        description: `Template "${draft.name}" saved`,
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async () => {
+    try {
+      // Clear the old default first so the single-default index is never violated
+      const { error: clearError } = await supabase
+        .from('sms_templates')
+        .update({ is_default: false })
+        .eq('is_default', true)
+        .eq('purpose', editing.purpose)
+        .eq('channel', editing.channel);
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('sms_templates')
+        .update({ is_default: true })
+        .eq('id', editingId);
+      if (error) throw error;
+
+      onSaved();
+    } catch (error) {
+      console.error('Error setting default template:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set default template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const { error } = await supabase.from('sms_templates').delete().eq('id', editingId);
+
+      if (error) throw error;
+
+      selectTemplate(NEW_TEMPLATE);
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const editing = templates.find((t) => t.id === editingId);
+  const sample = sampleResults.find((result) => result.id === sampleId);
+  const isEmail = draft.channel === "email";
+  // A variant without its own subject is sent with the English one
+  const subject = text.subject || draft.subject;
+  const preview = sample ? (isEmail ? renderHtmlTemplate : renderTemplate)(text.body, valuesFor(sample)) : "";
+  const subjectPreview = sample ? renderTemplate(subject, valuesFor(sample)) : subject;
+  const unknown = unknownPlaceholders(
+    [draft, ...Object.values(variants)].map((entry) => `${entry.subject} ${entry.body}`).join(" ")
+  );
+  // Every language with its own text, for the segment counts
+  const written = TEMPLATE_LANGUAGES.filter((option) =>
+    option.value === DEFAULT_LANGUAGE ? draft.body.trim() : variants[option.value]?.body.trim()
+  );
+  const bodyIn = (option: TemplateLanguage) => (option === DEFAULT_LANGUAGE ? draft : variants[option])?.body || "";
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileText className="h-5 w-5 text-primary" />
+          <span>Message Templates</span>
+        </CardTitle>
+        <CardDescription>
+          Placeholders are filled in per result or per reply; keep SMS within one segment to save costs. Each recipient gets the template in their preferred language, or in English if it has not been written in theirs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={editingId} onValueChange={selectTemplate}>
+            <SelectTrigger className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPLATE_PURPOSES.map((purpose) => {
+                const group = templates.filter((template) => template.purpose === purpose.value);
+                if (group.length === 0) return null;
+                return (
+                  <SelectGroup key={purpose.value}>
+                    <SelectLabel>{purpose.label}</SelectLabel>
+                    {group.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}{template.channel === "email" ? " · Email" : ""}{template.is_default ? " (default)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                );
+              })}
+              {canEdit && <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>}
+            </SelectContent>
+          </Select>
+          {canEdit && editingId !== NEW_TEMPLATE && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => selectTemplate(NEW_TEMPLATE)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+              {!editing?.is_default && (
+                <>
+                  <Button variant="outline" size="sm" onClick={handleMakeDefault}>
+                    <Star className="h-4 w-4 mr-1" />
+                    Make Default
+                  </Button>
+                  <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" onClick={handleDelete}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="template_name">Name</Label>
+              <Input
+                id="template_name"
+                value={draft.name}
+                onChange={(e) => setDraft({...draft, name: e.target.value})}
+                placeholder="e.g., Result notification"
+                disabled={!canEdit}
+              />
+            </div>
+            <div>
+              <Label>Channel</Label>
+              <Select
+                value={draft.channel}
+                onValueChange={(value) => setDraft({...draft, channel: value as TemplateChannel})}
+                disabled={!canEdit || editing?.is_default}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_CHANNELS.map((channel) => (
+                    <SelectItem key={channel.value} value={channel.value}>
+                      {channel.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Used for</Label>
+              <Select
+                value={draft.purpose}
+                onValueChange={(value) => setDraft({...draft, purpose: value})}
+                disabled={!canEdit || editing?.is_default}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_PURPOSES.map((purpose) => (
+                    <SelectItem key={purpose.value} value={purpose.value}>
+                      {purpose.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Language</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(value as TemplateLanguage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_LANGUAGES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}{written.includes(option) ? "" : " (falls back to English)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isEmail && (
+              <div>
+                <Label htmlFor="template_subject">Subject</Label>
+                <Input
+                  id="template_subject"
+                  value={text.subject}
+                  onChange={(e) => setText({ subject: e.target.value })}
+                  placeholder={language === DEFAULT_LANGUAGE ? "e.g., Your results for {semester}" : draft.subject}
+                  disabled={!canEdit}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="template_body">{isEmail ? "HTML body" : "Message"}</Label>
+              <Textarea
+                id="template_body"
+                ref={bodyRef}
+                rows={isEmail ? 10 : 5}
+                className={isEmail ? "font-mono text-xs" : undefined}
+                value={text.body}
+                onChange={(e) => setText({ body: e.target.value })}
+                placeholder={language === DEFAULT_LANGUAGE ? undefined : "Leave empty to send the English text"}
+                disabled={!canEdit}
+              />
+            </div>
+            {canEdit && (
+              <div className="flex flex-wrap gap-1">
+                {TEMPLATE_PLACEHOLDERS.filter((placeholder) => isEmail || placeholder.key !== "course_table").map((placeholder) => (
+                  <Button
+                    key={placeholder.key}
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2 font-mono text-xs"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                  >
+                    {`{${placeholder.key}}`}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {unknown.length > 0 && (
+              <p className="text-sm text-destructive">
+                Unknown placeholder{unknown.length === 1 ? "" : "s"}: {unknown.map((key) => `{${key}}`).join(", ")}
+              </p>
+            )}
+            {canEdit && (
+              <Button
+                onClick={handleSave}
+                disabled={saving || !draft.name.trim() || !draft.body.trim() || (isEmail && !draft.subject.trim()) || unknown.length > 0}
+                className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : "Save Template"}
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label>Preview with</Label>
+              <Select value={sampleId} onValueChange={setSampleId} disabled={sampleResults.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No pending results to preview" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sampleResults.map((result) => (
+                    <SelectItem key={result.id} value={result.id}>
+                      {result.students.student_id} - {result.courses.course_code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isEmail ? (
+              <div className="rounded-lg border overflow-hidden">
+                <p className="border-b bg-muted/50 px-4 py-2 text-sm font-medium">{subjectPreview || "(no subject)"}</p>
+                {/* Sandboxed so template markup cannot run scripts in the app */}
+                <iframe title="Email preview" sandbox="" srcDoc={sample ? preview : text.body} className="w-full h-80 bg-white" />
+              </div>
+            ) : (
+              <>
+                <div className="rounded-lg bg-muted/50 p-4 min-h-24 whitespace-pre-wrap text-sm">
+                  {sample ? preview : <span className="text-muted-foreground">{text.body}</span>}
+                </div>
+                <SegmentCounter text={sample ? preview : text.body} />
+              </>
+            )}
+            {!isEmail && written.length > 1 && (
+              <div className="space-y-2">
+                <Label>Segments by language</Label>
+                {written.map((option) => (
+                  <div key={option.value} className="flex flex-wrap items-center gap-2">
+                    <span className="w-20 text-sm font-medium">{option.label}</span>
+                    <SegmentCounter text={sample ? renderTemplate(bodyIn(option.value), valuesFor(sample)) : bodyIn(option.value)} />
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Letters outside the GSM alphabet, such as Yorùbá and Igbo tone marks, switch a text to UCS-2 and fit 70 characters a segment instead of 160.
+                </p>
+              </div>
+            )}
+            {sample && !isEmail && (
+              <p className="text-xs text-muted-foreground">
+                Length varies with names and course titles; check a long one before sending.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SMSTemplateEditor;
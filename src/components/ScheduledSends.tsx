@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+interface ScheduledBatch {
+  id: string;
+  label: string;
+  scheduled_for: string | null;
+  created_at: string;
+  waiting: number;
+  next_send_at: string;
+}
+
+interface ScheduledSendsProps {
+  // Bumped by the parent whenever it queues a batch
+  refreshKey: number;
+  onCancelled?: () => void;
+}
+
+// Batches waiting for a later time: scheduled on purpose or held by quiet hours
+const ScheduledSends = ({ refreshKey, onCancelled }: ScheduledSendsProps) => {
+  const [batches, setBatches] = useState<ScheduledBatch[]>([]);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBatches();
+  }, [refreshKey]);
+
+  const fetchBatches = async () => {
+    const { data, error } = await supabase.rpc('scheduled_sms_batches');
+
+    if (error) {
+      console.error('Error fetching scheduled sends:', error);
+      return;
+    }
+    setBatches(data || []);
+  };
+
+  const cancelBatch = async (batch: ScheduledBatch) => {
+    setCancelling(batch.id);
+    try {
+      const { data, error } = await supabase.rpc('cancel_sms_batch', { _batch_id: batch.id });
+
+      if (error) throw error;
+
+      // Cancelled messages are queued again by the next send of the same
+      // results, so a send can be cancelled and rescheduled
+      toast({
+        title: "Send Cancelled",
+        description: `${data} messages in "${batch.label}" cancelled. Their results can be sent or scheduled again.`,
+      });
+
+      fetchBatches();
+      onCancelled?.();
+    } catch (error) {
+      console.error('Error cancelling scheduled send:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel scheduled send",
+        variant: "destructive",
+      });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          <span>Scheduled Sends</span>
+        </CardTitle>
+        <CardDescription>
+          Sends waiting for their scheduled time or for quiet hours to end. Quiet hours are set under Settings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Send</TableHead>
+                <TableHead>Messages</TableHead>
+                <TableHead>Goes out</TableHead>
+                <TableHead>Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <p className="font-medium">{batch.label}</p>
+                    <p className="text-sm text-muted-foreground">Queued {new Date(batch.created_at).toLocaleString()}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">{batch.waiting}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2 text-sm">
+                      {new Date(batch.next_send_at).toLocaleString()}
+                      <Badge variant="outline">{batch.scheduled_for ? "Scheduled" : "Quiet hours"}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => cancelBatch(batch)}
+                      disabled={cancelling === batch.id}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      {cancelling === batch.id ? "Cancelling..." : "Cancel"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledSends;
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Edit, Plus, Trash2, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchDefaultCountry, normalisePhone } from "@/lib/phone";
+import { DEFAULT_LANGUAGE, TEMPLATE_LANGUAGES } from "@/lib/sms-template";
+
+interface StudentContactsDialogProps {
+  student: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+  contactCount: number;
+  onChange: () => void;
+}
+
+interface StudentContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone_number: string | null;
+  email: string | null;
+  notify_sms: boolean;
+  notify_email: boolean;
+  preferred_language: string;
+}
+
+const RELATIONSHIPS = [
+  { value: "parent", label: "Parent" },
+  { value: "guardian", label: "Guardian" },
+  { value: "sponsor", label: "Sponsor" },
+  { value: "other", label: "Other" },
+];
+
+const EMPTY_CONTACT = {
+  name: "",
+  relationship: "guardian",
+  phone_number: "",
+  email: "",
+  notify_sms: true,
+  notify_email: false,
+  preferred_language: DEFAULT_LANGUAGE as string,
+};
+
+// Parents, guardians and sponsors who get copies of a student's results
+const StudentContactsDialog = ({ student, contactCount, onChange }: StudentContactsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [contacts, setContacts] = useState<StudentContact[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_CONTACT);
+  const [saving, setSaving] = useState(false);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasRole('admin', 'registry');
+
+  const fetchContacts = async () => {
+    const { data, error } = await supabase
+      .from('student_contacts')
+      .select('id, name, relationship, phone_number, email, notify_sms, notify_email, preferred_language')
+      .eq('student_id', student.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching contacts:', error);
+      return;
+    }
+    setContacts(data || []);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) {
+      resetForm();
+      fetchContacts();
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_CONTACT);
+  };
+
+  const editContact = (contact: StudentContact) => {
+    setEditingId(contact.id);
+    setFormData({
+      name: contact.name,
+      relationship: contact.relationship,
+      phone_number: contact.phone_number || "",
+      email: contact.email || "",
+      notify_sms: contact.notify_sms,
+      notify_email: contact.notify_email,
+      preferred_language: contact.preferred_language,
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      let phoneNumber: string | null = null;
+      if (formData.phone_number.trim()) {
+        const phone = normalisePhone(formData.phone_number, await fetchDefaultCountry());
+        if (!phone.valid) throw new Error(phone.error);
+        phoneNumber = phone.e164;
+      }
+
+      const row = {
+        ...formData,
+        phone_number: phoneNumber,
+        email: formData.email.trim() || null,
+      };
+
+      const { error } = editingId
+        ? await supabase.from('student_contacts').update(row).eq('id', editingId)
+        : await supabase.from('student_contacts').insert([{ ...row, student_id: student.id }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Contact "${formData.name}" saved`,
+      });
+      resetForm();
+      fetchContacts();
+      onChange();
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save contact",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Preference switches save straight away; both are audited
+  const updatePreference = async (contact: StudentContact, changes: Partial<StudentContact>) => {
+    try {
+      const { error } = await supabase.from('student_contacts').update(changes).eq('id', contact.id);
+
+      if (error) throw error;
+      fetchContacts();
+    } catch (error) {
+      console.error('Error updating contact preferences:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update contact preferences",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (contact: StudentContact) => {
+    try {
+      const { error } = await supabase.from('student_contacts').delete().eq('id', contact.id);
+
+      if (error) throw error;
+
+      if (editingId === contact.id) resetForm();
+      fetchContacts();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting contact:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete contact",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Guardians and sponsors">
+          <Users className="h-3 w-3" />
+          {contactCount > 0 && <span className="ml-1">{contactCount}</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Guardians & Sponsors</DialogTitle>
+          <DialogDescription>
+            Contacts who can receive copies of {student.first_name} {student.last_name}'s results
+          </DialogDescription>
+        </DialogHeader>
+
+        {contacts.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Phone / Email</TableHead>
+                  <TableHead>SMS</TableHead>
+                  <TableHead>Email</TableHead>
+                  {canEdit && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell>
+                      <p className="font-medium">{contact.name}</p>
+                      <Badge variant="secondary">
+                        {RELATIONSHIPS.find((relationship) => relationship.value === contact.relationship)?.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{contact.phone_number || "—"}</p>
+                      <p className="text-muted-foreground">{contact.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={contact.notify_sms}
+                        onCheckedChange={(checked) => updatePreference(contact, { notify_sms: checked })}
+                        disabled={!canEdit || !contact.phone_number}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={contact.notify_email}
+                        onCheckedChange={(checked) => updatePreference(contact, { notify_email: checked })}
+                        disabled={!canEdit || !contact.email}
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => editContact(contact)}>
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(contact)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No contacts yet</p>
+        )}
+
+        {canEdit && (
+          <div className="space-y-4 border-t pt-4">
+            <p className="text-sm font-medium">{editingId ? "Edit contact" : "Add contact"}</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="contact_name">Name</Label>
+                <Input
+                  id="contact_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({...formData, name: e.target.value})}
+                  placeholder="Jane Doe"
+                />
+              </div>
+              <div>
+                <Label>Relationship</Label>
+                <Select
+                  value={formData.relationship}
+                  onValueChange={(value) => setFormData({...formData, relationship: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIONSHIPS.map((relationship) => (
+                      <SelectItem key={relationship.value} value={relationship.value}>
+                        {relationship.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="contact_phone">Phone Number</Label>
+                <Input
+                  id="contact_phone"
+                  value={formData.phone_number}
+                  onChange={(e) => setFormData({...formData, phone_number: e.target.value})}
+                  placeholder="+1234567890"
+                />
+              </div>
+              <div>
+                <Label htmlFor="contact_email">Email</Label>
+                <Input
+                  id="contact_email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({...formData, email: e.target.value})}
+                  placeholder="jane.doe@example.com"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="contact_notify_sms"
+                  checked={formData.notify_sms}
+                  onCheckedChange={(checked) => setFormData({...formData, notify_sms: checked})}
+                />
+                <Label htmlFor="contact_notify_sms">Results by SMS</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="contact_notify_email"
+                  checked={formData.notify_email}
+                  onCheckedChange={(checked) => setFormData({...formData, notify_email: checked})}
+                />
+                <Label htmlFor="contact_notify_email">Results by email</Label>
+              </div>
+              <Select
+                value={formData.preferred_language}
+                onValueChange={(value) => setFormData({...formData, preferred_language: value})}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_LANGUAGES.map((language) => (
+                    <SelectItem key={language.value} value={language.value}>
+                      {language.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                onClick={handleSave}
+                disabled={saving || !formData.name.trim() || (!formData.phone_number.trim() && !formData.email.trim())}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {saving ? "Saving..." : editingId ? "Save Contact" : "Add Contact"}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentContactsDialog;
@@ -4,11 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, UserPlus, Search } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, UserPlus, Search, Archive, ArchiveRestore } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_COUNTRY, fetchDefaultCountry, normalisePhone } from "@/lib/phone";
+import { DEFAULT_LANGUAGE, TEMPLATE_LANGUAGES } from "@/lib/sms-template";
+import ArchiveStudentDialog from "./ArchiveStudentDialog";
+import SMSConsentDialog from "./SMSConsentDialog";
+import StudentContactsDialog from "./StudentContactsDialog";
 
 interface Student {
   id: string;
@@ -17,37 +23,61 @@ interface Student {
   last_name: string;
   email: string;
   phone_number: string;
+  phone_invalid_reason: string | null;
+  sms_consent: boolean;
+  email_consent: boolean;
   program: string;
+  department: string | null;
+  preferred_language: string;
   year_of_study: number;
+  archived_at: string | null;
   created_at: string;
+  student_contacts: { id: string }[];
 }
 
+const EMPTY_FORM = {
+  student_id: "",
+  first_name: "",
+  last_name: "",
+  email: "",
+  phone_number: "",
+  program: "",
+  department: "",
+  preferred_language: DEFAULT_LANGUAGE as string,
+  year_of_study: 1
+};
+
 const StudentManagement = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
-    student_id: "",
-    first_name: "",
-    last_name: "",
-    email: "",
-    phone_number: "",
-    program: "",
-    year_of_study: 1
-  });
+  const [showArchived, setShowArchived] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // The student being edited; null while adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [defaultCountry, setDefaultCountry] = useState(DEFAULT_COUNTRY);
   const { toast } = useToast();
 
   useEffect(() => {
-    fetchStudents();
+    fetchDefaultCountry().then(setDefaultCountry);
   }, []);
 
+  useEffect(() => {
+    fetchStudents();
+  }, [showArchived]);
+
   const fetchStudents = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('students')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*, student_contacts (id)');
+
+      query = showArchived
+        ? query.not('archived_at', 'is', null)
+        : query.is('archived_at', null);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
       setStudents(data || []);
@@ -63,35 +93,108 @@ const StudentManagement = () => {
     }
   };
 
-  const handleAddStudent = async () => {
+  const phoneCheck = normalisePhone(formData.phone_number, defaultCountry);
+
+  // Shared by adding and editing; returns the reason the form can't be saved
+  const validateForm = () => {
+    if (!formData.student_id.trim() || !formData.first_name.trim() || !formData.last_name.trim()) {
+      return { title: "Missing details", description: "Student ID, first name and last name are required" };
+    }
+    if (!formData.program.trim()) {
+      return { title: "Missing details", description: "Program is required" };
+    }
+    if (!Number.isInteger(formData.year_of_study) || formData.year_of_study < 1 || formData.year_of_study > 6) {
+      return { title: "Invalid year", description: "Year of study must be between 1 and 6" };
+    }
+    if (!phoneCheck.valid) {
+      return { title: "Invalid phone number", description: phoneCheck.error };
+    }
+    return null;
+  };
+
+  const openAddDialog = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (student: Student) => {
+    setEditingId(student.id);
+    setFormData({
+      student_id: student.student_id,
+      first_name: student.first_name,
+      last_name: student.last_name,
+      email: student.email,
+      phone_number: student.phone_number,
+      program: student.program,
+      department: student.department || "",
+      preferred_language: student.preferred_language,
+      year_of_study: student.year_of_study
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveStudent = async () => {
+    const problem = validateForm();
+    if (problem) {
+      toast({ ...problem, variant: "destructive" });
+      return;
+    }
+
+    const record = {
+      ...formData,
+      student_id: formData.student_id.trim(),
+      first_name: formData.first_name.trim(),
+      last_name: formData.last_name.trim(),
+      phone_number: phoneCheck.e164,
+      department: formData.department || formData.program
+    };
+
     try {
-      const { error } = await supabase
-        .from('students')
-        .insert([formData]);
+      const { error } = editingId
+        ? await supabase.from('students').update(record).eq('id', editingId)
+        : await supabase.from('students').insert([record]);
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Student added successfully",
+        description: editingId ? "Student updated successfully" : "Student added successfully",
       });
 
-      setIsAddDialogOpen(false);
-      setFormData({
-        student_id: "",
-        first_name: "",
-        last_name: "",
-        email: "",
-        phone_number: "",
-        program: "",
-        year_of_study: 1
-      });
+      setIsDialogOpen(false);
+      setEditingId(null);
+      setFormData(EMPTY_FORM);
       fetchStudents();
     } catch (error: any) {
-      console.error('Error adding student:', error);
+      console.error('Error saving student:', error);
+      toast({
+        title: "Error",
+        description: error.message || (editingId ? "Failed to update student" : "Failed to add student"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async (student: Student) => {
+    try {
+      const { error } = await supabase
+        .from('students')
+        .update({ archived_at: null, archived_by: null })
+        .eq('id', student.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${student.first_name} ${student.last_name} restored`,
+      });
+      fetchStudents();
+    } catch (error) {
+      console.error('Error restoring student:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to add student",
+        description: error.message || "Failed to restore student",
         variant: "destructive",
       });
     }
@@ -121,19 +224,30 @@ const StudentManagement = () => {
                 <UserPlus className="h-5 w-5 text-primary" />
                 <span>Student Management</span>
               </CardTitle>
-              <CardDescription>Manage student records and enrollments</CardDescription>
+              <CardDescription>
+                {showArchived ? "Archived students, with their records kept" : "Manage student records and enrollments"}
+              </CardDescription>
             </div>
-            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Student
-                </Button>
-              </DialogTrigger>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+                <Archive className="h-4 w-4 mr-2" />
+                {showArchived ? "Active Students" : "Archived"}
+              </Button>
+              <Button
+                onClick={openAddDialog}
+                className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Student
+              </Button>
+            </div>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogContent className="max-w-md">
                 <DialogHeader>
-                  <DialogTitle>Add New Student</DialogTitle>
-                  <DialogDescription>Enter student information below</DialogDescription>
+                  <DialogTitle>{editingId ? "Edit Student" : "Add New Student"}</DialogTitle>
+                  <DialogDescription>
+                    {editingId ? "Update the student's information below" : "Enter student information below"}
+                  </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
                   <div className="grid grid-cols-2 gap-4">
@@ -194,8 +308,13 @@ const StudentManagement = () => {
                       id="phone_number"
                       value={formData.phone_number}
                       onChange={(e) => setFormData({...formData, phone_number: e.target.value})}
-                      placeholder="+1234567890"
+                      placeholder="+2348031234567"
                     />
+                    {formData.phone_number && (
+                      <p className={`text-xs mt-1 ${phoneCheck.valid ? "text-muted-foreground" : "text-destructive"}`}>
+                        {phoneCheck.valid ? `Saved as ${phoneCheck.e164}` : phoneCheck.error}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <Label htmlFor="program">Program</Label>
@@ -206,8 +325,35 @@ const StudentManagement = () => {
                       placeholder="Computer Science"
                     />
                   </div>
-                  <Button onClick={handleAddStudent} className="w-full">
-                    Add Student
+                  <div>
+                    <Label htmlFor="department">Department</Label>
+                    <Input
+                      id="department"
+                      value={formData.department}
+                      onChange={(e) => setFormData({...formData, department: e.target.value})}
+                      placeholder="Same as program"
+                    />
+                  </div>
+                  <div>
+                    <Label>Preferred language</Label>
+                    <Select
+                      value={formData.preferred_language}
+                      onValueChange={(value) => setFormData({...formData, preferred_language: value})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_LANGUAGES.map((language) => (
+                          <SelectItem key={language.value} value={language.value}>
+                            {language.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleSaveStudent} className="w-full">
+                    {editingId ? "Save Changes" : "Add Student"}
                   </Button>
                 </div>
               </DialogContent>
@@ -255,21 +401,45 @@ const StudentManagement = () => {
                           <div>
                             <p className="font-medium">{student.first_name} {student.last_name}</p>
                             <p className="text-sm text-muted-foreground">{student.email}</p>
+                            {student.archived_at && (
+                              <p className="text-xs text-muted-foreground">
+                                Archived {new Date(student.archived_at).toLocaleDateString()}
+                              </p>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
                           <Badge variant="secondary">{student.program}</Badge>
                         </TableCell>
                         <TableCell>{getYearSuffix(student.year_of_study)} Year</TableCell>
-                        <TableCell className="text-sm">{student.phone_number}</TableCell>
+                        <TableCell className="text-sm">
+                          <div className="flex items-center space-x-1">
+                            <span>{student.phone_number}</span>
+                            <SMSConsentDialog student={student} onChange={fetchStudents} />
+                          </div>
+                          {student.phone_invalid_reason && (
+                            <Badge variant="outline" className="text-destructive" title={student.phone_invalid_reason}>
+                              Invalid number
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
-                            <Button variant="outline" size="sm">
-                              <Edit className="h-3 w-3" />
-                            </Button>
-                            <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
+                            <StudentContactsDialog
+                              student={student}
+                              contactCount={student.student_contacts.length}
+                              onChange={fetchStudents}
+                            />
+                            {student.archived_at ? (
+                              <Button variant="outline" size="sm" onClick={() => handleRestore(student)} title="Restore">
+                                <ArchiveRestore className="h-3 w-3" />
+                              </Button>
+                            ) : (
+                              <Button variant="outline" size="sm" onClick={() => openEditDialog(student)} title="Edit">
+                                <Edit className="h-3 w-3" />
+                              </Button>
+                            )}
+                            <ArchiveStudentDialog student={student} onChange={fetchStudents} />
                           </div>
                         </TableCell>
                       </TableRow>
@@ -280,7 +450,9 @@ const StudentManagement = () => {
                         <div className="flex flex-col items-center space-y-2">
                           <UserPlus className="h-8 w-8 text-muted-foreground" />
                           <p className="text-muted-foreground">
-                            {searchTerm ? "No students found matching your search" : "No students found"}
+                            {searchTerm
+                              ? "No students found matching your search"
+                              : showArchived ? "No archived students" : "No students found"}
                           </p>
                         </div>
                       </TableCell>
@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Phone, PhoneOff, Smartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeEdgeFunction } from "@/lib/functions";
+
+interface USSDSession {
+  id: string;
+  // Every choice made so far; sent to the handler joined by "*"
+  inputs: string[];
+  screen: string;
+  open: boolean;
+}
+
+// Walks through the USSD menus as a student's feature phone would, using the
+// ussd-simulate function. Opting out here changes nothing.
+const USSDEmulator = () => {
+  const [students, setStudents] = useState<{ id: string; student_id: string; first_name: string; last_name: string; phone_number: string }[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [session, setSession] = useState<USSDSession | null>(null);
+  const [input, setInput] = useState("");
+  const [waiting, setWaiting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStudents();
+  }, []);
+
+  const fetchStudents = async () => {
+    const { data } = await supabase
+      .from('students')
+      .select('id, student_id, first_name, last_name, phone_number')
+      .order('student_id');
+    setStudents(data || []);
+  };
+
+  const step = async (sessionId: string, inputs: string[]) => {
+    setWaiting(true);
+    try {
+      const { response } = await invokeEdgeFunction<{ response: string }>('ussd-simulate', {
+        sessionId,
+        phoneNumber,
+        text: inputs.join('*'),
+      });
+
+      setSession({
+        id: sessionId,
+        inputs,
+        screen: response.replace(/^(CON|END) /, ""),
+        open: response.startsWith("CON"),
+      });
+      setInput("");
+    } catch (error) {
+      console.error('Error simulating USSD:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to simulate USSD",
+        variant: "destructive",
+      });
+    } finally {
+      setWaiting(false);
+    }
+  };
+
+  const dial = () => step(`emulator-${Date.now()}`, []);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Smartphone className="h-5 w-5 text-primary" />
+          <span>USSD Emulator</span>
+        </CardTitle>
+        <CardDescription>
+          Dial in as a student to try the results menu; nothing is changed
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label>Student</Label>
+              <Select
+                value={students.find((student) => student.phone_number === phoneNumber)?.id || ""}
+                onValueChange={(id) => setPhoneNumber(students.find((student) => student.id === id)?.phone_number || "")}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pick a student to use their number" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((student) => (
+                    <SelectItem key={student.id} value={student.id}>
+                      {student.student_id} - {student.first_name} {student.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ussd_phone">Phone number</Label>
+              <Input
+                id="ussd_phone"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                placeholder="+1234567890"
+                disabled={session?.open}
+              />
+            </div>
+            {session?.open ? (
+              <Button variant="outline" onClick={() => setSession(null)}>
+                <PhoneOff className="h-4 w-4 mr-2" />
+                Hang Up
+              </Button>
+            ) : (
+              <Button
+                onClick={dial}
+                disabled={waiting || !phoneNumber.trim()}
+                className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+              >
+                <Phone className="h-4 w-4 mr-2" />
+                Dial
+              </Button>
+            )}
+          </div>
+
+          <div className="mx-auto w-full max-w-xs rounded-3xl border-4 border-muted p-4 space-y-3">
+            <div className="rounded-lg bg-muted/50 p-3 min-h-40 font-mono text-sm whitespace-pre-wrap">
+              {waiting ? (
+                <span className="text-muted-foreground">USSD code running...</span>
+              ) : session ? (
+                session.screen
+              ) : (
+                <span className="text-muted-foreground">Dial to start a session</span>
+              )}
+            </div>
+            {session?.open && (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  step(session.id, [...session.inputs, input.trim()]);
+                }}
+              >
+                <Input
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder="Reply"
+                  className="font-mono"
+                  autoFocus
+                />
+                <Button type="submit" disabled={waiting || !input.trim()}>
+                  Send
+                </Button>
+              </form>
+            )}
+            {session && !session.open && (
+              <p className="text-xs text-muted-foreground text-center">Session ended</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default USSDEmulator;
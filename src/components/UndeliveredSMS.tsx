@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Clock, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { invokeEdgeFunction } from "@/lib/functions";
+import { fetchDefaultCountry, normalisePhone } from "@/lib/phone";
+
+type SMSStatus = Database["public"]["Enums"]["sms_status"];
+
+interface UndeliveredMessage {
+  id: string;
+  recipient: string;
+  body: string;
+  status: SMSStatus;
+  error: string | null;
+  sent_at: string | null;
+  failed_at: string | null;
+  students: {
+    first_name: string;
+    last_name: string;
+    student_id: string;
+    phone_number: string;
+    phone_invalid_reason: string | null;
+  } | null;
+  // Set when the message went to a guardian or sponsor
+  student_contacts: {
+    name: string;
+    phone_number: string | null;
+  } | null;
+}
+
+// A sent message with no delivery receipt after this long needs a look
+const RECEIPT_GRACE_HOURS = 24;
+
+// Messages that failed, or were sent but never confirmed delivered
+const UndeliveredSMS = () => {
+  const [messages, setMessages] = useState<UndeliveredMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchMessages();
+  }, []);
+
+  const fetchMessages = async () => {
+    try {
+      const cutoff = new Date(Date.now() - RECEIPT_GRACE_HOURS * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from('sms_messages')
+        .select(`
+          id, recipient, body, status, error, sent_at, failed_at,
+          students (first_name, last_name, student_id, phone_number, phone_invalid_reason),
+          student_contacts (name, phone_number)
+        `)
+        // SMTP gives no delivery receipts, so "sent" emails never become "delivered"
+        .eq('channel', 'sms')
+        .or(`status.eq.failed,and(status.eq.sent,sent_at.lt.${cutoff})`)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setMessages(data || []);
+    } catch (error) {
+      console.error('Error fetching undelivered messages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch undelivered messages",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The number on file now for whoever the message was for
+  const currentNumber = (message: UndeliveredMessage) =>
+    (message.student_contacts ? message.student_contacts.phone_number : message.students?.phone_number) || message.recipient;
+
+  // Put a failed message back on the queue, to the recipient's current number
+  // in international format, as stored numbers may be in local form
+  const retryMessage = async (message: UndeliveredMessage) => {
+    setRetrying(message.id);
+    try {
+      const phone = normalisePhone(currentNumber(message), await fetchDefaultCountry());
+      if (!phone.valid) throw new Error(phone.error);
+
+      const { error } = await supabase
+        .from('sms_messages')
+        .update({
+          status: 'queued',
+          error: null,
+          attempts: 0,
+          locked_at: null,
+          next_attempt_at: new Date().toISOString(),
+          // Receipts for the failed attempt must not touch the retry
+          provider_message_id: null,
+          failed_at: null,
+          recipient: phone.e164,
+        })
+        .eq('id', message.id);
+
+      if (error) throw error;
+
+      invokeEdgeFunction('sms-worker').catch((error) => {
+        console.error('Error starting SMS worker:', error);
+      });
+
+      toast({
+        title: "Message Requeued",
+        description: `Retrying message to ${phone.e164}`,
+      });
+      fetchMessages();
+    } catch (error) {
+      console.error('Error retrying message:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retry message",
+        variant: "destructive",
+      });
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span>Undelivered Messages</span>
+        </CardTitle>
+        <CardDescription>
+          Failed messages and messages without a delivery receipt after {RECEIPT_GRACE_HOURS} hours ({messages.length})
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-16 bg-muted rounded animate-pulse"></div>
+        ) : messages.length > 0 ? (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {messages.map((message) => {
+                  const invalidReason = message.student_contacts ? null : message.students?.phone_invalid_reason;
+                  return (
+                    <TableRow key={message.id} className="hover:bg-muted/50">
+                      <TableCell>
+                        {message.students ? (
+                          <div>
+                            <p className="font-medium">{message.students.first_name} {message.students.last_name}</p>
+                            <p className="text-sm text-muted-foreground">{message.students.student_id}</p>
+                            {message.student_contacts && (
+                              <p className="text-sm text-muted-foreground">to {message.student_contacts.name}</p>
+                            )}
+                          </div>
+                        ) : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{message.recipient}</div>
+                        {invalidReason && (
+                          <Badge variant="outline" className="text-destructive" title={invalidReason}>
+                            Invalid number
+                          </Badge>
+                        )}
+                        {currentNumber(message) !== message.recipient && (
+                          <p className="text-xs text-muted-foreground">Now {currentNumber(message)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {message.status === 'failed' ? (
+                          <div className="flex items-center space-x-1 text-destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            <span className="text-sm">{message.error || "Failed"}</span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center space-x-1 text-warning">
+                            <Clock className="h-4 w-4" />
+                            <span className="text-sm">No delivery receipt</span>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(message.failed_at || message.sent_at || "").toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {message.status === 'failed' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryMessage(message)}
+                            disabled={retrying === message.id || !!invalidReason}
+                            title={invalidReason ? "Correct the student's phone number first" : undefined}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-6">Every recent message was delivered</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UndeliveredSMS;
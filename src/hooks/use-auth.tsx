@@ -0,0 +1,80 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  loading: boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe before reading the stored session so no change is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      if (!newSession) {
+        setRoles([]);
+        setLoading(false);
+      }
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Deferred out of the auth callback, which must not await Supabase calls
+    setLoading(true);
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching roles:', error);
+        setRoles((data || []).map((row) => row.role));
+        setLoading(false);
+      });
+  }, [userId]);
+
+  const value: AuthContextValue = {
+    session,
+    user: session?.user ?? null,
+    roles,
+    loading,
+    hasRole: (...wanted) => wanted.some((role) => roles.includes(role)),
+    signOut: async () => {
+      await supabase.auth.signOut();
+    },
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
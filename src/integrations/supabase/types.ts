@@ -14,220 +14,1692 @@ export type Database = {
   }
   public: {
     Tables: {
+      academic_risk_alerts: {
+        Row: {
+          cgpa: number
+          created_at: string
+          error: string | null
+          id: string
+          kind: string
+          previous_cgpa: number | null
+          processed_at: string | null
+          risk_level: string
+          semester_id: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          cgpa: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind: string
+          previous_cgpa?: number | null
+          processed_at?: string | null
+          risk_level: string
+          semester_id?: string | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          cgpa?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          kind?: string
+          previous_cgpa?: number | null
+          processed_at?: string | null
+          risk_level?: string
+          semester_id?: string | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "academic_risk_alerts_semester_id_fkey"
+            columns: ["semester_id"]
+            isOneToOne: false
+            referencedRelation: "semesters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "academic_risk_alerts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      academic_risk_settings: {
+        Row: {
+          alert_advisor: boolean
+          alert_by_email: boolean
+          alert_by_sms: boolean
+          cgpa_drop_threshold: number
+          enabled: boolean
+          high_risk_below: number
+          id: boolean
+          medium_risk_below: number
+          repeat_after_days: number
+          updated_at: string
+        }
+        Insert: {
+          alert_advisor?: boolean
+          alert_by_email?: boolean
+          alert_by_sms?: boolean
+          cgpa_drop_threshold?: number
+          enabled?: boolean
+          high_risk_below?: number
+          id?: boolean
+          medium_risk_below?: number
+          repeat_after_days?: number
+          updated_at?: string
+        }
+        Update: {
+          alert_advisor?: boolean
+          alert_by_email?: boolean
+          alert_by_sms?: boolean
+          cgpa_drop_threshold?: number
+          enabled?: boolean
+          high_risk_below?: number
+          id?: boolean
+          medium_risk_below?: number
+          repeat_after_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      academic_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          start_year: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          start_year: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          start_year?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       cgpa_records: {
         Row: {
           created_at: string
-          cumulative_gpa: number
+          cumulative_gpa: number
+          id: string
+          semester_gpa: number
+          semester_id: string
+          student_id: string
+          total_credit_units: number
+        }
+        Insert: {
+          created_at?: string
+          cumulative_gpa: number
+          id?: string
+          semester_gpa: number
+          semester_id: string
+          student_id: string
+          total_credit_units: number
+        }
+        Update: {
+          created_at?: string
+          cumulative_gpa?: number
+          id?: string
+          semester_gpa?: number
+          semester_id?: string
+          student_id?: string
+          total_credit_units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cgpa_records_semester_id_fkey"
+            columns: ["semester_id"]
+            isOneToOne: false
+            referencedRelation: "semesters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cgpa_records_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_allocations: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          lecturer_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          lecturer_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          lecturer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_allocations_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_allocations_lecturer_id_fkey"
+            columns: ["lecturer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string
+          prerequisite_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          prerequisite_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_registrations: {
+        Row: {
+          course_id: string
+          created_at: string
+          id: string
+          registered_by: string | null
+          semester_id: string
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          id?: string
+          registered_by?: string | null
+          semester_id: string
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          id?: string
+          registered_by?: string | null
+          semester_id?: string
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_registrations_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_registrations_registered_by_fkey"
+            columns: ["registered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_registrations_semester_id_fkey"
+            columns: ["semester_id"]
+            isOneToOne: false
+            referencedRelation: "semesters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_registrations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          course_code: string
+          course_name: string
+          course_type: string
+          created_at: string
+          credit_units: number
+          department: string | null
+          grading_scale_id: string | null
+          id: string
+          is_active: boolean
+          level: number
+          updated_at: string
+        }
+        Insert: {
+          course_code: string
+          course_name: string
+          course_type?: string
+          created_at?: string
+          credit_units: number
+          department?: string | null
+          grading_scale_id?: string | null
+          id?: string
+          is_active?: boolean
+          level?: number
+          updated_at?: string
+        }
+        Update: {
+          course_code?: string
+          course_name?: string
+          course_type?: string
+          created_at?: string
+          credit_units?: number
+          department?: string | null
+          grading_scale_id?: string | null
+          id?: string
+          is_active?: boolean
+          level?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courses_grading_scale_id_fkey"
+            columns: ["grading_scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_bands: {
+        Row: {
+          created_at: string
+          grade_point: number
+          grading_scale_id: string
+          id: string
+          is_pass: boolean
+          letter: string
+          min_score: number
+        }
+        Insert: {
+          created_at?: string
+          grade_point: number
+          grading_scale_id: string
+          id?: string
+          is_pass?: boolean
+          letter: string
+          min_score: number
+        }
+        Update: {
+          created_at?: string
+          grade_point?: number
+          grading_scale_id?: string
+          id?: string
+          is_pass?: boolean
+          letter?: string
+          min_score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_bands_grading_scale_id_fkey"
+            columns: ["grading_scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_scales: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          max_grade_point: number
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          max_grade_point: number
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          max_grade_point?: number
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notification_consent_log: {
+        Row: {
+          changed_by: string | null
+          channel: string
+          consented: boolean
+          contact_id: string | null
+          created_at: string
+          id: string
+          note: string | null
+          source: string
+          student_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          channel?: string
+          consented: boolean
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          source: string
+          student_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          channel?: string
+          consented?: boolean
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          source?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_consent_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_consent_log_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "student_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_consent_log_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      program_grading_scales: {
+        Row: {
+          created_at: string
+          grading_scale_id: string
+          program: string
+        }
+        Insert: {
+          created_at?: string
+          grading_scale_id: string
+          program: string
+        }
+        Update: {
+          created_at?: string
+          grading_scale_id?: string
+          program?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_grading_scales_grading_scale_id_fkey"
+            columns: ["grading_scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      registration_settings: {
+        Row: {
+          id: boolean
+          max_credit_units: number
+          min_credit_units: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          max_credit_units?: number
+          min_credit_units?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          max_credit_units?: number
+          min_credit_units?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      result_notification_settings: {
+        Row: {
+          audience: string
+          batch_delay_minutes: number
+          channel: string
+          id: boolean
+          policy: string
+          updated_at: string
+        }
+        Insert: {
+          audience?: string
+          batch_delay_minutes?: number
+          channel?: string
+          id?: boolean
+          policy?: string
+          updated_at?: string
+        }
+        Update: {
+          audience?: string
+          batch_delay_minutes?: number
+          channel?: string
+          id?: boolean
+          policy?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      result_outbox: {
+        Row: {
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          error: string | null
+          event: string
+          id: string
+          processed_at: string | null
+          result_id: string
+          semester_id: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          processed_at?: string | null
+          result_id: string
+          semester_id: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          error?: string | null
+          event?: string
+          id?: string
+          processed_at?: string | null
+          result_id?: string
+          semester_id?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "result_outbox_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "result_outbox_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "result_outbox_semester_id_fkey"
+            columns: ["semester_id"]
+            isOneToOne: false
+            referencedRelation: "semesters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "result_outbox_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      results: {
+        Row: {
+          course_id: string
+          created_at: string
+          grade: string
+          grade_point: number
+          id: string
+          is_pass: boolean
+          released_at: string | null
+          score: number
+          semester_id: string
+          sms_sent: boolean | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          grade: string
+          grade_point: number
+          id?: string
+          is_pass?: boolean
+          released_at?: string | null
+          score: number
+          semester_id: string
+          sms_sent?: boolean | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          grade?: string
+          grade_point?: number
+          id?: string
+          is_pass?: boolean
+          released_at?: string | null
+          score?: number
+          semester_id?: string
+          sms_sent?: boolean | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "results_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_semester_id_fkey"
+            columns: ["semester_id"]
+            isOneToOne: false
+            referencedRelation: "semesters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      semesters: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          is_current: boolean
+          name: string
+          position: number
+          session_id: string
+          sort_order: number
+          start_date: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          is_current?: boolean
+          name: string
+          position: number
+          session_id: string
+          sort_order?: number
+          start_date: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_current?: boolean
+          name?: string
+          position?: number
+          session_id?: string
+          sort_order?: number
+          start_date?: string
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "semesters_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "academic_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_batches: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          label: string
+          scheduled_for: string | null
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label: string
+          scheduled_for?: string | null
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string
+          scheduled_for?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_batches_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_campaign_recipients: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          id: string
+          message_id: string | null
+          recipient: string | null
+          skipped_reason: string | null
+          student_id: string | null
+          student_name: string
+          student_number: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          recipient?: string | null
+          skipped_reason?: string | null
+          student_id?: string | null
+          student_name: string
+          student_number: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          recipient?: string | null
+          skipped_reason?: string | null
+          student_id?: string | null
+          student_name?: string
+          student_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_campaign_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "sms_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_campaign_recipients_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "sms_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_campaign_recipients_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_campaigns: {
+        Row: {
+          batch_id: string | null
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string
+          created_by: string | null
+          estimated_cost: number | null
+          estimated_segments: number
+          filters: Json
+          id: string
+          name: string
+          recipient_count: number
+          skipped_count: number
+          subject: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          body: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string
+          created_by?: string | null
+          estimated_cost?: number | null
+          estimated_segments?: number
+          filters?: Json
+          id?: string
+          name: string
+          recipient_count?: number
+          skipped_count?: number
+          subject?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          body?: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string
+          created_by?: string | null
+          estimated_cost?: number | null
+          estimated_segments?: number
+          filters?: Json
+          id?: string
+          name?: string
+          recipient_count?: number
+          skipped_count?: number
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_campaigns_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "sms_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_campaigns_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_inbound_messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          keyword: string | null
+          provider: string
+          provider_message_id: string | null
+          sender: string
+          student_id: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          keyword?: string | null
+          provider: string
+          provider_message_id?: string | null
+          sender: string
+          student_id?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          keyword?: string | null
+          provider?: string
+          provider_message_id?: string | null
+          sender?: string
+          student_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_inbound_messages_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_message_results: {
+        Row: {
+          message_id: string
+          result_id: string
+        }
+        Insert: {
+          message_id: string
+          result_id: string
+        }
+        Update: {
+          message_id?: string
+          result_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_message_results_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "sms_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_message_results_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_messages: {
+        Row: {
+          attempts: number
+          batch_id: string | null
+          body: string
+          bypass_consent: boolean
+          channel: Database["public"]["Enums"]["notification_channel"]
+          claimed_at: string | null
+          contact_id: string | null
+          cost: number | null
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          failed_at: string | null
           id: string
-          semester_gpa: number
-          semester_id: string
-          student_id: string
-          total_credit_units: number
+          idempotency_key: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          result_id: string | null
+          segments: number | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["sms_status"]
+          student_id: string | null
+          subject: string | null
+          template_id: string | null
+          updated_at: string
         }
         Insert: {
+          attempts?: number
+          batch_id?: string | null
+          body: string
+          bypass_consent?: boolean
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          contact_id?: string | null
+          cost?: number | null
           created_at?: string
-          cumulative_gpa: number
+          delivered_at?: string | null
+          error?: string | null
+          failed_at?: string | null
           id?: string
-          semester_gpa: number
-          semester_id: string
-          student_id: string
-          total_credit_units: number
+          idempotency_key?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          result_id?: string | null
+          segments?: number | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["sms_status"]
+          student_id?: string | null
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string
         }
         Update: {
+          attempts?: number
+          batch_id?: string | null
+          body?: string
+          bypass_consent?: boolean
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          contact_id?: string | null
+          cost?: number | null
           created_at?: string
-          cumulative_gpa?: number
+          delivered_at?: string | null
+          error?: string | null
+          failed_at?: string | null
           id?: string
-          semester_gpa?: number
-          semester_id?: string
-          student_id?: string
-          total_credit_units?: number
+          idempotency_key?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          result_id?: string | null
+          segments?: number | null
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["sms_status"]
+          student_id?: string | null
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "cgpa_records_semester_id_fkey"
-            columns: ["semester_id"]
+            foreignKeyName: "sms_messages_batch_id_fkey"
+            columns: ["batch_id"]
             isOneToOne: false
-            referencedRelation: "semesters"
+            referencedRelation: "sms_batches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "cgpa_records_student_id_fkey"
+            foreignKeyName: "sms_messages_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "student_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sms_messages_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "sms_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      courses: {
+      sms_prices: {
         Row: {
-          course_code: string
-          course_name: string
+          country: string
           created_at: string
-          credit_units: number
           id: string
+          price_per_segment: number
+          provider: string
+          updated_at: string
         }
         Insert: {
-          course_code: string
-          course_name: string
+          country: string
           created_at?: string
-          credit_units: number
           id?: string
+          price_per_segment: number
+          provider: string
+          updated_at?: string
         }
         Update: {
-          course_code?: string
-          course_name?: string
+          country?: string
           created_at?: string
-          credit_units?: number
           id?: string
+          price_per_segment?: number
+          provider?: string
+          updated_at?: string
         }
         Relationships: []
       }
-      results: {
+      sms_settings: {
         Row: {
-          course_id: string
+          billing_provider: string | null
+          budget_paused_at: string | null
+          currency: string
+          default_country: string
+          id: boolean
+          max_attempts: number
+          monthly_budget: number | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          rate_per_second: number
+          retry_base_seconds: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          billing_provider?: string | null
+          budget_paused_at?: string | null
+          currency?: string
+          default_country?: string
+          id?: boolean
+          max_attempts?: number
+          monthly_budget?: number | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          rate_per_second?: number
+          retry_base_seconds?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          billing_provider?: string | null
+          budget_paused_at?: string | null
+          currency?: string
+          default_country?: string
+          id?: boolean
+          max_attempts?: number
+          monthly_budget?: number | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          rate_per_second?: number
+          retry_base_seconds?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sms_template_variants: {
+        Row: {
+          body: string
           created_at: string
-          grade: string
-          grade_point: number
           id: string
-          score: number
-          semester_id: string
-          sms_sent: boolean | null
-          student_id: string
+          language: string
+          subject: string | null
+          template_id: string
           updated_at: string
         }
         Insert: {
-          course_id: string
+          body: string
           created_at?: string
-          grade: string
-          grade_point: number
           id?: string
-          score: number
-          semester_id: string
-          sms_sent?: boolean | null
-          student_id: string
+          language: string
+          subject?: string | null
+          template_id: string
           updated_at?: string
         }
         Update: {
-          course_id?: string
+          body?: string
           created_at?: string
-          grade?: string
-          grade_point?: number
           id?: string
-          score?: number
-          semester_id?: string
-          sms_sent?: boolean | null
-          student_id?: string
+          language?: string
+          subject?: string | null
+          template_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "results_course_id_fkey"
-            columns: ["course_id"]
-            isOneToOne: false
-            referencedRelation: "courses"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "results_semester_id_fkey"
-            columns: ["semester_id"]
-            isOneToOne: false
-            referencedRelation: "semesters"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "results_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "sms_template_variants_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "students"
+            referencedRelation: "sms_templates"
             referencedColumns: ["id"]
           },
         ]
       }
-      semesters: {
+      sms_templates: {
         Row: {
+          body: string
+          channel: Database["public"]["Enums"]["notification_channel"]
           created_at: string
-          end_date: string
           id: string
-          is_current: boolean | null
+          is_default: boolean
           name: string
-          start_date: string
-          year: number
+          purpose: string
+          subject: string | null
+          updated_at: string
         }
         Insert: {
+          body: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
           created_at?: string
-          end_date: string
           id?: string
-          is_current?: boolean | null
+          is_default?: boolean
           name: string
-          start_date: string
-          year: number
+          purpose?: string
+          subject?: string | null
+          updated_at?: string
         }
         Update: {
+          body?: string
+          channel?: Database["public"]["Enums"]["notification_channel"]
           created_at?: string
-          end_date?: string
           id?: string
-          is_current?: boolean | null
+          is_default?: boolean
           name?: string
-          start_date?: string
-          year?: number
+          purpose?: string
+          subject?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
+      student_contacts: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          notify_email: boolean
+          notify_email_updated_at: string | null
+          notify_sms: boolean
+          notify_sms_updated_at: string | null
+          phone_number: string | null
+          preferred_language: string
+          relationship: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          notify_email?: boolean
+          notify_email_updated_at?: string | null
+          notify_sms?: boolean
+          notify_sms_updated_at?: string | null
+          phone_number?: string | null
+          preferred_language?: string
+          relationship?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          notify_email?: boolean
+          notify_email_updated_at?: string | null
+          notify_sms?: boolean
+          notify_sms_updated_at?: string | null
+          phone_number?: string | null
+          preferred_language?: string
+          relationship?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_contacts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
+          advisor_id: string | null
+          archived_at: string | null
+          archived_by: string | null
           created_at: string
+          department: string | null
           email: string
+          email_consent: boolean
+          email_consent_updated_at: string | null
           first_name: string
           id: string
           last_name: string
+          phone_invalid_at: string | null
+          phone_invalid_reason: string | null
           phone_number: string
+          preferred_language: string
           program: string
+          risk_level: string
+          risk_level_changed_at: string | null
+          sms_consent: boolean
+          sms_consent_updated_at: string | null
           student_id: string
           updated_at: string
+          user_id: string | null
           year_of_study: number
         }
         Insert: {
+          advisor_id?: string | null
+          archived_at?: string | null
+          archived_by?: string | null
           created_at?: string
+          department?: string | null
           email: string
+          email_consent?: boolean
+          email_consent_updated_at?: string | null
           first_name: string
           id?: string
           last_name: string
+          phone_invalid_at?: string | null
+          phone_invalid_reason?: string | null
           phone_number: string
+          preferred_language?: string
           program: string
+          risk_level?: string
+          risk_level_changed_at?: string | null
+          sms_consent?: boolean
+          sms_consent_updated_at?: string | null
           student_id: string
           updated_at?: string
+          user_id?: string | null
           year_of_study: number
         }
         Update: {
+          advisor_id?: string | null
+          archived_at?: string | null
+          archived_by?: string | null
           created_at?: string
+          department?: string | null
           email?: string
+          email_consent?: boolean
+          email_consent_updated_at?: string | null
           first_name?: string
           id?: string
           last_name?: string
+          phone_invalid_at?: string | null
+          phone_invalid_reason?: string | null
           phone_number?: string
+          preferred_language?: string
           program?: string
+          risk_level?: string
+          risk_level_changed_at?: string | null
+          sms_consent?: boolean
+          sms_consent_updated_at?: string | null
           student_id?: string
           updated_at?: string
+          user_id?: string | null
           year_of_study?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "students_advisor_id_fkey"
+            columns: ["advisor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_archived_by_fkey"
+            columns: ["archived_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_sms_receipt: {
+        Args: { _provider: string; _provider_message_id: string; _status: Database["public"]["Enums"]["sms_status"]; _error?: string; _invalid_number?: boolean }
+        Returns: string
+      }
       calculate_grade: {
-        Args: { score: number }
+        Args: { score: number; _grading_scale_id?: string }
         Returns: {
           grade: string
           grade_point: number
+          is_pass: boolean
+        }[]
+      }
+      campaign_audience: {
+        Args: { _program?: string; _year_of_study?: number; _min_cgpa?: number; _max_cgpa?: number; _risk_level?: string; _missing_results_semester_id?: string }
+        Returns: {
+          id: string
+          student_id: string
+          first_name: string
+          last_name: string
+          program: string
+          year_of_study: number
+          phone_number: string
+          email: string
+          sms_consent: boolean
+          email_consent: boolean
+          risk_level: string
+          cgpa: number
+        }[]
+      }
+      cancel_sms_batch: {
+        Args: { _batch_id: string }
+        Returns: number
+      }
+      claim_sms_messages: {
+        Args: { _limit: number }
+        Returns: Database["public"]["Tables"]["sms_messages"]["Row"][]
+      }
+      create_sms_campaign: {
+        Args: { _campaign: Json; _recipients: Json; _scheduled_for?: string }
+        Returns: string
+      }
+      decide_result_notifications: {
+        Args: { _approve: boolean; _result_ids: string[] }
+        Returns: number
+      }
+      enqueue_sms_messages: {
+        Args: { _batch_id: string; _messages: Json }
+        Returns: {
+          id: string
+          idempotency_key: string
+          status: Database["public"]["Enums"]["sms_status"]
+        }[]
+      }
+      find_students_by_phone: {
+        Args: { _phone: string }
+        Returns: Database["public"]["Tables"]["students"]["Row"][]
+      }
+      grant_admin: {
+        Args: { _email: string }
+        Returns: undefined
+      }
+      has_any_role: {
+        Args: { _user_id: string; _roles: Database["public"]["Enums"]["app_role"][] }
+        Returns: boolean
+      }
+      has_role: {
+        Args: { _user_id: string; _role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      is_course_lecturer: {
+        Args: { _user_id: string; _course_id: string }
+        Returns: boolean
+      }
+      is_records_staff: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_student_advisor: {
+        Args: { _user_id: string; _student_id: string }
+        Returns: boolean
+      }
+      is_student_self: {
+        Args: { _user_id: string; _student_id: string }
+        Returns: boolean
+      }
+      link_student_account: {
+        Args: { _email: string; _user_id: string }
+        Returns: undefined
+      }
+      missing_results: {
+        Args: { _semester_id: string; _course_id?: string }
+        Returns: {
+          registration_id: string
+          student_id: string
+          first_name: string
+          last_name: string
+          program: string
+          course_code: string
+          course_name: string
+        }[]
+      }
+      pause_sms_budget: {
+        Args: { _spent: number }
+        Returns: undefined
+      }
+      phone_matches: {
+        Args: { _stored: string; _incoming: string }
+        Returns: boolean
+      }
+      recompute_all_cgpa: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      recompute_student_cgpa: {
+        Args: { _student_id: string; _from_semester_id?: string }
+        Returns: undefined
+      }
+      regrade_results: {
+        Args: { _grading_scale_id?: string }
+        Returns: number
+      }
+      release_result_outbox: {
+        Args: { _error: string; _ids: string[] }
+        Returns: undefined
+      }
+      release_risk_alerts: {
+        Args: { _error: string; _ids: string[] }
+        Returns: undefined
+      }
+      replace_grade_bands: {
+        Args: { _grading_scale_id: string; _bands: Json }
+        Returns: number
+      }
+      resolve_grading_scale: {
+        Args: { _student_id: string; _course_id: string }
+        Returns: string
+      }
+      save_course: {
+        Args: { _course: Json; _course_id: string; _prerequisite_ids: string[] }
+        Returns: string
+      }
+      scheduled_sms_batches: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          label: string
+          scheduled_for: string
+          created_at: string
+          waiting: number
+          next_send_at: string
+        }[]
+      }
+      semester_results_released: {
+        Args: { _semester_id: string; _student_id: string }
+        Returns: boolean
+      }
+      set_current_semester: {
+        Args: { _semester_id: string }
+        Returns: undefined
+      }
+      set_default_grading_scale: {
+        Args: { _grading_scale_id: string }
+        Returns: undefined
+      }
+      set_email_consent: {
+        Args: { _student_id: string; _consented: boolean; _note?: string }
+        Returns: undefined
+      }
+      set_sms_consent: {
+        Args: { _student_id: string; _consented: boolean; _note?: string }
+        Returns: undefined
+      }
+      set_sms_consent_by_phone: {
+        Args: { _phone: string; _consented: boolean; _note?: string; _source?: string }
+        Returns: string[]
+      }
+      sms_budget_allows: {
+        Args: { _cost: number }
+        Returns: boolean
+      }
+      sms_budget_exhausted: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      sms_budget_remaining: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      sms_month_spend: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      sms_spend_by_department: {
+        Args: { _month?: string }
+        Returns: {
+          department: string
+          messages: number
+          segments: number
+          cost: number
+        }[]
+      }
+      stop_messages_to_student: {
+        Args: { _student_id: string }
+        Returns: undefined
+      }
+      student_dependents: {
+        Args: { _student_id: string }
+        Returns: {
+          results: number
+          cgpa_records: number
+          contacts: number
+          messages: number
+          risk_alerts: number
         }[]
       }
+      student_max_grade_point: {
+        Args: { _student_id: string }
+        Returns: number
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role:
+        | "admin"
+        | "registry"
+        | "lecturer"
+        | "advisor"
+        | "student"
+      notification_channel:
+        | "sms"
+        | "email"
+      sms_status:
+        | "queued"
+        | "sent"
+        | "delivered"
+        | "failed"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -354,6 +1826,10 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "registry", "lecturer", "advisor", "student"],
+      notification_channel: ["sms", "email"],
+      sms_status: ["queued", "sent", "delivered", "failed", "cancelled"],
+    },
   },
 } as const
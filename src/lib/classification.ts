@@ -0,0 +1,2 @@
+// Shared with the USSD menu, which tells students their classification
+export * from "../../supabase/functions/_shared/classification";
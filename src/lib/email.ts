@@ -0,0 +1,2 @@
+// The address checks are shared with the edge functions
+export * from "../../supabase/functions/_shared/email/address";
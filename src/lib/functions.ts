@@ -0,0 +1,18 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Invokes a Supabase edge function and surfaces the function's own error
+// message instead of the generic "non-2xx status code" one.
+export const invokeEdgeFunction = async <T = unknown>(name: string, body?: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      throw new Error(payload?.error || error.message);
+    }
+    throw error;
+  }
+
+  return data as T;
+};
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Grading scales live in the database (grading_scales / grade_bands). The
+// database grades every result on insert via calculate_grade; this module
+// mirrors that lookup so the UI can preview grades before saving.
+
+export interface GradeBand {
+  id?: string;
+  letter: string;
+  min_score: number;
+  grade_point: number;
+  is_pass: boolean;
+}
+
+export interface GradingScale {
+  id: string;
+  name: string;
+  description: string | null;
+  max_grade_point: number;
+  is_default: boolean;
+  grade_bands: GradeBand[];
+}
+
+export interface GradingConfig {
+  scales: GradingScale[];
+  programScales: Record<string, string>;
+}
+
+export const fetchGradingConfig = async (): Promise<GradingConfig> => {
+  const [scalesData, programData] = await Promise.all([
+    supabase.from('grading_scales').select('*, grade_bands (id, letter, min_score, grade_point, is_pass)').order('name'),
+    supabase.from('program_grading_scales').select('program, grading_scale_id'),
+  ]);
+
+  if (scalesData.error) throw scalesData.error;
+  if (programData.error) throw programData.error;
+
+  const programScales = (programData.data || []).reduce((acc: Record<string, string>, row) => {
+    acc[row.program] = row.grading_scale_id;
+    return acc;
+  }, {});
+
+  return { scales: scalesData.data || [], programScales };
+};
+
+// Same precedence as resolve_grading_scale: course, then program, then default
+export const resolveScale = (
+  config: GradingConfig,
+  course?: { grading_scale_id?: string | null },
+  program?: string
+): GradingScale | undefined => {
+  const scaleId = course?.grading_scale_id || (program && config.programScales[program]);
+  return config.scales.find((scale) => scale.id === scaleId) || config.scales.find((scale) => scale.is_default);
+};
+
+export const gradeForScore = (scale: GradingScale | undefined, score: number): GradeBand | undefined => {
+  if (!scale) return undefined;
+  return [...scale.grade_bands]
+    .sort((a, b) => b.min_score - a.min_score)
+    .find((band) => score >= band.min_score);
+};
+
+// Badge colours key off the base letter so "B+" and "B-" look like "B"
+export const getGradeColor = (grade: string) => {
+  switch (grade?.charAt(0)) {
+    case 'A': return 'bg-success text-success-foreground';
+    case 'B': return 'bg-primary text-primary-foreground';
+    case 'C': return 'bg-accent text-accent-foreground';
+    case 'D': return 'bg-warning text-warning-foreground';
+    case 'E': case 'F': return 'bg-destructive text-destructive-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
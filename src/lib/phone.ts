@@ -0,0 +1,10 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_COUNTRY } from "../../supabase/functions/_shared/phone";
+
+// The normalisation rules are shared with the edge functions
+export * from "../../supabase/functions/_shared/phone";
+
+export const fetchDefaultCountry = async (): Promise<string> => {
+  const { data } = await supabase.from('sms_settings').select('default_country').maybeSingle();
+  return data?.default_country || DEFAULT_COUNTRY;
+};
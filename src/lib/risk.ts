@@ -0,0 +1,2 @@
+// The risk rules are shared with the alert queueing in the edge functions
+export * from "../../supabase/functions/_shared/risk";
@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Semesters belong to academic sessions (2024/2025) and are ordered by
+// sort_order, which stays chronological when two semesters share a calendar
+// year. The database keeps exactly one semester current.
+
+export interface CurrentSemester {
+  id: string;
+  name: string;
+  year: number;
+  academic_sessions: { name: string };
+}
+
+export const fetchCurrentSemester = async (): Promise<CurrentSemester | null> => {
+  const { data, error } = await supabase
+    .from('semesters')
+    .select('id, name, year, academic_sessions (name)')
+    .eq('is_current', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SmsPrice } from "../../supabase/functions/_shared/sms/pricing";
+
+// The pricing rules are shared with the edge functions
+export * from "../../supabase/functions/_shared/sms/pricing";
+
+export interface SmsPricing {
+  currency: string;
+  // Provider whose prices estimates use
+  provider: string | null;
+  prices: SmsPrice[];
+  // What is left of this month's budget, or null when there is none
+  remainingBudget: number | null;
+}
+
+export const fetchSmsPricing = async (): Promise<SmsPricing> => {
+  const [{ data: settings }, { data: prices }, { data: remaining }] = await Promise.all([
+    supabase.from('sms_settings').select('currency, billing_provider').maybeSingle(),
+    supabase.from('sms_prices').select('provider, country, price_per_segment'),
+    supabase.rpc('sms_budget_remaining'),
+  ]);
+  return {
+    currency: settings?.currency || "NGN",
+    provider: settings?.billing_provider ?? null,
+    prices: prices || [],
+    remainingBudget: remaining ?? null,
+  };
+};
@@ -0,0 +1,3 @@
+// The template module lives with the edge functions so replies to inbound
+// texts are rendered exactly like the notifications sent from the Notifications tab
+export * from "../../supabase/functions/_shared/sms/template";
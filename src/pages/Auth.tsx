@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GraduationCap } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+const Auth = () => {
+  const { session } = useAuth();
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    full_name: "",
+    email: "",
+    password: ""
+  });
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  if (session) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSignIn = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({
+        email: formData.email,
+        password: formData.password,
+      });
+
+      if (error) throw error;
+      navigate("/");
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign in",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignUp = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signUp({
+        email: formData.email,
+        password: formData.password,
+        options: {
+          emailRedirectTo: `${window.location.origin}/`,
+          data: { full_name: formData.full_name },
+        },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Account Created",
+        description: "Check your email to confirm your account, then sign in",
+      });
+    } catch (error) {
+      console.error('Error signing up:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create account",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-6">
+      <Card className="w-full max-w-md shadow-card">
+        <CardHeader className="text-center">
+          <div className="mx-auto h-12 w-12 rounded-full bg-gradient-to-r from-primary to-accent flex items-center justify-center mb-2">
+            <GraduationCap className="h-7 w-7 text-white" />
+          </div>
+          <CardTitle>UniResults</CardTitle>
+          <CardDescription>Sign in to the Student Result Management System</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="signin">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="signin">Sign In</TabsTrigger>
+              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="signin" className="space-y-4">
+              <div>
+                <Label htmlFor="signin_email">Email</Label>
+                <Input
+                  id="signin_email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({...formData, email: e.target.value})}
+                  placeholder="you@university.edu"
+                />
+              </div>
+              <div>
+                <Label htmlFor="signin_password">Password</Label>
+                <Input
+                  id="signin_password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({...formData, password: e.target.value})}
+                />
+              </div>
+              <Button
+                onClick={handleSignIn}
+                disabled={submitting || !formData.email || !formData.password}
+                className="w-full"
+              >
+                {submitting ? "Signing in..." : "Sign In"}
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="signup" className="space-y-4">
+              <div>
+                <Label htmlFor="full_name">Full Name</Label>
+                <Input
+                  id="full_name"
+                  value={formData.full_name}
+                  onChange={(e) => setFormData({...formData, full_name: e.target.value})}
+                  placeholder="John Doe"
+                />
+              </div>
+              <div>
+                <Label htmlFor="signup_email">Email</Label>
+                <Input
+                  id="signup_email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({...formData, email: e.target.value})}
+                  placeholder="you@university.edu"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Students should use the email on their student record
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="signup_password">Password</Label>
+                <Input
+                  id="signup_password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({...formData, password: e.target.value})}
+                />
+              </div>
+              <Button
+                onClick={handleSignUp}
+                disabled={submitting || !formData.email || !formData.password}
+                className="w-full"
+              >
+                {submitting ? "Creating account..." : "Create Account"}
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -1,16 +1,94 @@
-import { useState } from "react";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useState, useEffect } from "react";
+import { Navigate } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { GraduationCap, BarChart3, MessageSquare, Users, TrendingUp, Award } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { GraduationCap, BarChart3, Bell, Users, BookOpen, ClipboardList, TrendingUp, Award, Settings, LogOut, type LucideIcon } from "lucide-react";
 import StudentManagement from "@/components/StudentManagement";
+import CourseManagement from "@/components/CourseManagement";
+import CourseRegistration from "@/components/CourseRegistration";
 import ResultEntry from "@/components/ResultEntry";
 import CGPAAnalyzer from "@/components/CGPAAnalyzer";
-import SMSNotifications from "@/components/SMSNotifications";
+import Notifications from "@/components/Notifications";
 import Dashboard from "@/components/Dashboard";
+import GradingScales from "@/components/GradingScales";
+import AccessManagement from "@/components/AccessManagement";
+import SMSSettings from "@/components/SMSSettings";
+import SMSPricing from "@/components/SMSPricing";
+import EmailSettings from "@/components/EmailSettings";
+import RiskAlertSettings from "@/components/RiskAlertSettings";
+import ResultNotificationSettings from "@/components/ResultNotificationSettings";
+import AcademicCalendar from "@/components/AcademicCalendar";
+import RegistrationSettings from "@/components/RegistrationSettings";
+import { useAuth, type AppRole } from "@/hooks/use-auth";
+import { fetchCurrentSemester, type CurrentSemester } from "@/lib/semesters";
+
+interface TabDefinition {
+  value: string;
+  label: string;
+  icon: LucideIcon;
+  roles: AppRole[];
+  content: JSX.Element;
+}
 
 const Index = () => {
+  const { session, user, roles, loading, hasRole, signOut } = useAuth();
   const [activeTab, setActiveTab] = useState("dashboard");
+  const [currentSemester, setCurrentSemester] = useState<CurrentSemester | null>(null);
+
+  const loadCurrentSemester = () => {
+    fetchCurrentSemester()
+      .then(setCurrentSemester)
+      .catch((error) => console.error('Error fetching current semester:', error));
+  };
+
+  useEffect(() => {
+    if (session) loadCurrentSemester();
+  }, [session]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="h-10 w-10 rounded-full bg-muted animate-pulse"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const tabs: TabDefinition[] = [
+    { value: "dashboard", label: "Dashboard", icon: BarChart3, roles: ["admin", "registry", "lecturer", "advisor"], content: <Dashboard /> },
+    { value: "students", label: "Students", icon: Users, roles: ["admin", "registry", "advisor"], content: <StudentManagement /> },
+    { value: "courses", label: "Courses", icon: BookOpen, roles: ["admin", "registry"], content: <CourseManagement /> },
+    { value: "registration", label: "Registration", icon: ClipboardList, roles: ["admin", "registry", "advisor"], content: <CourseRegistration /> },
+    { value: "results", label: "Results", icon: Award, roles: ["admin", "registry", "lecturer"], content: <ResultEntry /> },
+    { value: "cgpa", label: "CGPA Analysis", icon: TrendingUp, roles: ["admin", "registry", "advisor", "student"], content: <CGPAAnalyzer /> },
+    { value: "notifications", label: "Notifications", icon: Bell, roles: ["admin", "registry"], content: <Notifications /> },
+    {
+      value: "settings",
+      label: "Settings",
+      icon: Settings,
+      roles: ["admin", "registry"],
+      content: (
+        <>
+          <AcademicCalendar onCurrentChange={loadCurrentSemester} />
+          <RegistrationSettings />
+          <GradingScales />
+          <SMSSettings />
+          <SMSPricing />
+          <EmailSettings />
+          <ResultNotificationSettings />
+          <RiskAlertSettings />
+          {hasRole("admin") && <AccessManagement />}
+        </>
+      ),
+    },
+  ];
+
+  const visibleTabs = tabs.filter((tab) => hasRole(...tab.roles));
+  const currentTab = visibleTabs.some((tab) => tab.value === activeTab) ? activeTab : visibleTabs[0]?.value;
 
   return (
     <div className="min-h-screen bg-background">
@@ -27,11 +105,25 @@ const Index = () => {
                 <p className="text-sm text-muted-foreground">Student Result Management System</p>
               </div>
             </div>
-            <div className="hidden md:flex items-center space-x-4">
-              <div className="text-right">
-                <p className="text-sm font-medium text-foreground">Academic Year 2024</p>
-                <p className="text-xs text-muted-foreground">Fall Semester</p>
+            <div className="flex items-center space-x-4">
+              <div className="hidden md:block text-right">
+                <p className="text-sm font-medium text-foreground">
+                  {currentSemester ? `Academic Year ${currentSemester.academic_sessions.name}` : "Academic Year"}
+                </p>
+                <p className="text-xs text-muted-foreground">{currentSemester?.name ?? "No current semester"}</p>
               </div>
+              <div className="hidden md:block text-right border-l pl-4">
+                <p className="text-sm font-medium text-foreground">{user?.email}</p>
+                <div className="flex justify-end space-x-1">
+                  {roles.map((role) => (
+                    <Badge key={role} variant="secondary" className="capitalize">{role}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={signOut}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
             </div>
           </div>
         </div>
@@ -39,50 +131,29 @@ const Index = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-5 mb-8">
-            <TabsTrigger value="dashboard" className="flex items-center space-x-2">
-              <BarChart3 className="h-4 w-4" />
-              <span className="hidden sm:inline">Dashboard</span>
-            </TabsTrigger>
-            <TabsTrigger value="students" className="flex items-center space-x-2">
-              <Users className="h-4 w-4" />
-              <span className="hidden sm:inline">Students</span>
-            </TabsTrigger>
-            <TabsTrigger value="results" className="flex items-center space-x-2">
-              <Award className="h-4 w-4" />
-              <span className="hidden sm:inline">Results</span>
-            </TabsTrigger>
-            <TabsTrigger value="cgpa" className="flex items-center space-x-2">
-              <TrendingUp className="h-4 w-4" />
-              <span className="hidden sm:inline">CGPA Analysis</span>
-            </TabsTrigger>
-            <TabsTrigger value="sms" className="flex items-center space-x-2">
-              <MessageSquare className="h-4 w-4" />
-              <span className="hidden sm:inline">SMS</span>
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="dashboard" className="space-y-6">
-            <Dashboard />
-          </TabsContent>
-
-          <TabsContent value="students" className="space-y-6">
-            <StudentManagement />
-          </TabsContent>
+        {visibleTabs.length > 0 ? (
+          <Tabs value={currentTab} onValueChange={setActiveTab} className="w-full">
+            <TabsList className="grid w-full mb-8" style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}>
+              {visibleTabs.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value} className="flex items-center space-x-2">
+                  <tab.icon className="h-4 w-4" />
+                  <span className="hidden sm:inline">{tab.label}</span>
+                </TabsTrigger>
+              ))}
+            </TabsList>
 
-          <TabsContent value="results" className="space-y-6">
-            <ResultEntry />
-          </TabsContent>
-
-          <TabsContent value="cgpa" className="space-y-6">
-            <CGPAAnalyzer />
-          </TabsContent>
-
-          <TabsContent value="sms" className="space-y-6">
-            <SMSNotifications />
-          </TabsContent>
-        </Tabs>
+            {visibleTabs.map((tab) => (
+              <TabsContent key={tab.value} value={tab.value} className="space-y-6">
+                {tab.content}
+              </TabsContent>
+            ))}
+          </Tabs>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Your account has no role yet. Ask an administrator to grant you access.</p>
+          </div>
+        )}
       </main>
     </div>
   );
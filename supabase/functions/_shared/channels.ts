@@ -0,0 +1,50 @@
+import { getEmailProvider, type EmailProvider } from './email/index.ts';
+import { getSmsProvider } from './sms/index.ts';
+import { htmlToText } from './sms/template.ts';
+import type { SendResult, SmsProvider } from './sms/types.ts';
+
+export type Channel = 'sms' | 'email';
+
+// The parts of an sms_messages row a channel needs to send it
+export interface ChannelMessage {
+  id: string;
+  channel?: Channel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+}
+
+// One delivery channel behind a common interface, so the queue and
+// deliverMessage do not care whether a row is a text or an email
+export interface ChannelSender {
+  // Provider name, stored in sms_messages.provider
+  name: string;
+  send(message: ChannelMessage): Promise<SendResult>;
+}
+
+export const smsSender = (provider: SmsProvider): ChannelSender => ({
+  name: provider.name,
+  send: (message) => provider.send({ to: message.recipient, body: message.body, reference: message.id }),
+});
+
+export const emailSender = (provider: EmailProvider): ChannelSender => ({
+  name: provider.name,
+  send: (message) =>
+    provider.send({
+      to: message.recipient,
+      subject: message.subject ?? '',
+      html: message.body,
+      text: htmlToText(message.body),
+      reference: message.id,
+    }),
+});
+
+// Providers are created on first use, so a deployment that only sends SMS
+// needs no SMTP settings and vice versa
+export const createChannelSenders = () => {
+  const senders: Partial<Record<Channel, ChannelSender>> = {};
+  return (channel: Channel = 'sms'): ChannelSender => {
+    senders[channel] ??= channel === 'email' ? emailSender(getEmailProvider()) : smsSender(getSmsProvider());
+    return senders[channel]!;
+  };
+};
@@ -0,0 +1,18 @@
+// Degree classification by CGPA. The bands are set on the 4.0 scale and
+// stretched to the student's grading scale, so on a 5-point scale First
+// Class starts at 4.625. No imports, so the app (via
+// src/lib/classification.ts) and the edge functions classify alike.
+
+export const CLASSIFICATION_BANDS = [
+  { min: 3.7, label: "First Class Honours" },
+  { min: 3.3, label: "Second Class Honours (Upper Division)" },
+  { min: 2.7, label: "Second Class Honours (Lower Division)" },
+  { min: 2.0, label: "Third Class Honours" },
+  { min: 0, label: "Pass" },
+] as const;
+
+// A 4.0-scale CGPA on a scale whose best grade point is maxGradePoint
+export const onScale = (cgpa: number, maxGradePoint = 4) => (cgpa * maxGradePoint) / 4;
+
+export const getClassification = (cgpa: number, maxGradePoint = 4): string =>
+  CLASSIFICATION_BANDS.find((band) => cgpa >= onScale(band.min, maxGradePoint))?.label ?? "Pass";
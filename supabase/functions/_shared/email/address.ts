@@ -0,0 +1,11 @@
+// Email address checks. No imports, so the app (via src/lib/email.ts) and the
+// edge functions agree on which addresses can be sent to.
+
+// The same check the database applies before queueing an email
+export const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// Trimmed and lower-cased, or null when it cannot be sent to
+export const sendableEmail = (email: string | null | undefined) => {
+  const trimmed = (email ?? "").trim().toLowerCase();
+  return EMAIL_PATTERN.test(trimmed) ? trimmed : null;
+};
@@ -0,0 +1,22 @@
+import type { EmailProvider, OutboundEmail, SendResult } from './types.ts';
+
+// Development and test sink: accepts every email and logs it, optionally
+// appending one JSON line per email to EMAIL_SINK_FILE.
+export const createConsoleEmailProvider = (): EmailProvider => {
+  const sinkFile = Deno.env.get('EMAIL_SINK_FILE');
+
+  return {
+    name: 'console',
+    async send(message: OutboundEmail): Promise<SendResult> {
+      const providerMessageId = `console-${crypto.randomUUID()}`;
+      const entry = { id: providerMessageId, ...message, sent_at: new Date().toISOString() };
+
+      console.log(`[email:console] to=${message.to} subject=${message.subject}`);
+      if (sinkFile) {
+        await Deno.writeTextFile(sinkFile, `${JSON.stringify(entry)}\n`, { append: true });
+      }
+
+      return { accepted: true, providerMessageId };
+    },
+  };
+};
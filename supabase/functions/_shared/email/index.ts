@@ -0,0 +1,21 @@
+import { createConsoleEmailProvider } from './console-sink.ts';
+import { createSmtpProvider } from './smtp.ts';
+import type { EmailProvider } from './types.ts';
+
+export type { EmailProvider, OutboundEmail } from './types.ts';
+
+const providers: Record<string, () => EmailProvider> = {
+  smtp: createSmtpProvider,
+  console: createConsoleEmailProvider,
+};
+
+// Selected with the EMAIL_PROVIDER secret; like SMS it defaults to the
+// console sink so a fresh project never emails real students by accident.
+export const getEmailProvider = (): EmailProvider => {
+  const name = (Deno.env.get('EMAIL_PROVIDER') || 'console').toLowerCase();
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown EMAIL_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return factory();
+};
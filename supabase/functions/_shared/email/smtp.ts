@@ -0,0 +1,53 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { requireEnv } from '../sms/types.ts';
+import type { EmailProvider, OutboundEmail, SendResult } from './types.ts';
+
+// SMTP reply codes 4xx are transient (mailbox busy, greylisting, rate limits)
+const isTransientSmtpError = (message: string) => /\b4\d\d\b/.test(message) || /timed? ?out|connection/i.test(message);
+
+// Any SMTP server: a relay such as SES, Mailgun or Postmark, the university's
+// own mail server, or a local catch-all like Mailpit for testing.
+export const createSmtpProvider = (): EmailProvider => {
+  const hostname = requireEnv('SMTP_HOST');
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const from = requireEnv('SMTP_FROM');
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+  // Catch-all test servers speak plain SMTP without STARTTLS
+  const allowInsecure = Deno.env.get('SMTP_ALLOW_INSECURE') === 'true';
+
+  return {
+    name: 'smtp',
+    async send(message: OutboundEmail): Promise<SendResult> {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls,
+          auth: username ? { username, password: password ?? '' } : undefined,
+        },
+        debug: { allowUnsecure: allowInsecure, noStartTLS: allowInsecure && !tls },
+      });
+
+      const providerMessageId = `<${message.reference ?? crypto.randomUUID()}@${hostname}>`;
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+          headers: { 'Message-ID': providerMessageId },
+        });
+        return { accepted: true, providerMessageId };
+      } catch (error) {
+        const text = error instanceof Error ? error.message : String(error);
+        return { accepted: false, error: `SMTP: ${text}`, retryable: isTransientSmtpError(text) };
+      } finally {
+        await client.close().catch(() => {});
+      }
+    },
+  };
+};
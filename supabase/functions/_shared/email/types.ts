@@ -0,0 +1,18 @@
+import type { SendResult } from '../sms/types.ts';
+
+export type { SendResult } from '../sms/types.ts';
+
+export interface OutboundEmail {
+  to: string;
+  subject: string;
+  html: string;
+  // Plain-text alternative for clients that do not show HTML
+  text: string;
+  // Our sms_messages id, sent as a header so bounces can be traced
+  reference?: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: OutboundEmail): Promise<SendResult>;
+}
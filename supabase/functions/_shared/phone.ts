@@ -0,0 +1,92 @@
+// Phone number normalisation to E.164 (+<country code><national number>).
+// Numbers typed without a country code are read as numbers in the default
+// country (sms_settings.default_country). No imports, so the app (via
+// src/lib/phone.ts), the edge functions and scripts validate alike.
+
+export interface Country {
+  code: string;
+  name: string;
+  callingCode: string;
+  // Digits after the country code, without the trunk prefix
+  nationalLengths: number[];
+  // Dialled before national numbers inside the country, e.g. 0803... in Nigeria
+  trunkPrefix?: string;
+}
+
+export const COUNTRIES: Country[] = [
+  { code: "NG", name: "Nigeria", callingCode: "234", nationalLengths: [10], trunkPrefix: "0" },
+  { code: "GH", name: "Ghana", callingCode: "233", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "KE", name: "Kenya", callingCode: "254", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "UG", name: "Uganda", callingCode: "256", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "TZ", name: "Tanzania", callingCode: "255", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "RW", name: "Rwanda", callingCode: "250", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "ZA", name: "South Africa", callingCode: "27", nationalLengths: [9], trunkPrefix: "0" },
+  { code: "GB", name: "United Kingdom", callingCode: "44", nationalLengths: [10], trunkPrefix: "0" },
+  { code: "IN", name: "India", callingCode: "91", nationalLengths: [10], trunkPrefix: "0" },
+  { code: "US", name: "United States / Canada", callingCode: "1", nationalLengths: [10], trunkPrefix: "1" },
+];
+
+export const DEFAULT_COUNTRY = "NG";
+
+// The same check the database applies before queueing a message
+export const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export interface PhoneCheck {
+  valid: boolean;
+  // Set when valid
+  e164: string | null;
+  // Set when not
+  error: string | null;
+}
+
+const valid = (e164: string): PhoneCheck => ({ valid: true, e164, error: null });
+const invalid = (error: string): PhoneCheck => ({ valid: false, e164: null, error });
+
+const withCountry = (country: Country, national: string): PhoneCheck =>
+  country.nationalLengths.includes(national.length)
+    ? valid(`+${country.callingCode}${national}`)
+    : invalid(`Not a valid ${country.name} number`);
+
+// Longest calling code first, so +1 never shadows a longer code
+const countryForDigits = (digits: string) =>
+  [...COUNTRIES]
+    .sort((a, b) => b.callingCode.length - a.callingCode.length)
+    .find((country) => digits.startsWith(country.callingCode));
+
+// "0803 123 4567", "234-803-123-4567" and "+2348031234567" all become
+// "+2348031234567" with Nigeria as the default country
+export const normalisePhone = (input: string, defaultCountry: string = DEFAULT_COUNTRY): PhoneCheck => {
+  const trimmed = input.trim();
+  if (!trimmed) return invalid("Phone number is required");
+  if (/[^\d\s\-().+]/.test(trimmed)) return invalid("Phone number can only contain digits, spaces, dashes and a leading +");
+
+  const digits = trimmed.replace(/\D/g, "");
+
+  // Explicitly international: +234... or 00234...
+  if (trimmed.startsWith("+") || trimmed.startsWith("00")) {
+    const international = trimmed.startsWith("+") ? digits : digits.slice(2);
+    const country = countryForDigits(international);
+    if (country) return withCountry(country, international.slice(country.callingCode.length));
+    return E164_PATTERN.test(`+${international}`)
+      ? valid(`+${international}`)
+      : invalid("Not a valid international number");
+  }
+
+  const country = COUNTRIES.find((candidate) => candidate.code === defaultCountry);
+  if (!country) return invalid(`Unknown default country ${defaultCountry}`);
+
+  // Country code typed without the +, e.g. 234-803-...
+  const afterCode = digits.slice(country.callingCode.length);
+  if (digits.startsWith(country.callingCode) && country.nationalLengths.includes(afterCode.length)) {
+    return withCountry(country, afterCode);
+  }
+
+  const national = country.trunkPrefix && digits.startsWith(country.trunkPrefix)
+    && !country.nationalLengths.includes(digits.length)
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+  return withCountry(country, national);
+};
+
+// ISO code of the country an E.164 number belongs to, if it is one we know
+export const countryOfNumber = (e164: string) => countryForDigits(e164.replace(/\D/g, ""))?.code ?? null;
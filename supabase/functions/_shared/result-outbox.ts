@@ -0,0 +1,380 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalisePhone } from './phone.ts';
+import { sendableEmail } from './email/address.ts';
+import {
+  composeSemesterSummary,
+  courseTableHtml,
+  formatGpa,
+  renderHtmlTemplate,
+  renderTemplate,
+  resultTemplateValues,
+  templateInLanguage,
+  type CourseTableRow,
+  type TemplateValues,
+  type TemplateVariant,
+} from './sms/template.ts';
+import type { SmsSettings } from './sms/settings.ts';
+
+// Outbox rows handled per worker run; the rest wait for the next one
+const CLAIM_LIMIT = 200;
+
+type Channel = 'sms' | 'email';
+
+interface NotificationSettings {
+  policy: 'immediate' | 'semester' | 'approval';
+  channel: Channel | 'both';
+  audience: 'students' | 'guardians' | 'both';
+}
+
+const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  policy: 'approval',
+  channel: 'sms',
+  audience: 'students',
+};
+
+const CHANNELS: Record<NotificationSettings['channel'], Channel[]> = {
+  sms: ['sms'],
+  email: ['email'],
+  both: ['sms', 'email'],
+};
+
+interface OutboxRow {
+  id: string;
+  result_id: string;
+  student_id: string;
+  semester_id: string;
+  event: 'published' | 'corrected';
+  decided_at: string | null;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone_number: string | null;
+  email: string | null;
+  notify_sms: boolean;
+  notify_email: boolean;
+  preferred_language: string;
+}
+
+interface OutboxResult {
+  id: string;
+  student_id: string;
+  semester_id: string;
+  score: number;
+  grade: string;
+  sms_sent: boolean;
+  students: {
+    first_name: string;
+    last_name: string;
+    student_id: string;
+    phone_number: string | null;
+    email: string | null;
+    sms_consent: boolean;
+    email_consent: boolean;
+    preferred_language: string;
+    student_contacts: Contact[];
+  };
+  courses: { course_code: string; course_name: string };
+  semesters: { name: string; year: number };
+}
+
+interface OutboxTemplate {
+  id: string;
+  purpose: string;
+  channel: string;
+  subject: string | null;
+  body: string;
+  sms_template_variants: TemplateVariant[];
+}
+
+interface Recipient {
+  channel: Channel;
+  contact: Contact | null;
+  address: string;
+  language: string;
+}
+
+// The same keys the Notifications tab uses, so a result sent from there and
+// from the outbox is only queued once
+const recipientSuffix = (recipient: Recipient) =>
+  `${recipient.contact ? `:contact:${recipient.contact.id}` : ''}${recipient.channel === 'email' ? ':email' : ''}`;
+
+const summaryHash = async (resultIds: string[]) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode([...resultIds].sort().join(',')));
+  return Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Ends the lease on claimed rows once they are dealt with
+const markHandled = async (admin: SupabaseClient, ids: string[], status: 'queued' | 'skipped', reason: string | null) => {
+  if (!ids.length) return;
+  const { error } = await admin.from('result_outbox').update({ status, error: reason }).in('id', ids);
+  if (error) throw error;
+};
+
+// Builds the messages for claimed outbox rows and queues them, then marks
+// each row queued or skipped
+const queueClaimedRows = async (admin: SupabaseClient, smsSettings: SmsSettings, rows: OutboxRow[]) => {
+  const { data: stored } = await admin
+    .from('result_notification_settings')
+    .select('policy, channel, audience')
+    .maybeSingle();
+  const settings: NotificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...(stored ?? {}) };
+
+  const { data: templates, error: templatesError } = await admin
+    .from('sms_templates')
+    .select('id, purpose, channel, subject, body, sms_template_variants (language, subject, body)')
+    .in('purpose', ['result_notification', 'guardian_notification', 'semester_summary', 'guardian_semester_summary'])
+    .eq('is_default', true);
+  if (templatesError) throw templatesError;
+  const templateFor = (purpose: string, channel: Channel, language: string) => {
+    const template = (templates as OutboxTemplate[] | null)?.find((candidate) => candidate.purpose === purpose && candidate.channel === channel);
+    return template && templateInLanguage(template, language);
+  };
+
+  const { data: results, error: resultsError } = await admin
+    .from('results')
+    .select(`
+      id, student_id, semester_id, score, grade, sms_sent,
+      students (
+        first_name, last_name, student_id, phone_number, email, sms_consent, email_consent, preferred_language,
+        student_contacts (id, name, relationship, phone_number, email, notify_sms, notify_email, preferred_language)
+      ),
+      courses (course_code, course_name),
+      semesters (name, year)
+    `)
+    .in('id', rows.map((row) => row.result_id));
+  if (resultsError) throw resultsError;
+  const resultFor = (row: OutboxRow) => (results as OutboxResult[] | null)?.find((result) => result.id === row.result_id);
+
+  // GPA, CGPA and every result of the semesters involved, for the templates
+  const studentIds = [...new Set(rows.map((row) => row.student_id))];
+  const [{ data: gpaRecords }, { data: semesterResults }] = await Promise.all([
+    admin.from('cgpa_records').select('student_id, semester_id, semester_gpa, cumulative_gpa').in('student_id', studentIds),
+    admin.from('results').select('student_id, semester_id, score, grade, courses (course_code, course_name, credit_units)').in('student_id', studentIds),
+  ]);
+  const gpaFor = (studentId: string, semesterId: string) =>
+    gpaRecords?.find((record) => record.student_id === studentId && record.semester_id === semesterId);
+  const courseTableFor = (studentId: string, semesterId: string) =>
+    courseTableHtml((semesterResults ?? [])
+      .filter((row) => row.student_id === studentId && row.semester_id === semesterId)
+      .map((row) => ({ ...row.courses, score: row.score, grade: row.grade }) as CourseTableRow));
+
+  const recipientsFor = (student: OutboxResult['students']): Recipient[] =>
+    CHANNELS[settings.channel].flatMap((channel) => {
+      const phone = (number: string | null) => {
+        const check = normalisePhone(number ?? '', smsSettings.default_country);
+        return check.valid ? check.e164 : null;
+      };
+      const studentAddress = channel === 'email'
+        ? (student.email_consent ? sendableEmail(student.email) : null)
+        : (student.sms_consent ? phone(student.phone_number) : null);
+      const contacts = settings.audience === 'students' ? [] : student.student_contacts;
+
+      return [
+        ...(settings.audience !== 'guardians' && studentAddress
+          ? [{ channel, contact: null, address: studentAddress, language: student.preferred_language }]
+          : []),
+        ...contacts.flatMap((contact) => {
+          const address = channel === 'email'
+            ? (contact.notify_email ? sendableEmail(contact.email) : null)
+            : (contact.notify_sms ? phone(contact.phone_number) : null);
+          return address ? [{ channel, contact, address, language: contact.preferred_language }] : [];
+        }),
+      ];
+    });
+
+  const render = (template: ReturnType<typeof templateFor>, values: TemplateValues) =>
+    template?.channel === 'email'
+      ? { subject: renderTemplate(template.subject ?? '', values), body: renderHtmlTemplate(template.body, values), template_id: template.id }
+      : { subject: null, body: template ? renderTemplate(template.body, values) : '', template_id: template?.id ?? null };
+
+  // Messages to queue, with the outbox rows and results each one covers
+  const messages: { row: Record<string, unknown>; outboxIds: string[]; resultIds: string[] }[] = [];
+  const skipped: Record<string, string[]> = {};
+  const skip = (ids: string[], reason: string) => {
+    skipped[reason] = [...(skipped[reason] ?? []), ...ids];
+  };
+
+  const summaryRows = settings.policy === 'semester' ? rows.filter((row) => !row.decided_at) : [];
+  const singleRows = rows.filter((row) => !summaryRows.includes(row));
+
+  for (const row of singleRows) {
+    const result = resultFor(row);
+    if (!result) {
+      skip([row.id], 'Result not found');
+      continue;
+    }
+    if (row.event === 'published' && result.sms_sent) {
+      skip([row.id], 'Already sent');
+      continue;
+    }
+
+    const recipients = recipientsFor(result.students);
+    const baseValues: TemplateValues = {
+      ...resultTemplateValues(result, gpaFor(result.student_id, result.semester_id)),
+      course_table: courseTableFor(result.student_id, result.semester_id),
+    };
+    const keyBase = row.event === 'corrected' ? `result:${result.id}:correction:${row.id}` : `result:${result.id}`;
+    const before = messages.length;
+    for (const recipient of recipients) {
+      const template = templateFor(recipient.contact ? 'guardian_notification' : 'result_notification', recipient.channel, recipient.language);
+      if (!template) continue;
+      const values = recipient.contact
+        ? { ...baseValues, contact_name: recipient.contact.name, relationship: recipient.contact.relationship }
+        : baseValues;
+      messages.push({
+        row: {
+          student_id: result.student_id,
+          contact_id: recipient.contact?.id ?? null,
+          result_id: result.id,
+          channel: recipient.channel,
+          recipient: recipient.address,
+          ...render(template, values),
+          idempotency_key: `${keyBase}${recipientSuffix(recipient)}`,
+        },
+        outboxIds: [row.id],
+        resultIds: [],
+      });
+    }
+    if (messages.length === before) skip([row.id], 'No reachable recipient');
+  }
+
+  // Semester batches: one summary per student and semester
+  const groups = Object.values(summaryRows.reduce((grouped: Record<string, OutboxRow[]>, row) => {
+    const key = `${row.student_id}:${row.semester_id}`;
+    grouped[key] = [...(grouped[key] ?? []), row];
+    return grouped;
+  }, {}));
+
+  for (const group of groups) {
+    const [first] = group;
+    const groupResults = group.map(resultFor).filter((result): result is OutboxResult => !!result && !result.sms_sent);
+    if (!groupResults.length) {
+      skip(group.map((row) => row.id), 'Already sent');
+      continue;
+    }
+
+    const { students: student, semesters: semester } = groupResults[0];
+    const resultIds = groupResults.map((result) => result.id);
+    const key = `summary:${first.student_id}:${first.semester_id}:${await summaryHash(resultIds)}`;
+    const gpa = gpaFor(first.student_id, first.semester_id);
+    const courses = [...groupResults]
+      .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code))
+      .map((result) => ({ course_code: result.courses.course_code, grade: result.grade }));
+    const before = messages.length;
+
+    for (const recipient of recipientsFor(student)) {
+      const message = {
+        student_id: first.student_id,
+        contact_id: recipient.contact?.id ?? null,
+        result_id: null,
+        channel: recipient.channel,
+        recipient: recipient.address,
+      };
+
+      if (recipient.channel === 'email') {
+        const template = templateFor(recipient.contact ? 'guardian_semester_summary' : 'semester_summary', 'email', recipient.language);
+        if (!template) continue;
+        messages.push({
+          row: {
+            ...message,
+            ...render(template, {
+              first_name: student.first_name,
+              last_name: student.last_name,
+              student_id: student.student_id,
+              semester: `${semester.name} ${semester.year}`,
+              gpa: formatGpa(gpa?.semester_gpa),
+              cgpa: formatGpa(gpa?.cumulative_gpa),
+              course_table: courseTableFor(first.student_id, first.semester_id),
+              contact_name: recipient.contact?.name,
+              relationship: recipient.contact?.relationship,
+            }),
+            idempotency_key: `${key}:1${recipientSuffix(recipient)}`,
+          },
+          outboxIds: group.map((row) => row.id),
+          resultIds,
+        });
+        continue;
+      }
+
+      const parts = composeSemesterSummary({
+        first_name: student.first_name,
+        guardian_name: recipient.contact?.name,
+        semester: `${semester.name} ${semester.year}`,
+        courses,
+        gpa: gpa?.semester_gpa,
+        cgpa: gpa?.cumulative_gpa,
+      });
+      parts.forEach((body, index) => messages.push({
+        row: { ...message, subject: null, body, template_id: null, idempotency_key: `${key}:${index + 1}${recipientSuffix(recipient)}` },
+        outboxIds: group.map((row) => row.id),
+        resultIds,
+      }));
+    }
+    if (messages.length === before) skip(group.map((row) => row.id), 'No reachable recipient');
+  }
+
+  if (messages.length) {
+    const { data: batch, error: batchError } = await admin
+      .from('sms_batches')
+      .insert({ label: 'Automatic result notifications' })
+      .select('id')
+      .single();
+    if (batchError) throw batchError;
+
+    // Failed or cancelled messages with the same key are queued again
+    const { data: queued, error: queueError } = await admin.rpc('enqueue_sms_messages', {
+      _batch_id: batch.id,
+      _messages: messages.map((message) => ({ ...message.row, result_ids: message.resultIds })),
+    });
+    if (queueError) throw queueError;
+
+    // An outbox row is queued when any of its messages was; the rest say why
+    // nothing went out
+    const statusOf = new Map<string, string>(
+      ((queued ?? []) as { idempotency_key: string; status: string }[]).map((row) => [row.idempotency_key, row.status])
+    );
+    const outcomes = messages.reduce((byRow: Record<string, (string | undefined)[]>, message) => {
+      for (const id of message.outboxIds) {
+        byRow[id] = [...(byRow[id] ?? []), statusOf.get(message.row.idempotency_key as string)];
+      }
+      return byRow;
+    }, {});
+    const queuedIds: string[] = [];
+    for (const [id, statuses] of Object.entries(outcomes)) {
+      if (statuses.includes('queued')) queuedIds.push(id);
+      else skip([id], statuses.some(Boolean) ? 'Recipients opted out or invalid' : 'Already queued or sent');
+    }
+    await markHandled(admin, queuedIds, 'queued', null);
+  }
+
+  for (const [reason, ids] of Object.entries(skipped)) {
+    await markHandled(admin, ids, 'skipped', reason);
+  }
+};
+
+// Turns due result_outbox rows into queued messages, one per result or, for
+// semester batches, one summary per student and semester. Follows the same
+// audience, channel, consent and template rules as the Notifications tab.
+// Claimed rows stay processing until their messages are queued; if that
+// fails they are handed back for the next run. Returns how many outbox rows
+// were handled.
+export const queueResultNotifications = async (admin: SupabaseClient, smsSettings: SmsSettings) => {
+  const { data: claimed, error } = await admin.rpc('claim_result_outbox', { _limit: CLAIM_LIMIT });
+  if (error) throw error;
+  const rows = (claimed ?? []) as OutboxRow[];
+  if (!rows.length) return 0;
+
+  try {
+    await queueClaimedRows(admin, smsSettings, rows);
+  } catch (error) {
+    await admin.rpc('release_result_outbox', {
+      _ids: rows.map((row) => row.id),
+      _error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  return rows.length;
+};
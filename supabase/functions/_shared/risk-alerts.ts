@@ -0,0 +1,178 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalisePhone } from './phone.ts';
+import { sendableEmail } from './email/address.ts';
+import { riskAlertReason, type RiskAlertSource } from './risk.ts';
+import {
+  formatGpa,
+  renderHtmlTemplate,
+  renderTemplate,
+  templateInLanguage,
+  type TemplateValues,
+  type TemplateVariant,
+} from './sms/template.ts';
+import type { SmsSettings } from './sms/settings.ts';
+
+// Alerts handled per worker run; the rest wait for the next one
+const CLAIM_LIMIT = 50;
+
+interface AlertSettings {
+  alert_by_sms: boolean;
+  alert_by_email: boolean;
+  alert_advisor: boolean;
+}
+
+const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  alert_by_sms: true,
+  alert_by_email: true,
+  alert_advisor: true,
+};
+
+interface RiskAlert extends RiskAlertSource {
+  id: string;
+  student_id: string;
+  semester_id: string | null;
+}
+
+interface AlertTemplate {
+  id: string;
+  purpose: string;
+  channel: string;
+  subject: string | null;
+  body: string;
+  sms_template_variants: TemplateVariant[];
+}
+
+// Ends the lease on a claimed alert once it is dealt with
+const markHandled = async (admin: SupabaseClient, id: string, status: 'queued' | 'skipped', reason: string | null) => {
+  const { error } = await admin.from('academic_risk_alerts').update({ status, error: reason }).eq('id', id);
+  if (error) throw error;
+};
+
+// Builds and queues the messages for claimed alerts, marking each one queued
+// or skipped
+const queueClaimedAlerts = async (admin: SupabaseClient, smsSettings: SmsSettings, alerts: RiskAlert[]) => {
+  const { data: stored } = await admin
+    .from('academic_risk_settings')
+    .select('alert_by_sms, alert_by_email, alert_advisor')
+    .maybeSingle();
+  const settings: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, ...(stored ?? {}) };
+
+  const { data: templates, error: templatesError } = await admin
+    .from('sms_templates')
+    .select('id, purpose, channel, subject, body, sms_template_variants (language, subject, body)')
+    .in('purpose', ['risk_alert', 'advisor_risk_alert'])
+    .eq('is_default', true);
+  if (templatesError) throw templatesError;
+  // Advisors are staff and read the English text
+  const templateFor = (purpose: string, channel: string, language?: string | null) => {
+    const template = (templates as AlertTemplate[] | null)?.find((candidate) => candidate.purpose === purpose && candidate.channel === channel);
+    return template && templateInLanguage(template, language);
+  };
+
+  for (const alert of alerts) {
+    const { data: student, error: studentError } = await admin
+      .from('students')
+      .select('id, student_id, first_name, last_name, phone_number, email, sms_consent, email_consent, preferred_language, profiles:advisor_id (full_name, email)')
+      .eq('id', alert.student_id)
+      .maybeSingle();
+    if (studentError) throw studentError;
+
+    const { data: semester } = alert.semester_id
+      ? await admin.from('semesters').select('name, year').eq('id', alert.semester_id).maybeSingle()
+      : { data: null };
+
+    const advisor = student?.profiles as { full_name: string | null; email: string | null } | null;
+    const values: TemplateValues = {
+      first_name: student?.first_name,
+      last_name: student?.last_name,
+      student_id: student?.student_id,
+      semester: semester ? `${semester.name} ${semester.year}` : null,
+      cgpa: formatGpa(alert.cgpa),
+      previous_cgpa: formatGpa(alert.previous_cgpa),
+      risk_level: alert.risk_level,
+      alert_reason: riskAlertReason(alert),
+      advisor_name: advisor?.full_name || 'your academic advisor',
+    };
+
+    const rows = [];
+    const smsTemplate = templateFor('risk_alert', 'sms', student?.preferred_language);
+    const phone = student?.sms_consent ? normalisePhone(student.phone_number ?? '', smsSettings.default_country) : null;
+    if (settings.alert_by_sms && smsTemplate && phone?.valid) {
+      rows.push({
+        channel: 'sms',
+        recipient: phone.e164,
+        subject: null,
+        body: renderTemplate(smsTemplate.body, values),
+        template_id: smsTemplate.id,
+        idempotency_key: `risk:${alert.id}`,
+        bypass_consent: false,
+      });
+    }
+
+    const emailTemplate = templateFor('risk_alert', 'email', student?.preferred_language);
+    const email = student?.email_consent ? sendableEmail(student.email) : null;
+    if (settings.alert_by_email && emailTemplate && email) {
+      rows.push({
+        channel: 'email',
+        recipient: email,
+        subject: renderTemplate(emailTemplate.subject ?? '', values),
+        body: renderHtmlTemplate(emailTemplate.body, values),
+        template_id: emailTemplate.id,
+        idempotency_key: `risk:${alert.id}:email`,
+        bypass_consent: false,
+      });
+    }
+
+    const advisorTemplate = templateFor('advisor_risk_alert', 'email');
+    const advisorEmail = sendableEmail(advisor?.email);
+    if (settings.alert_advisor && advisorTemplate && advisorEmail) {
+      const advisorValues = { ...values, advisor_name: advisor?.full_name || advisorEmail };
+      rows.push({
+        channel: 'email',
+        recipient: advisorEmail,
+        subject: renderTemplate(advisorTemplate.subject ?? '', advisorValues),
+        body: renderHtmlTemplate(advisorTemplate.body, advisorValues),
+        template_id: advisorTemplate.id,
+        idempotency_key: `risk:${alert.id}:advisor:email`,
+        bypass_consent: true,
+      });
+    }
+
+    if (!rows.length) {
+      await markHandled(admin, alert.id, 'skipped', 'No reachable recipient');
+      continue;
+    }
+
+    const { error: insertError } = await admin
+      .from('sms_messages')
+      .upsert(
+        rows.map((row) => ({ ...row, student_id: alert.student_id })),
+        { onConflict: 'idempotency_key', ignoreDuplicates: true }
+      );
+    if (insertError) await markHandled(admin, alert.id, 'skipped', insertError.message);
+    else await markHandled(admin, alert.id, 'queued', null);
+  }
+};
+
+// Turns pending academic_risk_alerts into queued messages for the student
+// and their advisor. Advisors are staff, so their copy skips the student's
+// notification consent. Claimed alerts stay processing until their messages
+// are queued; if that fails the rest are handed back for the next run.
+// Returns how many alerts were handled.
+export const queueRiskAlerts = async (admin: SupabaseClient, smsSettings: SmsSettings) => {
+  const { data: claimed, error } = await admin.rpc('claim_risk_alerts', { _limit: CLAIM_LIMIT });
+  if (error) throw error;
+  const alerts = (claimed ?? []) as RiskAlert[];
+  if (!alerts.length) return 0;
+
+  try {
+    await queueClaimedAlerts(admin, smsSettings, alerts);
+  } catch (error) {
+    await admin.rpc('release_risk_alerts', {
+      _ids: alerts.map((alert) => alert.id),
+      _error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  return alerts.length;
+};
@@ -0,0 +1,43 @@
+// Academic risk by CGPA. The thresholds live in academic_risk_settings and
+// the database applies the same rules in evaluate_academic_risk after every
+// CGPA recompute. No imports, so the CGPA tab (via src/lib/risk.ts) and the
+// edge functions agree with it. Thresholds are on the 4.0 scale; CGPAs on
+// other scales are converted before comparing.
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskSettings {
+  high_risk_below: number;
+  medium_risk_below: number;
+  // A fall in CGPA between two semesters larger than this raises an alert
+  cgpa_drop_threshold: number;
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  high_risk_below: 2.0,
+  medium_risk_below: 2.7,
+  cgpa_drop_threshold: 0.3,
+};
+
+// A CGPA, or a change in one, on a scale whose best grade point is
+// maxGradePoint, expressed on the 4.0 scale
+export const toFourPointScale = (cgpa: number, maxGradePoint = 4) => (cgpa * 4) / maxGradePoint;
+
+export const getRiskLevel = (cgpa: number, settings: RiskSettings = DEFAULT_RISK_SETTINGS, maxGradePoint = 4): RiskLevel => {
+  const normalised = toFourPointScale(cgpa, maxGradePoint);
+  return normalised < settings.high_risk_below ? "high" : normalised < settings.medium_risk_below ? "medium" : "low";
+};
+
+export interface RiskAlertSource {
+  kind: string;
+  risk_level: string;
+  cgpa: number;
+  previous_cgpa: number | null;
+}
+
+// Short reason for alert messages, e.g. "high academic risk" or
+// "CGPA down from 3.10 to 2.65"
+export const riskAlertReason = (alert: RiskAlertSource) =>
+  alert.kind === "cgpa_drop" && alert.previous_cgpa != null
+    ? `CGPA down from ${Number(alert.previous_cgpa).toFixed(2)} to ${Number(alert.cgpa).toFixed(2)}`
+    : `${alert.risk_level} academic risk`;
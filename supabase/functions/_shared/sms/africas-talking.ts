@@ -0,0 +1,99 @@
+import {
+  isRetryableStatus,
+  requireEnv,
+  type InboundParser,
+  type OutboundSms,
+  type ReceiptParser,
+  type SendResult,
+  type SmsProvider,
+} from './types.ts';
+
+// Recipient status codes 100–102 mean processed, sent or queued
+const ACCEPTED_STATUS_CODES = [100, 101, 102];
+// 405/406: insufficient balance / user in blacklist – not worth retrying
+const RETRYABLE_STATUS_CODES = [500, 501, 502];
+const INVALID_NUMBER_REASONS = ['InvalidPhoneNumber', 'UnsupportedNumberType'];
+
+export const createAfricasTalkingProvider = (): SmsProvider => {
+  const username = requireEnv('AT_USERNAME');
+  const apiKey = requireEnv('AT_API_KEY');
+  const senderId = Deno.env.get('AT_SENDER_ID');
+  const baseUrl = username === 'sandbox'
+    ? 'https://api.sandbox.africastalking.com'
+    : 'https://api.africastalking.com';
+
+  return {
+    name: 'africastalking',
+    async send(message: OutboundSms): Promise<SendResult> {
+      const form = new URLSearchParams({ username, to: message.to, message: message.body });
+      if (senderId) form.set('from', senderId);
+
+      const response = await fetch(`${baseUrl}/version1/messaging`, {
+        method: 'POST',
+        headers: {
+          apiKey,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form,
+      });
+
+      if (!response.ok) {
+        return {
+          accepted: false,
+          error: `Africa's Talking responded with ${response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      const payload = await response.json();
+      const recipient = payload.SMSMessageData?.Recipients?.[0];
+
+      if (!recipient || !ACCEPTED_STATUS_CODES.includes(recipient.statusCode)) {
+        return {
+          accepted: false,
+          error: recipient?.status || payload.SMSMessageData?.Message || 'Message rejected',
+          retryable: RETRYABLE_STATUS_CODES.includes(recipient?.statusCode),
+        };
+      }
+
+      return { accepted: true, providerMessageId: recipient.messageId };
+    },
+  };
+};
+
+// Delivery report (form-encoded): id, status, failureReason
+export const parseAfricasTalkingReceipt: ReceiptParser = (payload) => {
+  const id = payload.id;
+  const reason = typeof payload.failureReason === 'string' ? payload.failureReason : undefined;
+  if (typeof id !== 'string') return null;
+
+  switch (payload.status) {
+    case 'Success':
+      return { providerMessageId: id, status: 'delivered' };
+    case 'Sent':
+    case 'Submitted':
+    case 'Buffered':
+      return { providerMessageId: id, status: 'sent' };
+    case 'Failed':
+    case 'Rejected':
+      return {
+        providerMessageId: id,
+        status: 'failed',
+        error: reason || `Africa's Talking reported ${payload.status}`,
+        invalidNumber: !!reason && INVALID_NUMBER_REASONS.includes(reason),
+      };
+    default:
+      return null;
+  }
+};
+
+// Incoming message callback (form-encoded): from, text, id
+export const parseAfricasTalkingInbound: InboundParser = (payload) => {
+  if (typeof payload.from !== 'string' || typeof payload.text !== 'string') return null;
+  return {
+    from: payload.from,
+    text: payload.text,
+    providerMessageId: typeof payload.id === 'string' ? payload.id : undefined,
+  };
+};
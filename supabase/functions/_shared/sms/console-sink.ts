@@ -0,0 +1,22 @@
+import type { OutboundSms, SendResult, SmsProvider } from './types.ts';
+
+// Development and test sink: accepts every message and logs it, optionally
+// appending one JSON line per message to SMS_SINK_FILE.
+export const createConsoleSinkProvider = (): SmsProvider => {
+  const sinkFile = Deno.env.get('SMS_SINK_FILE');
+
+  return {
+    name: 'console',
+    async send(message: OutboundSms): Promise<SendResult> {
+      const providerMessageId = `console-${crypto.randomUUID()}`;
+      const entry = { id: providerMessageId, ...message, sent_at: new Date().toISOString() };
+
+      console.log(`[sms:console] to=${message.to} ${message.body}`);
+      if (sinkFile) {
+        await Deno.writeTextFile(sinkFile, `${JSON.stringify(entry)}\n`, { append: true });
+      }
+
+      return { accepted: true, providerMessageId };
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { smsSender, type Channel, type ChannelSender } from '../channels.ts';
+import { countryOfNumber, normalisePhone } from '../phone.ts';
+import { segmentPrice } from './pricing.ts';
+import { loadSmsSettings, smsBudgetAllows, type SmsSettings } from './settings.ts';
+import { segmentInfo } from './template.ts';
+import type { SendResult, SmsProvider } from './types.ts';
+
+export interface QueuedMessage {
+  id: string;
+  channel?: Channel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  result_id: string | null;
+  attempts: number;
+}
+
+// Exponential backoff with a little jitter so retries don't arrive in lockstep
+export const retryDelaySeconds = (attempts: number, baseSeconds: number) =>
+  baseSeconds * 2 ** Math.max(0, attempts - 1) * (0.8 + Math.random() * 0.4);
+
+const BUDGET_REACHED = 'Monthly SMS budget reached';
+
+// Segments and cost of an accepted message; emails cost nothing
+const billing = (message: Pick<QueuedMessage, 'channel' | 'recipient' | 'body'>, provider: string, settings: SmsSettings) => {
+  if ((message.channel ?? 'sms') !== 'sms') return { segments: null, cost: null };
+  const segments = segmentInfo(message.body).segments;
+  const price = segmentPrice(settings.prices, provider, countryOfNumber(message.recipient));
+  return { segments, cost: price === null ? null : price * segments };
+};
+
+// Hands one claimed sms_messages row to its channel's provider and records
+// the outcome and, for texts, what it cost.
+// The mark_results_notified trigger flags the covered results once the
+// provider accepts; retryable failures go back on the queue until
+// max_attempts is reached. A text that would overrun the monthly budget is
+// not sent: it goes back on the queue, without using up an attempt, for when
+// the budget is raised.
+export const deliverMessage = async (
+  admin: SupabaseClient,
+  provider: ChannelSender,
+  message: QueuedMessage,
+  settings: SmsSettings
+): Promise<SendResult> => {
+  const bill = billing(message, provider.name, settings);
+  if (bill.cost !== null && !(await smsBudgetAllows(admin, bill.cost))) {
+    await admin
+      .from('sms_messages')
+      .update({
+        error: BUDGET_REACHED,
+        attempts: Math.max(0, message.attempts - 1),
+        locked_at: null,
+      })
+      .eq('id', message.id);
+    return { accepted: false, error: BUDGET_REACHED };
+  }
+
+  let outcome: SendResult;
+  try {
+    outcome = await provider.send(message);
+  } catch (error) {
+    outcome = { accepted: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+  }
+
+  if (outcome.accepted) {
+    await admin
+      .from('sms_messages')
+      .update({
+        status: 'sent',
+        provider: provider.name,
+        provider_message_id: outcome.providerMessageId ?? null,
+        error: null,
+        locked_at: null,
+        ...bill,
+      })
+      .eq('id', message.id);
+  } else if (outcome.retryable && message.attempts < settings.max_attempts) {
+    const delay = retryDelaySeconds(message.attempts, settings.retry_base_seconds);
+    await admin
+      .from('sms_messages')
+      .update({
+        provider: provider.name,
+        error: outcome.error ?? 'Temporarily rejected by provider',
+        next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+        locked_at: null,
+      })
+      .eq('id', message.id);
+  } else {
+    await admin
+      .from('sms_messages')
+      .update({
+        status: 'failed',
+        provider: provider.name,
+        error: outcome.error ?? 'Rejected by provider',
+        locked_at: null,
+      })
+      .eq('id', message.id);
+  }
+
+  return outcome;
+};
+
+// Sends a reply to an inbound text right away. Replies bypass consent so a
+// STOP confirmation still reaches the student who just opted out.
+export const sendReply = async (
+  admin: SupabaseClient,
+  provider: SmsProvider,
+  reply: { to: string; body: string; studentId: string | null; idempotencyKey: string }
+): Promise<SendResult> => {
+  const settings = await loadSmsSettings(admin);
+
+  // Some gateways report the sender without the leading +
+  const phone = normalisePhone(reply.to, settings.default_country);
+  if (!phone.valid) {
+    return { accepted: false, error: phone.error };
+  }
+  const { cost } = billing({ recipient: phone.e164, body: reply.body }, provider.name, settings);
+  if (cost !== null && !(await smsBudgetAllows(admin, cost))) {
+    return { accepted: false, error: BUDGET_REACHED };
+  }
+
+  const { data: message, error } = await admin
+    .from('sms_messages')
+    .insert({
+      student_id: reply.studentId,
+      recipient: phone.e164,
+      body: reply.body,
+      bypass_consent: true,
+      idempotency_key: reply.idempotencyKey,
+      attempts: 1,
+      locked_at: new Date().toISOString(),
+    })
+    .select('id, recipient, body, result_id, attempts')
+    .single();
+
+  if (error) throw error;
+
+  // No background retries: a late reply would only confuse
+  return deliverMessage(admin, smsSender(provider), message, { ...settings, max_attempts: 1 });
+};
@@ -0,0 +1,69 @@
+import {
+  isRetryableStatus,
+  requireEnv,
+  type InboundParser,
+  type OutboundSms,
+  type ReceiptParser,
+  type SendResult,
+  type SmsProvider,
+} from './types.ts';
+
+// Any gateway that accepts a JSON POST of { to, from, body, reference } and
+// answers 2xx with an "id" or "message_id" field.
+export const createHttpGatewayProvider = (): SmsProvider => {
+  const url = requireEnv('SMS_HTTP_URL');
+  const token = Deno.env.get('SMS_HTTP_TOKEN');
+  const from = Deno.env.get('SMS_HTTP_FROM');
+
+  return {
+    name: 'http',
+    async send(message: OutboundSms): Promise<SendResult> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (token) headers.Authorization = `Bearer ${token}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ to: message.to, from, body: message.body, reference: message.reference }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return {
+          accepted: false,
+          error: payload.error || payload.message || `Gateway responded with ${response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      return { accepted: true, providerMessageId: payload.id ?? payload.message_id };
+    },
+  };
+};
+
+// Generic receipt (JSON): { message_id | id, status: "sent" | "delivered" |
+// "failed", error?, invalid_number? }. Also used by the console sink.
+export const parseGenericReceipt: ReceiptParser = (payload) => {
+  const id = payload.message_id ?? payload.id;
+  if (typeof id !== 'string') return null;
+  if (payload.status !== 'sent' && payload.status !== 'delivered' && payload.status !== 'failed') return null;
+
+  return {
+    providerMessageId: id,
+    status: payload.status,
+    error: typeof payload.error === 'string' ? payload.error : undefined,
+    invalidNumber: payload.invalid_number === true || payload.invalid_number === 'true',
+  };
+};
+
+// Generic inbound message (JSON or form): { from, text | body, id? }.
+// Also used by the console sink.
+export const parseGenericInbound: InboundParser = (payload) => {
+  const text = payload.text ?? payload.body;
+  if (typeof payload.from !== 'string' || typeof text !== 'string') return null;
+  return {
+    from: payload.from,
+    text,
+    providerMessageId: typeof payload.id === 'string' ? payload.id : undefined,
+  };
+};
@@ -0,0 +1,57 @@
+import { createAfricasTalkingProvider, parseAfricasTalkingInbound, parseAfricasTalkingReceipt } from './africas-talking.ts';
+import { createConsoleSinkProvider } from './console-sink.ts';
+import { createHttpGatewayProvider, parseGenericInbound, parseGenericReceipt } from './http-gateway.ts';
+import { createTermiiProvider, parseTermiiInbound, parseTermiiReceipt } from './termii.ts';
+import { createTwilioProvider, parseTwilioInbound, parseTwilioReceipt } from './twilio.ts';
+import type { InboundParser, ReceiptParser, SmsProvider } from './types.ts';
+
+export type {
+  DeliveryReceipt,
+  InboundParser,
+  InboundSms,
+  OutboundSms,
+  ReceiptParser,
+  SendResult,
+  SmsProvider,
+} from './types.ts';
+
+const providers: Record<string, () => SmsProvider> = {
+  twilio: createTwilioProvider,
+  africastalking: createAfricasTalkingProvider,
+  termii: createTermiiProvider,
+  http: createHttpGatewayProvider,
+  console: createConsoleSinkProvider,
+};
+
+// Selected with the SMS_PROVIDER secret; defaults to the console sink so a
+// fresh project never texts real numbers by accident.
+export const getSmsProvider = (): SmsProvider => {
+  const name = (Deno.env.get('SMS_PROVIDER') || 'console').toLowerCase();
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown SMS_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return factory();
+};
+
+// Keyed like providers above; the name is also what deliverMessage stores in
+// sms_messages.provider, which is how receipts find their message
+const receiptParsers: Record<string, ReceiptParser> = {
+  twilio: parseTwilioReceipt,
+  africastalking: parseAfricasTalkingReceipt,
+  termii: parseTermiiReceipt,
+  http: parseGenericReceipt,
+  console: parseGenericReceipt,
+};
+
+export const getReceiptParser = (name: string): ReceiptParser | undefined => receiptParsers[name.toLowerCase()];
+
+const inboundParsers: Record<string, InboundParser> = {
+  twilio: parseTwilioInbound,
+  africastalking: parseAfricasTalkingInbound,
+  termii: parseTermiiInbound,
+  http: parseGenericInbound,
+  console: parseGenericInbound,
+};
+
+export const getInboundParser = (name: string): InboundParser | undefined => inboundParsers[name.toLowerCase()];
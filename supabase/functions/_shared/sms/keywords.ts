@@ -0,0 +1,92 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { InboundSms } from './types.ts';
+import { LOOKUP_COMMANDS, lookupReply } from './lookup.ts';
+
+// Carrier-standard opt-out and opt-in words
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE'];
+
+export interface KeywordOutcome {
+  keyword: string | null;
+  studentIds: string[];
+  reply: string | null;
+}
+
+export interface InboundOptions {
+  // Work out the reply without changing consent (used by the simulator)
+  dryRun?: boolean;
+}
+
+// First word of the text, upper-cased: "stop please" -> "STOP"
+export const parseKeyword = (text: string) => text.trim().split(/\s+/)[0]?.toUpperCase() ?? '';
+
+const findStudents = async (admin: SupabaseClient, phone: string) => {
+  const { data, error } = await admin.rpc('find_students_by_phone', { _phone: phone });
+  if (error) throw error;
+  return data ?? [];
+};
+
+// STOP / START: updates consent for every student registered with the number
+const handleConsentKeyword = async (
+  admin: SupabaseClient,
+  inbound: InboundSms,
+  keyword: string,
+  { dryRun = false }: InboundOptions,
+): Promise<KeywordOutcome> => {
+  const optOut = OPT_OUT_KEYWORDS.includes(keyword);
+
+  let studentIds: string[];
+  if (dryRun) {
+    studentIds = (await findStudents(admin, inbound.from)).map((student) => student.id);
+  } else {
+    const { data, error } = await admin.rpc('set_sms_consent_by_phone', {
+      _phone: inbound.from,
+      _consented: !optOut,
+      _note: `Texted ${keyword}`,
+    });
+    if (error) throw error;
+    studentIds = data ?? [];
+  }
+
+  if (studentIds.length === 0) {
+    return { keyword, studentIds, reply: null };
+  }
+
+  return {
+    keyword,
+    studentIds,
+    reply: optOut
+      ? 'You will no longer receive result notifications by SMS. Reply START to subscribe again.'
+      : 'You will receive result notifications by SMS again. Reply STOP to unsubscribe.',
+  };
+};
+
+// Handles any text from a student. Unknown numbers are ignored; commands
+// from a registered number are answered from their results, unless the
+// student has opted out.
+export const handleInboundSms = async (
+  admin: SupabaseClient,
+  inbound: InboundSms,
+  options: InboundOptions = {},
+): Promise<KeywordOutcome> => {
+  const keyword = parseKeyword(inbound.text);
+  if (OPT_OUT_KEYWORDS.includes(keyword) || OPT_IN_KEYWORDS.includes(keyword)) {
+    return handleConsentKeyword(admin, inbound, keyword, options);
+  }
+
+  const students = await findStudents(admin, inbound.from);
+  if (students.length === 0) {
+    return { keyword: null, studentIds: [], reply: null };
+  }
+
+  const studentIds = students.map((student) => student.id);
+  const command = LOOKUP_COMMANDS.includes(keyword) ? keyword : null;
+
+  // A shared number (e.g. siblings) answers for the first consenting student
+  const student = students.find((candidate) => candidate.sms_consent);
+  if (!student) {
+    return { keyword: command, studentIds, reply: null };
+  }
+
+  return { keyword: command, studentIds, reply: await lookupReply(admin, student, inbound.text) };
+};
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatGpa, renderTemplate, templateInLanguage, type TemplatePurpose, type TemplateValues } from './template.ts';
+
+// Commands a registered student can text in. Anything else gets the help reply.
+//   RESULT <course code> [semester]   e.g. RESULT CS101, RESULT CS101 SPRING2024
+//   GPA [semester]                    e.g. GPA, GPA FALL2024
+//   CGPA [semester]
+//   HELP
+export const LOOKUP_COMMANDS = ['RESULT', 'GPA', 'CGPA', 'HELP'];
+
+export interface LookupStudent {
+  id: string;
+  student_id: string;
+  first_name: string;
+  last_name: string;
+  preferred_language?: string | null;
+}
+
+interface Semester {
+  id: string;
+  name: string;
+  year: number;
+  sort_order: number;
+}
+
+// "Fall 2024", "fall2024" and "FALL-2024" all become "FALL2024"
+const normalise = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// A semester token matches "<name><year>" or just the name, e.g. FALL2024 or FALL
+const matchesSemester = (semester: Semester, token: string) =>
+  normalise(`${semester.name}${semester.year}`) === token || normalise(semester.name) === token;
+
+// Latest first, so an unqualified request picks the most recent semester with data
+const bySortOrderDesc = (a: { semesters: Semester }, b: { semesters: Semester }) =>
+  b.semesters.sort_order - a.semesters.sort_order;
+
+// The default template's text in the student's language, or in English
+const loadDefaultTemplate = async (admin: SupabaseClient, purpose: TemplatePurpose, language?: string | null) => {
+  const { data, error } = await admin
+    .from('sms_templates')
+    .select('subject, body, sms_template_variants (language, subject, body)')
+    .eq('purpose', purpose)
+    .eq('channel', 'sms')
+    .eq('is_default', true)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(`No default template for ${purpose}`);
+  return templateInLanguage(data, language).body;
+};
+
+// Works out the reply to a lookup command from one student's published data
+export const lookupReply = async (admin: SupabaseClient, student: LookupStudent, text: string) => {
+  const [command = '', ...args] = text.trim().split(/\s+/);
+  const values: TemplateValues = {
+    first_name: student.first_name,
+    last_name: student.last_name,
+    student_id: student.student_id,
+  };
+  const reply = async (purpose: TemplatePurpose) =>
+    renderTemplate(await loadDefaultTemplate(admin, purpose, student.preferred_language), values);
+
+  // Only released results are answered, and a semester's GPA and CGPA only
+  // once none of its results is still held back
+  const [{ data: results, error: resultsError }, { data: gpaRecords, error: gpaError }] = await Promise.all([
+    admin
+      .from('results')
+      .select('score, grade, released_at, courses (course_code, course_name), semesters (id, name, year, sort_order)')
+      .eq('student_id', student.id),
+    admin
+      .from('cgpa_records')
+      .select('semester_gpa, cumulative_gpa, semesters (id, name, year, sort_order)')
+      .eq('student_id', student.id),
+  ]);
+  if (resultsError) throw resultsError;
+  if (gpaError) throw gpaError;
+
+  const released = (results ?? []).filter((row) => row.released_at);
+  const heldSemesters = new Set((results ?? []).filter((row) => !row.released_at).map((row) => row.semesters.id));
+  const releasedRecords = (gpaRecords ?? []).filter((record) => !heldSemesters.has(record.semesters.id));
+  const recordFor = (semesterId: string) => releasedRecords.find((record) => record.semesters.id === semesterId);
+
+  switch (command.toUpperCase()) {
+    case 'RESULT': {
+      const [courseToken, ...semesterTokens] = args;
+      if (!courseToken) return reply('reply_help');
+
+      const semesterToken = normalise(semesterTokens.join(''));
+      const result = released
+        .filter((row) => normalise(row.courses.course_code) === normalise(courseToken))
+        .filter((row) => !semesterToken || matchesSemester(row.semesters, semesterToken))
+        .sort(bySortOrderDesc)[0];
+      if (!result) return reply('reply_not_found');
+
+      const record = recordFor(result.semesters.id);
+      Object.assign(values, {
+        course_code: result.courses.course_code,
+        course_name: result.courses.course_name,
+        score: result.score,
+        grade: result.grade,
+        semester: `${result.semesters.name} ${result.semesters.year}`,
+        gpa: formatGpa(record?.semester_gpa),
+        cgpa: formatGpa(record?.cumulative_gpa),
+      });
+      return reply('reply_result');
+    }
+    case 'GPA':
+    case 'CGPA': {
+      const semesterToken = normalise(args.join(''));
+      const record = releasedRecords
+        .filter((row) => !semesterToken || matchesSemester(row.semesters, semesterToken))
+        .sort(bySortOrderDesc)[0];
+      if (!record) return reply('reply_not_found');
+
+      Object.assign(values, {
+        semester: `${record.semesters.name} ${record.semesters.year}`,
+        gpa: formatGpa(record.semester_gpa),
+        cgpa: formatGpa(record.cumulative_gpa),
+      });
+      return reply(command.toUpperCase() === 'GPA' ? 'reply_gpa' : 'reply_cgpa');
+    }
+    default:
+      return reply('reply_help');
+  }
+};
@@ -0,0 +1,72 @@
+// What texts cost. sms_prices has a price per segment for each provider (as
+// stored in sms_messages.provider) and destination country, where "*" matches
+// any. No imports, so the Notifications tab (via src/lib/sms-pricing.ts)
+// estimates with the same prices the edge functions record against each text.
+
+export const ANY = "*";
+
+export const SMS_PROVIDERS = [
+  { value: "twilio", label: "Twilio" },
+  { value: "africastalking", label: "Africa's Talking" },
+  { value: "termii", label: "Termii" },
+  { value: "http", label: "HTTP gateway" },
+  { value: "console", label: "Console sink" },
+] as const;
+
+export interface SmsPrice {
+  provider: string;
+  country: string;
+  price_per_segment: number;
+}
+
+// Most specific first: provider and country, provider, country, then "*" for both
+export const segmentPrice = (prices: SmsPrice[], provider: string | null, country: string | null): number | null => {
+  const candidates: [string | null, string | null][] = [
+    [provider, country],
+    [provider, ANY],
+    [ANY, country],
+    [ANY, ANY],
+  ];
+  for (const [candidateProvider, candidateCountry] of candidates) {
+    if (!candidateProvider || !candidateCountry) continue;
+    const match = prices.find((price) => price.provider === candidateProvider && price.country === candidateCountry);
+    if (match) return Number(match.price_per_segment);
+  }
+  return null;
+};
+
+export interface CostEstimate {
+  segments: number;
+  cost: number;
+  // Texts no price matched; they are left out of cost
+  unpriced: number;
+}
+
+export const estimateCost = (
+  texts: { country: string | null; segments: number }[],
+  prices: SmsPrice[],
+  provider: string | null
+): CostEstimate =>
+  texts.reduce<CostEstimate>((estimate, text) => {
+    const price = segmentPrice(prices, provider, text.country);
+    return {
+      segments: estimate.segments + text.segments,
+      cost: estimate.cost + (price ?? 0) * text.segments,
+      unpriced: estimate.unpriced + (price === null ? 1 : 0),
+    };
+  }, { segments: 0, cost: 0, unpriced: 0 });
+
+export const formatCost = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+
+// e.g. "NGN 48.00 for 12 segment(s)", noting texts no price matched
+export const describeEstimate = (estimate: CostEstimate, currency: string) =>
+  `${formatCost(estimate.cost, currency)} for ${estimate.segments} segment(s)`
+  + (estimate.unpriced > 0 ? `, ${estimate.unpriced} text(s) without a price` : "");
+
+// Warns when an estimate is more than is left of the monthly budget; null
+// when it fits or there is no budget
+export const budgetWarning = (estimate: CostEstimate, remaining: number | null, currency: string) =>
+  remaining !== null && estimate.cost > remaining
+    ? `Only ${formatCost(remaining, currency)} of this month's SMS budget is left. Texts beyond it stay queued until the budget is raised under Settings.`
+    : null;
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_COUNTRY } from '../phone.ts';
+import type { SmsPrice } from './pricing.ts';
+
+export interface SmsSettings {
+  rate_per_second: number;
+  max_attempts: number;
+  retry_base_seconds: number;
+  // ISO 3166 code used for numbers typed without a country code
+  default_country: string;
+  // sms_prices rows, for recording what each text cost
+  prices: SmsPrice[];
+}
+
+const DEFAULT_SETTINGS: SmsSettings = {
+  rate_per_second: 5,
+  max_attempts: 5,
+  retry_base_seconds: 30,
+  default_country: DEFAULT_COUNTRY,
+  prices: [],
+};
+
+export const loadSmsSettings = async (admin: SupabaseClient): Promise<SmsSettings> => {
+  const [{ data }, { data: prices }] = await Promise.all([
+    admin.from('sms_settings').select('*').maybeSingle(),
+    admin.from('sms_prices').select('provider, country, price_per_segment'),
+  ]);
+  return { ...DEFAULT_SETTINGS, ...(data ?? {}), prices: prices ?? [] };
+};
+
+// Texts stop once the month's spend reaches sms_settings.monthly_budget
+export const smsBudgetExhausted = async (admin: SupabaseClient): Promise<boolean> => {
+  const { data, error } = await admin.rpc('sms_budget_exhausted');
+  if (error) throw error;
+  return Boolean(data);
+};
+
+// Whether a text of this cost still fits in the month's budget. A text that
+// would overrun it pauses texts instead, exactly as reaching it does.
+export const smsBudgetAllows = async (admin: SupabaseClient, cost: number): Promise<boolean> => {
+  const { data, error } = await admin.rpc('sms_budget_allows', { _cost: cost });
+  if (error) throw error;
+  return Boolean(data);
+};
@@ -0,0 +1,280 @@
+// Message templates (sms_templates) use {placeholder} tokens. This module
+// fills them in, renders email templates as HTML and works out how many
+// segments an SMS costs. It has no imports so the Notifications tab (via
+// src/lib/sms-template.ts) and the edge functions render templates identically.
+
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: "first_name", description: "Student's first name" },
+  { key: "last_name", description: "Student's last name" },
+  { key: "student_id", description: "Matriculation number" },
+  { key: "course_code", description: "Course code" },
+  { key: "course_name", description: "Course title" },
+  { key: "score", description: "Score out of 100" },
+  { key: "grade", description: "Letter grade" },
+  { key: "semester", description: "Semester name and year" },
+  { key: "gpa", description: "GPA for that semester" },
+  { key: "cgpa", description: "CGPA after that semester" },
+  { key: "contact_name", description: "Guardian or sponsor's name (guardian templates)" },
+  { key: "relationship", description: "Guardian's relationship to the student" },
+  { key: "course_table", description: "Table of every result in the semester (email only)" },
+  { key: "risk_level", description: "Academic risk level (risk alerts)" },
+  { key: "previous_cgpa", description: "CGPA before the latest semester (risk alerts)" },
+  { key: "alert_reason", description: "Why the student was flagged (risk alerts)" },
+  { key: "advisor_name", description: "Academic advisor's name (risk alerts)" },
+] as const;
+
+export const TEMPLATE_CHANNELS = [
+  { value: "sms", label: "SMS" },
+  { value: "email", label: "Email" },
+] as const;
+
+export type TemplateChannel = typeof TEMPLATE_CHANNELS[number]["value"];
+
+// What a template is used for; each purpose has its own default
+export const TEMPLATE_PURPOSES = [
+  { value: "result_notification", label: "Result notification" },
+  { value: "guardian_notification", label: "Guardian copy of a result" },
+  { value: "semester_summary", label: "Semester summary (email)" },
+  { value: "guardian_semester_summary", label: "Guardian semester summary (email)" },
+  { value: "risk_alert", label: "At-risk alert" },
+  { value: "advisor_risk_alert", label: "Advisor at-risk alert (email)" },
+  { value: "reply_result", label: "Reply: RESULT <course>" },
+  { value: "reply_gpa", label: "Reply: GPA" },
+  { value: "reply_cgpa", label: "Reply: CGPA" },
+  { value: "reply_help", label: "Reply: HELP and unknown commands" },
+  { value: "reply_not_found", label: "Reply: nothing found" },
+] as const;
+
+export type TemplatePurpose = typeof TEMPLATE_PURPOSES[number]["value"];
+
+// Languages a student or guardian can prefer. A template's own text is the
+// English one; sms_template_variants holds the others.
+export const TEMPLATE_LANGUAGES = [
+  { value: "en", label: "English" },
+  { value: "yo", label: "Yorùbá" },
+  { value: "ha", label: "Hausa" },
+  { value: "ig", label: "Igbo" },
+  { value: "fr", label: "French" },
+] as const;
+
+export type TemplateLanguage = typeof TEMPLATE_LANGUAGES[number]["value"];
+
+export const DEFAULT_LANGUAGE: TemplateLanguage = "en";
+
+export interface TemplateVariant {
+  language: string;
+  // Null keeps the English subject
+  subject: string | null;
+  body: string;
+}
+
+export interface SMSTemplate {
+  id: string;
+  name: string;
+  body: string;
+  purpose: string;
+  channel: TemplateChannel;
+  // Email only
+  subject: string | null;
+  is_default: boolean;
+  sms_template_variants?: TemplateVariant[];
+}
+
+// The template's text in a recipient's language, falling back to English
+export const templateInLanguage = <T extends { subject: string | null; body: string; sms_template_variants?: TemplateVariant[] }>(
+  template: T,
+  language?: string | null,
+): T => {
+  const variant = template.sms_template_variants?.find((candidate) => candidate.language === language);
+  return variant ? { ...template, subject: variant.subject ?? template.subject, body: variant.body } : template;
+};
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number]["key"];
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string | number | null>>;
+
+export interface ResultTemplateSource {
+  score: number;
+  grade: string;
+  students: { first_name: string; last_name: string; student_id: string };
+  courses: { course_code: string; course_name: string };
+  semesters: { name: string; year: number };
+}
+
+// cgpa_records row for the result's student and semester
+export interface GpaSource {
+  semester_gpa: number | null;
+  cumulative_gpa: number | null;
+}
+
+// Plain ASCII so a missing value never forces UCS-2
+export const formatGpa = (value?: number | null) => (value != null ? Number(value).toFixed(2) : "N/A");
+
+export const resultTemplateValues = (result: ResultTemplateSource, gpa?: GpaSource | null): TemplateValues => ({
+  first_name: result.students.first_name,
+  last_name: result.students.last_name,
+  student_id: result.students.student_id,
+  course_code: result.courses.course_code,
+  course_name: result.courses.course_name,
+  score: result.score,
+  grade: result.grade,
+  semester: `${result.semesters.name} ${result.semesters.year}`,
+  gpa: formatGpa(gpa?.semester_gpa),
+  cgpa: formatGpa(gpa?.cumulative_gpa),
+});
+
+// Unknown placeholders are left as typed so mistakes show up in the preview
+export const renderTemplate = (body: string, values: TemplateValues) =>
+  body.replace(/\{(\w+)\}/g, (token, key: string) => {
+    const value = values[key as TemplatePlaceholder];
+    return value == null ? token : String(value);
+  });
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Placeholders whose values are already HTML
+const HTML_PLACEHOLDERS = new Set<string>(["course_table"]);
+
+// Email bodies are HTML, so values are escaped; a name like O'Brien or a
+// course title with "&" must not break the markup
+export const renderHtmlTemplate = (body: string, values: TemplateValues) =>
+  body.replace(/\{(\w+)\}/g, (token, key: string) => {
+    const value = values[key as TemplatePlaceholder];
+    if (value == null) return token;
+    return HTML_PLACEHOLDERS.has(key) ? String(value) : escapeHtml(String(value));
+  });
+
+export interface CourseTableRow {
+  course_code: string;
+  course_name: string;
+  credit_units: number;
+  score: number;
+  grade: string;
+}
+
+// Inline styles only: most mail clients drop <style> blocks
+export const courseTableHtml = (rows: CourseTableRow[]) => {
+  const cell = 'style="border:1px solid #d4d4d8;padding:6px 10px;text-align:left"';
+  const header = ["Course", "Title", "Credits", "Score", "Grade"]
+    .map((label) => `<th ${cell}>${label}</th>`)
+    .join("");
+  const body = [...rows]
+    .sort((a, b) => a.course_code.localeCompare(b.course_code))
+    .map((row) =>
+      `<tr>${[row.course_code, row.course_name, row.credit_units, `${row.score}%`, row.grade]
+        .map((value) => `<td ${cell}>${escapeHtml(String(value))}</td>`)
+        .join("")}</tr>`
+    )
+    .join("");
+  return `<table style="border-collapse:collapse;font-size:14px"><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+};
+
+// Plain-text alternative sent alongside the HTML
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|tr|h\d|li)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const unknownPlaceholders = (body: string) => {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS.map((placeholder) => placeholder.key));
+  return [...new Set([...body.matchAll(/\{(\w+)\}/g)].map((match) => match[1]))].filter((key) => !known.has(key));
+};
+
+// GSM 03.38 default alphabet; extension characters take two septets
+const GSM7_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM7_EXTENSION = "\f^{}\\[~]|€";
+
+export type SmsEncoding = "GSM-7" | "UCS-2";
+
+export interface SegmentInfo {
+  encoding: SmsEncoding;
+  // Septets for GSM-7, UTF-16 code units for UCS-2
+  length: number;
+  segments: number;
+  perSegment: number;
+  remaining: number;
+}
+
+export const detectEncoding = (text: string): SmsEncoding =>
+  [...text].every((char) => GSM7_BASIC.includes(char) || GSM7_EXTENSION.includes(char)) ? "GSM-7" : "UCS-2";
+
+// A single message holds 160 GSM-7 or 70 UCS-2 characters; once split, each
+// part loses room to the concatenation header (153 and 67)
+export const segmentInfo = (text: string): SegmentInfo => {
+  const encoding = detectEncoding(text);
+  const length = encoding === "GSM-7"
+    ? [...text].reduce((total, char) => total + (GSM7_EXTENSION.includes(char) ? 2 : 1), 0)
+    : text.length;
+  const single = encoding === "GSM-7" ? 160 : 70;
+  const perSegment = length <= single ? single : encoding === "GSM-7" ? 153 : 67;
+  const segments = Math.max(1, Math.ceil(length / perSegment));
+
+  return { encoding, length, segments, perSegment, remaining: segments * perSegment - length };
+};
+
+export interface SemesterSummary {
+  first_name: string;
+  // Set for a guardian's copy, which is addressed to them
+  guardian_name?: string;
+  semester: string;
+  courses: { course_code: string; grade: string }[];
+  gpa?: number | null;
+  cgpa?: number | null;
+}
+
+// One text for all of a student's results in a semester. If it needs more
+// than one segment it is split into numbered single-segment messages that
+// break only between courses, so no course and grade are ever cut apart.
+export const composeSemesterSummary = (summary: SemesterSummary): string[] => {
+  const pieces = [
+    {
+      separator: "",
+      text: summary.guardian_name
+        ? `Dear ${summary.guardian_name}, ${summary.first_name}'s ${summary.semester} results:`
+        : `Dear ${summary.first_name}, ${summary.semester} results:`,
+    },
+    ...summary.courses.map((course, index) => ({
+      separator: index === 0 ? " " : ", ",
+      text: `${course.course_code} ${course.grade}`,
+    })),
+    { separator: ". ", text: `GPA ${formatGpa(summary.gpa)}, CGPA ${formatGpa(summary.cgpa)}.` },
+  ];
+
+  const whole = pieces.map((piece) => piece.separator + piece.text).join("");
+  if (segmentInfo(whole).segments === 1) return [whole];
+
+  // Leave room for the "(n/N) " prefix added below
+  const fits = (text: string) => segmentInfo(`(99/99) ${text}`).segments === 1;
+  const parts: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const next = current ? current + piece.separator + piece.text : piece.text;
+    if (current && !fits(next)) {
+      parts.push(current);
+      current = piece.text;
+    } else {
+      current = next;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part, index) => `(${index + 1}/${parts.length}) ${part}`);
+};
@@ -0,0 +1,73 @@
+import {
+  isRetryableStatus,
+  requireEnv,
+  type InboundParser,
+  type OutboundSms,
+  type ReceiptParser,
+  type SendResult,
+  type SmsProvider,
+} from './types.ts';
+
+export const createTermiiProvider = (): SmsProvider => {
+  const apiKey = requireEnv('TERMII_API_KEY');
+  const senderId = requireEnv('TERMII_SENDER_ID');
+  const channel = Deno.env.get('TERMII_CHANNEL') || 'generic';
+  const baseUrl = Deno.env.get('TERMII_BASE_URL') || 'https://api.ng.termii.com';
+
+  return {
+    name: 'termii',
+    async send(message: OutboundSms): Promise<SendResult> {
+      const response = await fetch(`${baseUrl}/api/sms/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          api_key: apiKey,
+          // Termii expects international format without the leading "+"
+          to: message.to.replace(/^\+/, ''),
+          from: senderId,
+          sms: message.body,
+          type: 'plain',
+          channel,
+        }),
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok || !payload.message_id) {
+        return {
+          accepted: false,
+          error: payload.message || `Termii responded with ${response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      return { accepted: true, providerMessageId: payload.message_id };
+    },
+  };
+};
+
+// Webhook (JSON): message_id, status such as "Delivered", "Message Sent",
+// "Message Failed", "Rejected", "Expired" or "DND Active on Phone Number"
+export const parseTermiiReceipt: ReceiptParser = (payload) => {
+  const id = payload.message_id;
+  const status = typeof payload.status === 'string' ? payload.status : '';
+  if (typeof id !== 'string' || !status) return null;
+
+  if (/^delivered$/i.test(status)) return { providerMessageId: id, status: 'delivered' };
+  if (/sent|accepted/i.test(status)) return { providerMessageId: id, status: 'sent' };
+  return {
+    providerMessageId: id,
+    status: 'failed',
+    error: `Termii reported ${status}`,
+    invalidNumber: /invalid/i.test(status),
+  };
+};
+
+// Inbound message webhook (JSON): sender, message, id
+export const parseTermiiInbound: InboundParser = (payload) => {
+  if (typeof payload.sender !== 'string' || typeof payload.message !== 'string') return null;
+  return {
+    from: payload.sender,
+    text: payload.message,
+    providerMessageId: typeof payload.id === 'string' ? payload.id : undefined,
+  };
+};
@@ -0,0 +1,82 @@
+import {
+  isRetryableStatus,
+  requireEnv,
+  type InboundParser,
+  type OutboundSms,
+  type ReceiptParser,
+  type SendResult,
+  type SmsProvider,
+} from './types.ts';
+
+// 21211 invalid "To", 21614 not a mobile number, 30005 unknown destination,
+// 30006 landline or unreachable carrier
+const INVALID_NUMBER_ERROR_CODES = ['21211', '21614', '30005', '30006'];
+
+export const createTwilioProvider = (): SmsProvider => {
+  const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+  const authToken = requireEnv('TWILIO_AUTH_TOKEN');
+  const from = requireEnv('TWILIO_FROM');
+  const statusCallback = Deno.env.get('TWILIO_STATUS_CALLBACK_URL');
+
+  return {
+    name: 'twilio',
+    async send(message: OutboundSms): Promise<SendResult> {
+      const form = new URLSearchParams({ To: message.to, From: from, Body: message.body });
+      if (statusCallback) form.set('StatusCallback', statusCallback);
+
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form,
+      });
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return {
+          accepted: false,
+          error: payload.message || `Twilio responded with ${response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      return { accepted: true, providerMessageId: payload.sid };
+    },
+  };
+};
+
+// Status callback (form-encoded): MessageSid, MessageStatus, ErrorCode
+export const parseTwilioReceipt: ReceiptParser = (payload) => {
+  const id = payload.MessageSid;
+  const errorCode = payload.ErrorCode ? String(payload.ErrorCode) : undefined;
+  if (typeof id !== 'string') return null;
+
+  switch (payload.MessageStatus) {
+    case 'delivered':
+      return { providerMessageId: id, status: 'delivered' };
+    case 'sent':
+      return { providerMessageId: id, status: 'sent' };
+    case 'undelivered':
+    case 'failed':
+      return {
+        providerMessageId: id,
+        status: 'failed',
+        error: errorCode ? `Twilio error ${errorCode}` : `Twilio reported ${payload.MessageStatus}`,
+        invalidNumber: !!errorCode && INVALID_NUMBER_ERROR_CODES.includes(errorCode),
+      };
+    default:
+      return null;
+  }
+};
+
+// Incoming message webhook (form-encoded): From, Body, MessageSid
+export const parseTwilioInbound: InboundParser = (payload) => {
+  if (typeof payload.From !== 'string' || typeof payload.Body !== 'string') return null;
+  return {
+    from: payload.From,
+    text: payload.Body,
+    providerMessageId: typeof payload.MessageSid === 'string' ? payload.MessageSid : undefined,
+  };
+};
@@ -0,0 +1,49 @@
+export interface OutboundSms {
+  to: string;
+  body: string;
+  // Our sms_messages id, passed to providers that can echo it back
+  reference?: string;
+}
+
+export interface SendResult {
+  accepted: boolean;
+  providerMessageId?: string;
+  error?: string;
+  // Whether trying again later could succeed (rate limits, 5xx, network)
+  retryable?: boolean;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: OutboundSms): Promise<SendResult>;
+}
+
+// A delivery report from a provider, normalised
+export interface DeliveryReceipt {
+  providerMessageId: string;
+  status: 'sent' | 'delivered' | 'failed';
+  error?: string;
+  // The number itself is unusable (unknown subscriber, landline, malformed)
+  invalidNumber?: boolean;
+}
+
+// Turns a provider's webhook payload (form or JSON fields) into receipts.
+// Returns null for callbacks that are not delivery reports.
+export type ReceiptParser = (payload: Record<string, unknown>) => DeliveryReceipt | null;
+
+// A text a student sent to our number, normalised
+export interface InboundSms {
+  from: string;
+  text: string;
+  providerMessageId?: string;
+}
+
+export type InboundParser = (payload: Record<string, unknown>) => InboundSms | null;
+
+export const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) throw new Error(`Missing environment variable ${key}`);
+  return value;
+};
+
+export const isRetryableStatus = (status: number) => status === 429 || status >= 500;
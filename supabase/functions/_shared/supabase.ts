@@ -0,0 +1,19 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Service-role client: bypasses RLS, so only use it after authorising the caller
+export const createAdminClient = (): SupabaseClient =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+// Returns the calling user's id when they are admin or registry staff
+export const authorizeRecordsStaff = async (req: Request, admin: SupabaseClient): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data: { user } } = await admin.auth.getUser(token);
+  if (!user) return null;
+
+  const { data: allowed } = await admin.rpc('is_records_staff', { _user_id: user.id });
+  return allowed ? user.id : null;
+};
@@ -0,0 +1,200 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getClassification } from './classification.ts';
+import { formatGpa } from './sms/template.ts';
+
+// USSD sessions in the common gateway callback format (Africa's Talking and
+// most aggregators): every request carries the sessionId, the caller's
+// phoneNumber and text, the choices made so far joined by "*" (e.g. "4*1").
+// Replies starting "CON" keep the session open; "END" closes it.
+
+export interface UssdRequest {
+  sessionId: string;
+  phoneNumber: string;
+  text: string;
+}
+
+export interface UssdOptions {
+  // Answer without changing consent (used by the emulator)
+  dryRun?: boolean;
+}
+
+// Gateways cut longer screens off
+const SCREEN_LIMIT = 182;
+
+const con = (text: string) => `CON ${text}`;
+const end = (text: string) => `END ${text}`;
+
+export const parseUssdRequest = (payload: Record<string, unknown>): UssdRequest | null => {
+  const sessionId = payload.sessionId ? String(payload.sessionId) : '';
+  const phoneNumber = payload.phoneNumber ? String(payload.phoneNumber) : '';
+  if (!sessionId || !phoneNumber) return null;
+  return { sessionId, phoneNumber, text: payload.text ? String(payload.text) : '' };
+};
+
+// Keeps whole lines that fit on one screen and says how many were left out
+const fitScreen = (heading: string, lines: string[]) => {
+  const shown = [heading];
+  for (const [index, line] of lines.entries()) {
+    const remaining = lines.length - index;
+    // Leave room for the "+N more" line unless this is the last one
+    const reserve = remaining > 1 ? `\n+${remaining - 1} more`.length : 0;
+    if ([...shown, line].join('\n').length + reserve > SCREEN_LIMIT) {
+      return [...shown, `+${remaining} more`].join('\n');
+    }
+    shown.push(line);
+  }
+  return shown.join('\n');
+};
+
+interface UssdStudent {
+  id: string;
+  first_name: string;
+  sms_consent: boolean;
+}
+
+// Semesters with a result not yet released; their GPA and CGPA stay hidden
+const heldSemesterIds = async (admin: SupabaseClient, student: UssdStudent) => {
+  const { data, error } = await admin
+    .from('results')
+    .select('semester_id')
+    .eq('student_id', student.id)
+    .is('released_at', null);
+  if (error) throw error;
+  return new Set((data ?? []).map((row) => row.semester_id));
+};
+
+const latestGpaRecord = async (admin: SupabaseClient, student: UssdStudent) => {
+  const [{ data, error }, held] = await Promise.all([
+    admin
+      .from('cgpa_records')
+      .select('semester_gpa, cumulative_gpa, total_credit_units, semesters (id, name, year, sort_order)')
+      .eq('student_id', student.id),
+    heldSemesterIds(admin, student),
+  ]);
+  if (error) throw error;
+  return (data ?? [])
+    .filter((record) => !held.has(record.semesters.id))
+    .sort((a, b) => b.semesters.sort_order - a.semesters.sort_order)[0];
+};
+
+const semesterResults = async (admin: SupabaseClient, student: UssdStudent) => {
+  const { data, error } = await admin
+    .from('results')
+    .select('score, grade, courses (course_code), semesters (id, name, year, sort_order)')
+    .eq('student_id', student.id)
+    .not('released_at', 'is', null);
+  if (error) throw error;
+
+  const results = (data ?? []).sort((a, b) => b.semesters.sort_order - a.semesters.sort_order);
+  if (results.length === 0) return end('No published results yet.');
+
+  // "This semester" is the latest one the student has released results for
+  const semester = results[0].semesters;
+  const lines = results
+    .filter((result) => result.semesters.id === semester.id)
+    .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code))
+    .map((result) => `${result.courses.course_code}: ${result.grade} (${result.score})`);
+
+  return end(fitScreen(`${semester.name} ${semester.year} results`, lines));
+};
+
+const cgpaScreen = async (admin: SupabaseClient, student: UssdStudent) => {
+  const record = await latestGpaRecord(admin, student);
+  if (!record) return end('No CGPA computed yet.');
+
+  return end([
+    `CGPA after ${record.semesters.name} ${record.semesters.year}: ${formatGpa(record.cumulative_gpa)}`,
+    `GPA that semester: ${formatGpa(record.semester_gpa)}`,
+    `Credits completed: ${record.total_credit_units}`,
+  ].join('\n'));
+};
+
+// Best grade point on the student's programme scale, or on the default scale
+const maxGradePoint = async (admin: SupabaseClient, student: UssdStudent) => {
+  const { data: scaleId, error } = await admin.rpc('resolve_grading_scale', { _student_id: student.id, _course_id: null });
+  if (error) throw error;
+
+  const { data, error: scaleError } = await admin
+    .from('grading_scales')
+    .select('max_grade_point')
+    .eq('id', scaleId)
+    .maybeSingle();
+  if (scaleError) throw scaleError;
+  return Number(data?.max_grade_point ?? 4);
+};
+
+const classificationScreen = async (admin: SupabaseClient, student: UssdStudent) => {
+  const [record, maxPoint] = await Promise.all([latestGpaRecord(admin, student), maxGradePoint(admin, student)]);
+  if (!record) return end('No CGPA computed yet.');
+
+  return end(`CGPA ${formatGpa(record.cumulative_gpa)}\nClass: ${getClassification(Number(record.cumulative_gpa), maxPoint)}`);
+};
+
+// Option 4 opts out, or back in once the student has opted out
+const consentScreen = async (
+  admin: SupabaseClient,
+  request: UssdRequest,
+  student: UssdStudent,
+  choice: string | undefined,
+  dryRun: boolean,
+) => {
+  const optOut = student.sms_consent;
+
+  if (choice === undefined) {
+    return con(optOut
+      ? 'Stop result SMS to this number?\n1. Yes\n2. No'
+      : 'Receive result SMS on this number again?\n1. Yes\n2. No');
+  }
+  if (choice !== '1') return end('No changes made.');
+
+  if (!dryRun) {
+    const { error } = await admin.rpc('set_sms_consent_by_phone', {
+      _phone: request.phoneNumber,
+      _consented: !optOut,
+      _note: optOut ? 'Opted out on USSD' : 'Opted in on USSD',
+      _source: 'ussd',
+    });
+    if (error) throw error;
+  }
+
+  return end(optOut
+    ? 'You will no longer receive result SMS. Dial again to opt back in.'
+    : 'You will receive result SMS again.');
+};
+
+// Answers one step of a USSD session for the student registered with the number
+export const handleUssd = async (
+  admin: SupabaseClient,
+  request: UssdRequest,
+  { dryRun = false }: UssdOptions = {},
+): Promise<string> => {
+  const { data: students, error } = await admin.rpc('find_students_by_phone', { _phone: request.phoneNumber });
+  if (error) throw error;
+
+  const student: UssdStudent | undefined = students?.[0];
+  if (!student) {
+    return end('This number is not registered. Please ask the registry to update your phone number.');
+  }
+
+  const [choice, ...rest] = request.text ? request.text.split('*') : [];
+  switch (choice) {
+    case undefined:
+      return con([
+        `Hi ${student.first_name}, choose:`,
+        '1. My results this semester',
+        '2. My CGPA',
+        '3. Classification',
+        student.sms_consent ? '4. Opt out of SMS' : '4. Opt in to SMS',
+      ].join('\n'));
+    case '1':
+      return semesterResults(admin, student);
+    case '2':
+      return cgpaScreen(admin, student);
+    case '3':
+      return classificationScreen(admin, student);
+    case '4':
+      return consentScreen(admin, request, student, rest[0], dryRun);
+    default:
+      return end('Invalid choice. Please dial again.');
+  }
+};
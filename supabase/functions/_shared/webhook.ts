@@ -0,0 +1,21 @@
+// Helpers for endpoints called by SMS providers rather than by the app.
+// Providers cannot send a Supabase JWT, so these functions are deployed with
+// verify_jwt = false and check the shared SMS_WEBHOOK_SECRET, passed as the
+// "token" query parameter, instead.
+
+export const hasValidWebhookToken = (url: URL): boolean => {
+  const secret = Deno.env.get('SMS_WEBHOOK_SECRET');
+  return !!secret && url.searchParams.get('token') === secret;
+};
+
+// Provider named in the URL (?provider=twilio), defaulting to SMS_PROVIDER
+export const webhookProvider = (url: URL): string =>
+  (url.searchParams.get('provider') || Deno.env.get('SMS_PROVIDER') || 'console').toLowerCase();
+
+// Providers post either JSON or form-encoded fields
+export const readWebhookPayload = async (req: Request): Promise<Record<string, unknown>> => {
+  const contentType = req.headers.get('Content-Type') || '';
+  return contentType.includes('application/json')
+    ? await req.json()
+    : Object.fromEntries(new URLSearchParams(await req.text()));
+};
@@ -0,0 +1,53 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorizeRecordsStaff, createAdminClient } from '../_shared/supabase.ts';
+import { getEmailProvider } from '../_shared/email/index.ts';
+import { sendableEmail } from '../_shared/email/address.ts';
+import { courseTableHtml, htmlToText } from '../_shared/sms/template.ts';
+
+// Sends a sample result email straight through the configured provider,
+// bypassing the queue, to check the SMTP settings. Point SMTP_HOST at a
+// local catch-all such as Mailpit to see the message without emailing anyone.
+// Body: { to: string }
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    if (!(await authorizeRecordsStaff(req, admin))) {
+      return jsonResponse({ error: 'Only admin or registry staff can send test emails' }, 403);
+    }
+
+    const { to } = await req.json();
+    const address = sendableEmail(to);
+    if (!address) {
+      return jsonResponse({ error: 'A valid "to" address is required' }, 400);
+    }
+
+    const html = `<p>This is a test email from the student results system.</p>
+<p>Result emails will look like this:</p>
+${courseTableHtml([
+  { course_code: 'CS101', course_name: 'Introduction to Computing', credit_units: 3, score: 78, grade: 'A' },
+  { course_code: 'MTH101', course_name: 'Elementary Mathematics', credit_units: 3, score: 64, grade: 'B' },
+])}`;
+
+    const provider = getEmailProvider();
+    const outcome = await provider.send({
+      to: address,
+      subject: 'Test email from the student results system',
+      html,
+      text: htmlToText(html),
+    });
+
+    return jsonResponse({
+      provider: provider.name,
+      accepted: outcome.accepted,
+      provider_message_id: outcome.providerMessageId,
+      error: outcome.error,
+    }, outcome.accepted ? 200 : 502);
+  } catch (error) {
+    console.error('email-test failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send test email' }, 500);
+  }
+});
@@ -0,0 +1,144 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorizeRecordsStaff, createAdminClient } from '../_shared/supabase.ts';
+import { createChannelSenders } from '../_shared/channels.ts';
+import { sendableEmail } from '../_shared/email/address.ts';
+import { deliverMessage } from '../_shared/sms/dispatch.ts';
+import { loadSmsSettings, smsBudgetExhausted } from '../_shared/sms/settings.ts';
+import { normalisePhone } from '../_shared/phone.ts';
+
+// Sends one result notification immediately through the configured provider
+// for the channel: a text by default, or an email with channel "email".
+// Uses the same idempotency key as the queue, so a result that was already
+// sent (or is being sent by the worker) is never sent twice. With a
+// contact_id the copy goes to that guardian or sponsor instead of the student.
+// Body: { result_id: string, body: string, template_id?: string, contact_id?: string,
+//         channel?: 'sms' | 'email', subject?: string }
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    if (!(await authorizeRecordsStaff(req, admin))) {
+      return jsonResponse({ error: 'Only admin or registry staff can send notifications' }, 403);
+    }
+
+    const { result_id, body, template_id, contact_id, channel = 'sms', subject } = await req.json();
+    if (!result_id || !body) {
+      return jsonResponse({ error: 'result_id and body are required' }, 400);
+    }
+    if (channel !== 'sms' && channel !== 'email') {
+      return jsonResponse({ error: 'channel must be "sms" or "email"' }, 400);
+    }
+    if (channel === 'email' && !subject) {
+      return jsonResponse({ error: 'subject is required for email' }, 400);
+    }
+
+    const { data: result, error: resultError } = await admin
+      .from('results')
+      .select('id, student_id, students (phone_number, email)')
+      .eq('id', result_id)
+      .single();
+
+    if (resultError || !result) {
+      return jsonResponse({ error: 'Result not found' }, 404);
+    }
+
+    const field = channel === 'email' ? 'email' : 'phone_number';
+    let recipient = result.students[field];
+    if (contact_id) {
+      const { data: contact } = await admin
+        .from('student_contacts')
+        .select('id, phone_number, email')
+        .eq('id', contact_id)
+        .eq('student_id', result.student_id)
+        .maybeSingle();
+
+      if (!contact?.[field]) {
+        return jsonResponse({ error: `Contact not found or has no ${channel === 'email' ? 'email address' : 'phone number'}` }, 404);
+      }
+      recipient = contact[field];
+    }
+
+    const settings = await loadSmsSettings(admin);
+    let address: string | null;
+    if (channel === 'email') {
+      address = sendableEmail(recipient);
+      if (!address) {
+        return jsonResponse({ error: `Invalid email address ${recipient}` }, 422);
+      }
+    } else {
+      const phone = normalisePhone(recipient ?? '', settings.default_country);
+      if (!phone.valid) {
+        return jsonResponse({ error: `Invalid phone number ${recipient}: ${phone.error}` }, 422);
+      }
+      if (await smsBudgetExhausted(admin)) {
+        return jsonResponse({ error: 'The monthly SMS budget has been reached; raise it under Settings to send texts' }, 402);
+      }
+      address = phone.e164;
+    }
+
+    // Emails are keyed apart from texts so a result can go out on both
+    const idempotencyKey = (contact_id ? `result:${result.id}:contact:${contact_id}` : `result:${result.id}`)
+      + (channel === 'email' ? ':email' : '');
+    const { data: existing } = await admin
+      .from('sms_messages')
+      .select('id, status, attempts, locked_at')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    if (existing && (existing.status === 'sent' || existing.status === 'delivered')) {
+      return jsonResponse({ error: 'This result has already been sent', message_id: existing.id }, 409);
+    }
+    if (existing?.locked_at) {
+      return jsonResponse({ error: 'This result is already being sent', message_id: existing.id }, 409);
+    }
+
+    const row = {
+      student_id: result.student_id,
+      result_id: result.id,
+      contact_id: contact_id ?? null,
+      channel,
+      recipient: address,
+      subject: channel === 'email' ? subject : null,
+      body,
+      template_id: template_id ?? null,
+      status: 'queued',
+      error: null,
+      attempts: (existing?.attempts ?? 0) + 1,
+      locked_at: new Date().toISOString(),
+      // Re-checked against quiet hours by the hold_sms_in_quiet_hours trigger
+      next_attempt_at: new Date().toISOString(),
+      idempotency_key: idempotencyKey,
+    };
+
+    const { data: message, error: writeError } = existing
+      ? await admin.from('sms_messages').update(row).eq('id', existing.id).select('id, channel, recipient, subject, body, result_id, attempts, status, error, next_attempt_at').single()
+      : await admin.from('sms_messages').insert(row).select('id, channel, recipient, subject, body, result_id, attempts, status, error, next_attempt_at').single();
+
+    if (writeError) throw writeError;
+
+    // The enforce_sms_consent trigger cancels messages to opted-out recipients
+    if (message.status === 'cancelled') {
+      return jsonResponse({ error: message.error, message_id: message.id }, 409);
+    }
+
+    // Held for the end of quiet hours; the sms-worker sends it then
+    if (new Date(message.next_attempt_at) > new Date()) {
+      return jsonResponse({ message_id: message.id, status: 'held', send_at: message.next_attempt_at }, 202);
+    }
+
+    // A single send is not retried in the background: the user sees the outcome
+    const outcome = await deliverMessage(admin, createChannelSenders()(message.channel), message, { ...settings, max_attempts: message.attempts });
+
+    return jsonResponse({
+      message_id: message.id,
+      status: outcome.accepted ? 'sent' : 'failed',
+      error: outcome.error,
+    }, outcome.accepted ? 200 : 502);
+  } catch (error) {
+    console.error('send-sms failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send notification' }, 500);
+  }
+});
@@ -0,0 +1,95 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+import { getInboundParser, getSmsProvider } from '../_shared/sms/index.ts';
+import { sendReply } from '../_shared/sms/dispatch.ts';
+import { handleInboundSms, type KeywordOutcome } from '../_shared/sms/keywords.ts';
+import { hasValidWebhookToken, readWebhookPayload, webhookProvider } from '../_shared/webhook.ts';
+
+// Incoming-message webhook for the SMS providers. Logs every text once in
+// sms_inbound_messages, handles STOP / START and answers RESULT, GPA, CGPA
+// and HELP from registered numbers. Configure each provider with:
+//   https://<project-ref>.supabase.co/functions/v1/sms-inbound?provider=<name>&token=<secret>
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    if (!hasValidWebhookToken(url)) {
+      return jsonResponse({ error: 'Invalid webhook token' }, 401);
+    }
+
+    const provider = webhookProvider(url);
+    const parse = getInboundParser(provider);
+    if (!parse) {
+      return jsonResponse({ error: `Unknown provider "${provider}"` }, 400);
+    }
+
+    const inbound = parse(await readWebhookPayload(req));
+    if (!inbound) {
+      return jsonResponse({ ignored: true });
+    }
+
+    const admin = createAdminClient();
+
+    // Log first so a retried webhook for the same provider message is
+    // recognised before STOP / START or a reply is handled a second time
+    const { data: logged, error: logError } = await admin
+      .from('sms_inbound_messages')
+      .upsert(
+        {
+          provider,
+          provider_message_id: inbound.providerMessageId ?? null,
+          sender: inbound.from,
+          body: inbound.text,
+        },
+        { onConflict: 'provider,provider_message_id', ignoreDuplicates: true }
+      )
+      .select('id')
+      .maybeSingle();
+
+    if (logError) throw logError;
+    if (!logged) {
+      return jsonResponse({ duplicate: true });
+    }
+
+    // A failed attempt leaves no log behind, so the provider's retry is handled
+    let outcome: KeywordOutcome;
+    try {
+      outcome = await handleInboundSms(admin, inbound);
+    } catch (error) {
+      await admin.from('sms_inbound_messages').delete().eq('id', logged.id);
+      throw error;
+    }
+
+    const { error: updateError } = await admin
+      .from('sms_inbound_messages')
+      .update({ student_id: outcome.studentIds[0] ?? null, keyword: outcome.keyword })
+      .eq('id', logged.id);
+
+    if (updateError) throw updateError;
+
+    const reply = outcome.reply
+      ? await sendReply(admin, getSmsProvider(), {
+          to: inbound.from,
+          body: outcome.reply,
+          studentId: outcome.studentIds[0] ?? null,
+          idempotencyKey: `inbound:${logged.id}`,
+        })
+      : null;
+
+    return jsonResponse({
+      inbound_id: logged.id,
+      keyword: outcome.keyword,
+      students: outcome.studentIds.length,
+      replied: reply?.accepted ?? false,
+    });
+  } catch (error) {
+    console.error('sms-inbound failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to process inbound SMS' }, 500);
+  }
+});
@@ -0,0 +1,51 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+import { getReceiptParser } from '../_shared/sms/index.ts';
+import { hasValidWebhookToken, readWebhookPayload, webhookProvider } from '../_shared/webhook.ts';
+
+// Delivery-report webhook for the SMS providers. Configure each provider with:
+//   https://<project-ref>.supabase.co/functions/v1/sms-receipts?provider=<name>&token=<secret>
+// Unknown message ids are acknowledged with 200 so providers do not keep
+// retrying them.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    if (!hasValidWebhookToken(url)) {
+      return jsonResponse({ error: 'Invalid webhook token' }, 401);
+    }
+
+    const provider = webhookProvider(url);
+    const parse = getReceiptParser(provider);
+    if (!parse) {
+      return jsonResponse({ error: `Unknown provider "${provider}"` }, 400);
+    }
+
+    const receipt = parse(await readWebhookPayload(req));
+    if (!receipt) {
+      return jsonResponse({ ignored: true });
+    }
+
+    const admin = createAdminClient();
+    const { data: messageId, error } = await admin.rpc('apply_sms_receipt', {
+      _provider: provider,
+      _provider_message_id: receipt.providerMessageId,
+      _status: receipt.status,
+      _error: receipt.error ?? null,
+      _invalid_number: receipt.invalidNumber ?? false,
+    });
+
+    if (error) throw error;
+
+    return jsonResponse({ message_id: messageId, status: receipt.status, updated: messageId !== null });
+  } catch (error) {
+    console.error('sms-receipts failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to process receipt' }, 500);
+  }
+});
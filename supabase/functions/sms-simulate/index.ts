@@ -0,0 +1,44 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorizeRecordsStaff, createAdminClient } from '../_shared/supabase.ts';
+import { handleInboundSms } from '../_shared/sms/keywords.ts';
+
+// Answers a pretend inbound text exactly like sms-inbound would, without
+// logging it, changing consent or sending the reply. Used by the simulator
+// in the Notifications tab to try commands without a real gateway.
+// Body: { from: string, text: string }
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    if (!(await authorizeRecordsStaff(req, admin))) {
+      return jsonResponse({ error: 'Only admin or registry staff can use the SMS simulator' }, 403);
+    }
+
+    const { from, text } = await req.json();
+    if (!from || !text) {
+      return jsonResponse({ error: 'from and text are required' }, 400);
+    }
+
+    const outcome = await handleInboundSms(admin, { from, text }, { dryRun: true });
+
+    const { data: student } = outcome.studentIds.length > 0
+      ? await admin
+          .from('students')
+          .select('student_id, first_name, last_name, sms_consent')
+          .eq('id', outcome.studentIds[0])
+          .single()
+      : { data: null };
+
+    return jsonResponse({
+      keyword: outcome.keyword,
+      reply: outcome.reply,
+      student,
+    });
+  } catch (error) {
+    console.error('sms-simulate failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to simulate inbound SMS' }, 500);
+  }
+});
@@ -0,0 +1,99 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorizeRecordsStaff, createAdminClient } from '../_shared/supabase.ts';
+import { createChannelSenders } from '../_shared/channels.ts';
+import { deliverMessage } from '../_shared/sms/dispatch.ts';
+import { loadSmsSettings, smsBudgetExhausted } from '../_shared/sms/settings.ts';
+import { queueRiskAlerts } from '../_shared/risk-alerts.ts';
+import { queueResultNotifications } from '../_shared/result-outbox.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Stop claiming new work well before the edge function wall-clock limit
+const TIME_BUDGET_MS = 50_000;
+
+// As in claim_sms_messages: a lock older than this was left by a dead worker
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Drains due messages, texts and emails alike, from the sms_messages queue at
+// sms_settings.rate_per_second (claim_sms_messages holds every running worker
+// to that rate together), after turning due result_outbox rows and pending
+// at-risk alerts into messages. Called by the Notifications tab after a bulk
+// enqueue, by the results and CGPA tabs after a recompute, or every minute by
+// pg_cron with the service-role key (see 20250920093000). Hands over to a
+// fresh invocation when work remains.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const admin = createAdminClient();
+    const isService = req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+    if (!isService && !(await authorizeRecordsStaff(req, admin))) {
+      return jsonResponse({ error: 'Only admin or registry staff can run the SMS worker' }, 403);
+    }
+
+    const settings = await loadSmsSettings(admin);
+    const results = await queueResultNotifications(admin, settings);
+    const alerts = await queueRiskAlerts(admin, settings);
+    const senderFor = createChannelSenders();
+    const interval = 1000 / settings.rate_per_second;
+    const started = Date.now();
+    let processed = 0;
+    let accepted = 0;
+
+    while (Date.now() - started < TIME_BUDGET_MS) {
+      const { data: claimed, error } = await admin.rpc('claim_sms_messages', {
+        _limit: Math.max(1, Math.ceil(settings.rate_per_second)),
+      });
+
+      if (error) throw error;
+      if (!claimed?.length) break;
+
+      for (const message of claimed) {
+        const sendStarted = Date.now();
+        const outcome = await deliverMessage(admin, senderFor(message.channel), message, settings);
+        processed++;
+        if (outcome.accepted) accepted++;
+
+        const wait = interval - (Date.now() - sendStarted);
+        if (wait > 0) await sleep(wait);
+      }
+    }
+
+    // Only hand over when this run made progress and messages the claim would
+    // take are left. Texts paused by the budget and messages locked by
+    // another worker would otherwise keep the worker invoking itself.
+    let remaining = 0;
+    if (processed > 0) {
+      let query = admin
+        .from('sms_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'queued')
+        .lte('next_attempt_at', new Date().toISOString())
+        .or(`locked_at.is.null,locked_at.lt.${new Date(Date.now() - STALE_LOCK_MS).toISOString()}`);
+      if (await smsBudgetExhausted(admin)) query = query.neq('channel', 'sms');
+
+      const { count, error: countError } = await query;
+      if (countError) throw countError;
+      remaining = count ?? 0;
+    }
+
+    if (remaining) {
+      EdgeRuntime.waitUntil(
+        fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/sms-worker`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${serviceKey}` },
+        })
+      );
+    }
+
+    return jsonResponse({ results, alerts, processed, accepted, remaining });
+  } catch (error) {
+    console.error('sms-worker failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'SMS worker failed' }, 500);
+  }
+});
@@ -0,0 +1,30 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { authorizeRecordsStaff, createAdminClient } from '../_shared/supabase.ts';
+import { handleUssd, parseUssdRequest } from '../_shared/ussd.ts';
+
+// Answers one step of a pretend USSD session exactly like the ussd function
+// would, without changing consent. Used by the USSD emulator in the
+// Notifications tab.
+// Body: { sessionId: string, phoneNumber: string, text: string }
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const admin = createAdminClient();
+    if (!(await authorizeRecordsStaff(req, admin))) {
+      return jsonResponse({ error: 'Only admin or registry staff can use the USSD emulator' }, 403);
+    }
+
+    const request = parseUssdRequest(await req.json());
+    if (!request) {
+      return jsonResponse({ error: 'sessionId and phoneNumber are required' }, 400);
+    }
+
+    return jsonResponse({ response: await handleUssd(admin, request, { dryRun: true }) });
+  } catch (error) {
+    console.error('ussd-simulate failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to simulate USSD' }, 500);
+  }
+});
@@ -0,0 +1,42 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+import { handleUssd, parseUssdRequest } from '../_shared/ussd.ts';
+import { hasValidWebhookToken, readWebhookPayload } from '../_shared/webhook.ts';
+
+// USSD callback for the gateway's service code. Students dial in to see their
+// latest results, CGPA and classification, or to opt out of SMS. Configure
+// the service code's callback URL as:
+//   https://<project-ref>.supabase.co/functions/v1/ussd?token=<secret>
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const url = new URL(req.url);
+    if (!hasValidWebhookToken(url)) {
+      return jsonResponse({ error: 'Invalid webhook token' }, 401);
+    }
+
+    const request = parseUssdRequest(await readWebhookPayload(req));
+    if (!request) {
+      return jsonResponse({ error: 'sessionId and phoneNumber are required' }, 400);
+    }
+
+    const screen = await handleUssd(createAdminClient(), request);
+
+    return new Response(screen, {
+      headers: { ...corsHeaders, 'Content-Type': 'text/plain' },
+    });
+  } catch (error) {
+    console.error('ussd failed:', error);
+    // Gateways show the body to the caller, so end the session politely
+    return new Response('END Sorry, something went wrong. Please try again later.', {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'text/plain' },
+    });
+  }
+});
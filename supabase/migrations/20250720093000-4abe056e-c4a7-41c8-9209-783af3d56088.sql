@@ -0,0 +1,154 @@
+-- Semester GPA / CGPA computation engine.
+-- cgpa_records is derived data: it is rebuilt from results whenever a result
+-- changes, so it must never be edited by hand.
+
+-- Recompute a student's cgpa_records from the given semester onwards.
+-- Semesters are walked chronologically so the cumulative figures of every
+-- later semester pick up the change. Passing NULL recomputes all semesters.
+CREATE OR REPLACE FUNCTION public.recompute_student_cgpa(_student_id UUID, _from_semester_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_date DATE;
+  sem RECORD;
+  cumulative_points NUMERIC := 0;
+  cumulative_units INTEGER := 0;
+BEGIN
+  -- Nothing to rebuild while the student itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM students WHERE id = _student_id) THEN
+    RETURN;
+  END IF;
+
+  IF _from_semester_id IS NOT NULL THEN
+    SELECT start_date INTO from_date FROM semesters WHERE id = _from_semester_id;
+  END IF;
+
+  -- Drop records from the affected range; they are rebuilt below and any
+  -- semester that no longer has results simply stays deleted.
+  DELETE FROM cgpa_records cr
+  USING semesters s
+  WHERE cr.semester_id = s.id
+    AND cr.student_id = _student_id
+    AND (from_date IS NULL OR s.start_date >= from_date);
+
+  FOR sem IN
+    SELECT s.id,
+           s.start_date,
+           SUM(r.grade_point * c.credit_units) AS points,
+           SUM(c.credit_units)::INTEGER AS units
+    FROM results r
+    JOIN courses c ON c.id = r.course_id
+    JOIN semesters s ON s.id = r.semester_id
+    WHERE r.student_id = _student_id
+    GROUP BY s.id, s.start_date
+    ORDER BY s.start_date
+  LOOP
+    cumulative_points := cumulative_points + sem.points;
+    cumulative_units := cumulative_units + sem.units;
+
+    IF from_date IS NULL OR sem.start_date >= from_date THEN
+      INSERT INTO cgpa_records (student_id, semester_id, semester_gpa, cumulative_gpa, total_credit_units)
+      VALUES (
+        _student_id,
+        sem.id,
+        ROUND(sem.points / NULLIF(sem.units, 0), 2),
+        ROUND(cumulative_points / NULLIF(cumulative_units, 0), 2),
+        cumulative_units
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Backfill: rebuild cgpa_records for every student with results.
+-- Returns the number of students recomputed.
+CREATE OR REPLACE FUNCTION public.recompute_all_cgpa()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stu RECORD;
+  processed INTEGER := 0;
+BEGIN
+  DELETE FROM cgpa_records WHERE student_id NOT IN (SELECT DISTINCT student_id FROM results);
+
+  FOR stu IN SELECT DISTINCT student_id FROM results LOOP
+    PERFORM recompute_student_cgpa(stu.student_id, NULL);
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+-- Keep cgpa_records in sync with results
+CREATE OR REPLACE FUNCTION public.handle_result_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- An update that only touches sms_sent etc. does not change the GPA
+  IF TG_OP = 'UPDATE'
+     AND NEW.student_id = OLD.student_id
+     AND NEW.semester_id = OLD.semester_id
+     AND NEW.course_id = OLD.course_id
+     AND NEW.grade_point = OLD.grade_point THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recompute_student_cgpa(OLD.student_id, OLD.semester_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recompute_student_cgpa(NEW.student_id, NEW.semester_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recompute_cgpa_on_result_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_result_change();
+
+-- Changing a course's credit units changes the weighting of every result in it
+CREATE OR REPLACE FUNCTION public.handle_course_credit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected RECORD;
+BEGIN
+  FOR affected IN
+    SELECT r.student_id, (array_agg(r.semester_id ORDER BY s.start_date))[1] AS semester_id
+    FROM results r
+    JOIN semesters s ON s.id = r.semester_id
+    WHERE r.course_id = NEW.id
+    GROUP BY r.student_id
+  LOOP
+    PERFORM recompute_student_cgpa(affected.student_id, affected.semester_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recompute_cgpa_on_credit_change
+  AFTER UPDATE OF credit_units ON public.courses
+  FOR EACH ROW
+  WHEN (OLD.credit_units IS DISTINCT FROM NEW.credit_units)
+  EXECUTE FUNCTION public.handle_course_credit_change();
+
+-- Populate records for results entered before the engine existed
+SELECT public.recompute_all_cgpa();
@@ -0,0 +1,199 @@
+-- Configurable grading scales.
+-- Grades are data: a scale is a set of score bands, and a scale can be
+-- assigned to a course or to a program, falling back to the default scale.
+
+CREATE TABLE public.grading_scales (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  max_grade_point DECIMAL(3,2) NOT NULL CHECK (max_grade_point > 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one scale can be the default
+CREATE UNIQUE INDEX grading_scales_single_default ON public.grading_scales (is_default) WHERE is_default;
+
+CREATE TABLE public.grade_bands (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  grading_scale_id UUID NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE,
+  letter VARCHAR(2) NOT NULL,
+  min_score DECIMAL(5,2) NOT NULL CHECK (min_score >= 0 AND min_score <= 100),
+  grade_point DECIMAL(3,2) NOT NULL CHECK (grade_point >= 0),
+  is_pass BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(grading_scale_id, letter),
+  UNIQUE(grading_scale_id, min_score)
+);
+
+CREATE TABLE public.program_grading_scales (
+  program TEXT NOT NULL PRIMARY KEY,
+  grading_scale_id UUID NOT NULL REFERENCES grading_scales(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.courses
+  ADD COLUMN grading_scale_id UUID REFERENCES grading_scales(id) ON DELETE SET NULL;
+
+ALTER TABLE public.grading_scales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grade_bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.program_grading_scales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to grading_scales" ON public.grading_scales FOR ALL USING (true);
+CREATE POLICY "Allow public access to grade_bands" ON public.grade_bands FOR ALL USING (true);
+CREATE POLICY "Allow public access to program_grading_scales" ON public.program_grading_scales FOR ALL USING (true);
+
+CREATE TRIGGER update_grading_scales_updated_at
+  BEFORE UPDATE ON public.grading_scales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A band cannot award more than its scale's maximum grade point
+CREATE OR REPLACE FUNCTION public.validate_grade_band()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.grade_point > (SELECT max_grade_point FROM grading_scales WHERE id = NEW.grading_scale_id) THEN
+    RAISE EXCEPTION 'Grade point % exceeds the maximum for this scale', NEW.grade_point;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_grade_band
+  BEFORE INSERT OR UPDATE ON public.grade_bands
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_grade_band();
+
+-- Grade points are bounded by the scale, not by a fixed 4.0
+ALTER TABLE public.results DROP CONSTRAINT results_grade_point_check;
+ALTER TABLE public.results ADD CONSTRAINT results_grade_point_check CHECK (grade_point >= 0);
+ALTER TABLE public.results ADD COLUMN is_pass BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.cgpa_records DROP CONSTRAINT cgpa_records_semester_gpa_check;
+ALTER TABLE public.cgpa_records ADD CONSTRAINT cgpa_records_semester_gpa_check CHECK (semester_gpa >= 0);
+ALTER TABLE public.cgpa_records DROP CONSTRAINT cgpa_records_cumulative_gpa_check;
+ALTER TABLE public.cgpa_records ADD CONSTRAINT cgpa_records_cumulative_gpa_check CHECK (cumulative_gpa >= 0);
+
+-- Scale used for a student's result in a course: course, then program, then default
+CREATE OR REPLACE FUNCTION public.resolve_grading_scale(_student_id UUID, _course_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT grading_scale_id FROM courses WHERE id = _course_id),
+    (SELECT pgs.grading_scale_id
+       FROM program_grading_scales pgs
+       JOIN students s ON s.program = pgs.program
+      WHERE s.id = _student_id),
+    (SELECT id FROM grading_scales WHERE is_default)
+  );
+$$;
+
+-- Replaces the hard-coded A–F version from the initial schema
+DROP FUNCTION public.calculate_grade(DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.calculate_grade(score DECIMAL, _grading_scale_id UUID DEFAULT NULL)
+RETURNS TABLE(grade VARCHAR(2), grade_point DECIMAL(3,2), is_pass BOOLEAN)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.letter, b.grade_point, b.is_pass
+  FROM grade_bands b
+  WHERE b.grading_scale_id = COALESCE(_grading_scale_id, (SELECT id FROM grading_scales WHERE is_default))
+    AND b.min_score <= score
+  ORDER BY b.min_score DESC
+  LIMIT 1;
+$$;
+
+-- The database is authoritative for grades: whatever the client sends,
+-- grade and grade_point are derived from the score and the resolved scale.
+CREATE OR REPLACE FUNCTION public.assign_result_grade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  graded RECORD;
+BEGIN
+  SELECT * INTO graded
+  FROM calculate_grade(NEW.score, resolve_grading_scale(NEW.student_id, NEW.course_id));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No grade band covers score % for this course', NEW.score;
+  END IF;
+
+  NEW.grade := graded.grade;
+  NEW.grade_point := graded.grade_point;
+  NEW.is_pass := graded.is_pass;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_result_grade
+  BEFORE INSERT OR UPDATE OF score, student_id, course_id ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_result_grade();
+
+-- Re-grade existing results after a scale or its assignment changes.
+-- Returns the number of results re-graded.
+CREATE OR REPLACE FUNCTION public.regrade_results(_grading_scale_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  UPDATE results r
+  SET score = r.score
+  WHERE _grading_scale_id IS NULL
+     OR resolve_grading_scale(r.student_id, r.course_id) = _grading_scale_id;
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$;
+
+-- Seed scales. The standard scale matches the thresholds used until now.
+INSERT INTO public.grading_scales (name, description, max_grade_point, is_default) VALUES
+('Standard 4-Point', 'A–F on a 4.0 scale', 4.0, true),
+('5-Point', 'A–F on a 5.0 scale', 5.0, false),
+('Plus/Minus 4-Point', 'Letter grades with plus/minus on a 4.0 scale', 4.0, false);
+
+INSERT INTO public.grade_bands (grading_scale_id, letter, min_score, grade_point, is_pass)
+SELECT s.id, b.letter, b.min_score, b.grade_point, b.is_pass
+FROM public.grading_scales s
+JOIN (VALUES
+  ('Standard 4-Point', 'A', 70, 4.0, true),
+  ('Standard 4-Point', 'B', 60, 3.0, true),
+  ('Standard 4-Point', 'C', 50, 2.0, true),
+  ('Standard 4-Point', 'D', 45, 1.0, true),
+  ('Standard 4-Point', 'E', 40, 0.0, true),
+  ('Standard 4-Point', 'F', 0, 0.0, false),
+  ('5-Point', 'A', 70, 5.0, true),
+  ('5-Point', 'B', 60, 4.0, true),
+  ('5-Point', 'C', 50, 3.0, true),
+  ('5-Point', 'D', 45, 2.0, true),
+  ('5-Point', 'E', 40, 1.0, true),
+  ('5-Point', 'F', 0, 0.0, false),
+  ('Plus/Minus 4-Point', 'A', 90, 4.0, true),
+  ('Plus/Minus 4-Point', 'A-', 85, 3.7, true),
+  ('Plus/Minus 4-Point', 'B+', 80, 3.3, true),
+  ('Plus/Minus 4-Point', 'B', 75, 3.0, true),
+  ('Plus/Minus 4-Point', 'B-', 70, 2.7, true),
+  ('Plus/Minus 4-Point', 'C+', 65, 2.3, true),
+  ('Plus/Minus 4-Point', 'C', 60, 2.0, true),
+  ('Plus/Minus 4-Point', 'C-', 55, 1.7, true),
+  ('Plus/Minus 4-Point', 'D+', 50, 1.3, true),
+  ('Plus/Minus 4-Point', 'D', 45, 1.0, true),
+  ('Plus/Minus 4-Point', 'F', 0, 0.0, false)
+) AS b(scale, letter, min_score, grade_point, is_pass) ON b.scale = s.name;
+
+-- Fill is_pass for results graded before scales existed
+SELECT public.regrade_results();
@@ -0,0 +1,264 @@
+-- Authentication and role-based access.
+-- Replaces the open "public access" policies with per-role policies.
+
+CREATE TYPE public.app_role AS ENUM ('admin', 'registry', 'lecturer', 'advisor', 'student');
+
+-- One profile per auth user, so staff can be listed and assigned by name
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, role)
+);
+
+-- Lecturers may only record results for courses they are allocated
+CREATE TABLE public.course_allocations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  lecturer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(course_id, lecturer_id)
+);
+
+-- A student's own login and assigned academic advisor
+ALTER TABLE public.students
+  ADD COLUMN user_id UUID UNIQUE REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN advisor_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Role helpers. SECURITY DEFINER so policies can call them without
+-- recursing into the RLS of user_roles itself.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles app_role[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = _user_id AND role = ANY(_roles));
+$$;
+
+-- Admin and registry staff manage all academic records
+CREATE OR REPLACE FUNCTION public.is_records_staff(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_any_role(_user_id, ARRAY['admin', 'registry']::app_role[]);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_course_lecturer(_user_id UUID, _course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'lecturer')
+     AND EXISTS (SELECT 1 FROM course_allocations WHERE lecturer_id = _user_id AND course_id = _course_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_student_advisor(_user_id UUID, _student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'advisor')
+     AND EXISTS (SELECT 1 FROM students WHERE id = _student_id AND advisor_id = _user_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_student_self(_user_id UUID, _student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM students WHERE id = _student_id AND user_id = _user_id);
+$$;
+
+-- New sign-ups get a profile. The very first user becomes admin, and a
+-- user whose email matches a student record is linked to it as a student.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_student UUID;
+BEGIN
+  INSERT INTO profiles (id, full_name, email)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'full_name', NEW.email);
+
+  IF NOT EXISTS (SELECT 1 FROM user_roles WHERE role = 'admin') THEN
+    INSERT INTO user_roles (user_id, role) VALUES (NEW.id, 'admin');
+  END IF;
+
+  UPDATE students SET user_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND user_id IS NULL
+  RETURNING id INTO linked_student;
+
+  IF linked_student IS NOT NULL THEN
+    INSERT INTO user_roles (user_id, role) VALUES (NEW.id, 'student') ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+-- Internal engine functions are only reachable through triggers
+REVOKE EXECUTE ON FUNCTION public.recompute_student_cgpa(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Backfilling is a records-staff action
+CREATE OR REPLACE FUNCTION public.recompute_all_cgpa()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stu RECORD;
+  processed INTEGER := 0;
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can recompute CGPA';
+  END IF;
+
+  DELETE FROM cgpa_records WHERE student_id NOT IN (SELECT DISTINCT student_id FROM results);
+
+  FOR stu IN SELECT DISTINCT student_id FROM results LOOP
+    PERFORM recompute_student_cgpa(stu.student_id, NULL);
+    processed := processed + 1;
+  END LOOP;
+
+  RETURN processed;
+END;
+$$;
+
+-- Replace the open policies
+DROP POLICY "Allow public access to students" ON public.students;
+DROP POLICY "Allow public access to courses" ON public.courses;
+DROP POLICY "Allow public access to semesters" ON public.semesters;
+DROP POLICY "Allow public access to results" ON public.results;
+DROP POLICY "Allow public access to cgpa_records" ON public.cgpa_records;
+DROP POLICY "Allow public access to grading_scales" ON public.grading_scales;
+DROP POLICY "Allow public access to grade_bands" ON public.grade_bands;
+DROP POLICY "Allow public access to program_grading_scales" ON public.program_grading_scales;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_allocations ENABLE ROW LEVEL SECURITY;
+
+-- profiles
+CREATE POLICY "Users can view profiles" ON public.profiles
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can update their own profile" ON public.profiles
+  FOR UPDATE TO authenticated USING (id = auth.uid());
+CREATE POLICY "Admins can manage profiles" ON public.profiles
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- user_roles
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT TO authenticated USING (user_id = auth.uid() OR public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can manage roles" ON public.user_roles
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- course_allocations
+CREATE POLICY "Staff can view course allocations" ON public.course_allocations
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage course allocations" ON public.course_allocations
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- students
+CREATE POLICY "Records staff and lecturers can view students" ON public.students
+  FOR SELECT TO authenticated
+  USING (public.is_records_staff(auth.uid()) OR public.has_role(auth.uid(), 'lecturer'));
+CREATE POLICY "Advisors can view their advisees" ON public.students
+  FOR SELECT TO authenticated USING (advisor_id = auth.uid() AND public.has_role(auth.uid(), 'advisor'));
+CREATE POLICY "Students can view their own record" ON public.students
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Records staff can manage students" ON public.students
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- courses, semesters and grading configuration are readable by every signed-in user
+CREATE POLICY "Users can view courses" ON public.courses
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage courses" ON public.courses
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE POLICY "Users can view semesters" ON public.semesters
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage semesters" ON public.semesters
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE POLICY "Users can view grading scales" ON public.grading_scales
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage grading scales" ON public.grading_scales
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE POLICY "Users can view grade bands" ON public.grade_bands
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage grade bands" ON public.grade_bands
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE POLICY "Users can view program grading scales" ON public.program_grading_scales
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage program grading scales" ON public.program_grading_scales
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- results
+CREATE POLICY "Records staff can manage results" ON public.results
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Lecturers can view results for their courses" ON public.results
+  FOR SELECT TO authenticated USING (public.is_course_lecturer(auth.uid(), course_id));
+CREATE POLICY "Lecturers can add results for their courses" ON public.results
+  FOR INSERT TO authenticated WITH CHECK (public.is_course_lecturer(auth.uid(), course_id));
+CREATE POLICY "Lecturers can update results for their courses" ON public.results
+  FOR UPDATE TO authenticated
+  USING (public.is_course_lecturer(auth.uid(), course_id))
+  WITH CHECK (public.is_course_lecturer(auth.uid(), course_id));
+CREATE POLICY "Advisors can view their advisees' results" ON public.results
+  FOR SELECT TO authenticated USING (public.is_student_advisor(auth.uid(), student_id));
+CREATE POLICY "Students can view their own results" ON public.results
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
+
+-- cgpa_records are written only by the computation engine
+CREATE POLICY "Records staff can view CGPA records" ON public.cgpa_records
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Advisors can view their advisees' CGPA records" ON public.cgpa_records
+  FOR SELECT TO authenticated USING (public.is_student_advisor(auth.uid(), student_id));
+CREATE POLICY "Students can view their own CGPA records" ON public.cgpa_records
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
@@ -0,0 +1,59 @@
+-- Persistent log of every SMS the system sends
+
+CREATE TYPE public.sms_status AS ENUM ('queued', 'sent', 'delivered', 'failed');
+
+CREATE TABLE public.sms_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  result_id UUID REFERENCES results(id) ON DELETE SET NULL,
+  recipient TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status sms_status NOT NULL DEFAULT 'queued',
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sms_messages_status_created_at_idx ON public.sms_messages (status, created_at DESC);
+CREATE INDEX sms_messages_student_id_idx ON public.sms_messages (student_id);
+CREATE INDEX sms_messages_provider_message_id_idx ON public.sms_messages (provider_message_id);
+
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can manage SMS messages" ON public.sms_messages
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Students can view their own SMS messages" ON public.sms_messages
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
+
+CREATE TRIGGER update_sms_messages_updated_at
+  BEFORE UPDATE ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stamp the timestamp that matches each status transition
+CREATE OR REPLACE FUNCTION public.stamp_sms_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'sent' THEN NEW.sent_at := COALESCE(NEW.sent_at, now());
+      WHEN 'delivered' THEN NEW.delivered_at := COALESCE(NEW.delivered_at, now());
+      WHEN 'failed' THEN NEW.failed_at := COALESCE(NEW.failed_at, now());
+      ELSE NULL;
+    END CASE;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_sms_status
+  BEFORE INSERT OR UPDATE ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_sms_status();
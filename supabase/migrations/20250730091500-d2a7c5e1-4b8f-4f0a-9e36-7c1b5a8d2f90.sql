@@ -0,0 +1,84 @@
+-- SMS dispatch queue.
+-- sms_messages doubles as the outbox: rows are inserted as 'queued' and the
+-- sms-worker edge function drains them at a configured rate with retries.
+--
+-- To drain the queue even when nobody kicks the worker from the SMS tab,
+-- schedule it with pg_cron + pg_net, e.g.:
+--   SELECT cron.schedule('sms-worker', '* * * * *', $$
+--     SELECT net.http_post(
+--       url := 'https://<project-ref>.supabase.co/functions/v1/sms-worker',
+--       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--     );
+--   $$);
+
+-- Singleton row of dispatch settings
+CREATE TABLE public.sms_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  rate_per_second DECIMAL(5,2) NOT NULL DEFAULT 5 CHECK (rate_per_second > 0),
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  retry_base_seconds INTEGER NOT NULL DEFAULT 30 CHECK (retry_base_seconds > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.sms_settings DEFAULT VALUES;
+
+-- A bulk send; its messages report progress together
+CREATE TABLE public.sms_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sms_messages
+  ADD COLUMN batch_id UUID REFERENCES sms_batches(id) ON DELETE SET NULL,
+  -- e.g. "result:<result id>"; guarantees one message per notification
+  ADD COLUMN idempotency_key TEXT UNIQUE,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN locked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX sms_messages_queue_idx ON public.sms_messages (next_attempt_at) WHERE status = 'queued';
+CREATE INDEX sms_messages_batch_id_idx ON public.sms_messages (batch_id);
+
+ALTER TABLE public.sms_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sms_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view SMS settings" ON public.sms_settings
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can update SMS settings" ON public.sms_settings
+  FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+CREATE POLICY "Records staff can manage SMS batches" ON public.sms_batches
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE TRIGGER update_sms_settings_updated_at
+  BEFORE UPDATE ON public.sms_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim up to _limit due messages for one worker. SKIP LOCKED lets several
+-- workers run at once; a claim older than five minutes is considered abandoned.
+CREATE OR REPLACE FUNCTION public.claim_sms_messages(_limit INTEGER)
+RETURNS SETOF public.sms_messages
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE sms_messages
+  SET locked_at = now(), attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM sms_messages
+    WHERE status = 'queued'
+      AND next_attempt_at <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_sms_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Live progress for the SMS tab
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sms_messages;
@@ -0,0 +1,37 @@
+-- Editable SMS message templates.
+-- Bodies use {placeholder} tokens that the SMS tab fills in per result:
+-- {first_name}, {last_name}, {student_id}, {course_code}, {course_name},
+-- {score}, {grade}, {semester} and {cgpa}.
+
+CREATE TABLE public.sms_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one template can be the default
+CREATE UNIQUE INDEX sms_templates_single_default ON public.sms_templates (is_default) WHERE is_default;
+
+-- Which template produced each message
+ALTER TABLE public.sms_messages
+  ADD COLUMN template_id UUID REFERENCES sms_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.sms_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view SMS templates" ON public.sms_templates
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can manage SMS templates" ON public.sms_templates
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sms_templates_updated_at
+  BEFORE UPDATE ON public.sms_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.sms_templates (name, body, is_default) VALUES
+  ('Result notification', 'Dear {first_name}, your {course_code} result for {semester}: {score}% (Grade {grade}). CGPA: {cgpa}. Visit the portal for details.', true),
+  ('Result notification (detailed)', 'Dear {first_name}, your {course_code} ({course_name}) result for {semester} is now available. Score: {score}% (Grade {grade}). Visit the portal for details.', false),
+  ('Result notification (short)', '{first_name}: {course_code} {grade} ({score}%). CGPA {cgpa}.', false);
@@ -0,0 +1,55 @@
+-- Semester summary SMS: one message (or a few single-segment parts) covers
+-- all of a student's unsent results for a semester.
+
+-- Results covered by a message, for messages that cover more than one
+CREATE TABLE public.sms_message_results (
+  message_id UUID NOT NULL REFERENCES sms_messages(id) ON DELETE CASCADE,
+  result_id UUID NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+  PRIMARY KEY (message_id, result_id)
+);
+
+CREATE INDEX sms_message_results_result_id_idx ON public.sms_message_results (result_id);
+
+ALTER TABLE public.sms_message_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can manage SMS message results" ON public.sms_message_results
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- Mark results as notified once every message covering them has gone out.
+-- A summary split into parts only counts once all of its parts are sent.
+CREATE OR REPLACE FUNCTION public.mark_results_notified()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('sent', 'delivered') OR OLD.status IN ('sent', 'delivered') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE results r
+  SET sms_sent = true
+  WHERE NOT r.sms_sent
+    AND (
+      r.id = NEW.result_id
+      OR r.id IN (SELECT result_id FROM sms_message_results WHERE message_id = NEW.id)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM sms_message_results link
+      JOIN sms_messages m ON m.id = link.message_id
+      WHERE link.result_id = r.id
+        AND m.status NOT IN ('sent', 'delivered')
+        -- Only siblings of this message; older failed sends don't block
+        AND m.batch_id IS NOT DISTINCT FROM NEW.batch_id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_results_notified
+  AFTER UPDATE OF status ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_results_notified();
@@ -0,0 +1,78 @@
+-- Delivery receipts.
+-- Providers report the final fate of each message to the sms-receipts edge
+-- function, which applies them here. Numbers that fail permanently (unknown
+-- subscriber, landline, malformed) are flagged on the student record.
+
+ALTER TABLE public.students
+  ADD COLUMN phone_invalid_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN phone_invalid_reason TEXT;
+
+-- A corrected phone number clears the invalid flag
+CREATE OR REPLACE FUNCTION public.clear_phone_invalid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    NEW.phone_invalid_at := NULL;
+    NEW.phone_invalid_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_phone_invalid
+  BEFORE UPDATE OF phone_number ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_phone_invalid();
+
+CREATE INDEX sms_messages_undelivered_idx ON public.sms_messages (created_at DESC) WHERE status IN ('sent', 'failed');
+
+-- Apply one receipt. Receipts can arrive out of order, so a message never
+-- moves backwards: delivered is final and a late "sent" is ignored.
+-- Returns the message id, or NULL when no message matched or nothing changed.
+CREATE OR REPLACE FUNCTION public.apply_sms_receipt(
+  _provider TEXT,
+  _provider_message_id TEXT,
+  _status sms_status,
+  _error TEXT DEFAULT NULL,
+  _invalid_number BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message sms_messages%ROWTYPE;
+BEGIN
+  UPDATE sms_messages
+  SET status = _status,
+      error = CASE WHEN _status = 'failed' THEN COALESCE(_error, 'Not delivered') ELSE error END
+  WHERE provider = _provider
+    AND provider_message_id = _provider_message_id
+    AND (
+      (_status = 'sent' AND status = 'queued')
+      OR (_status = 'delivered' AND status IN ('queued', 'sent', 'failed'))
+      OR (_status = 'failed' AND status IN ('queued', 'sent'))
+    )
+  RETURNING * INTO _message;
+
+  IF _message.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only flag the number the message actually went to
+  IF _status = 'failed' AND _invalid_number AND _message.student_id IS NOT NULL THEN
+    UPDATE students
+    SET phone_invalid_at = now(),
+        phone_invalid_reason = COALESCE(_error, 'Rejected by the network')
+    WHERE id = _message.student_id
+      AND phone_number = _message.recipient;
+  END IF;
+
+  RETURN _message.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_sms_receipt(TEXT, TEXT, sms_status, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
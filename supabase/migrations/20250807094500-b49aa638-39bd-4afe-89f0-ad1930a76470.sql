@@ -0,0 +1,189 @@
+-- SMS consent.
+-- Students can be opted out of notifications by staff or by texting STOP.
+-- Every change is recorded in notification_consent_log, and messages to
+-- opted-out students are cancelled instead of sent.
+
+ALTER TYPE public.sms_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE public.students
+  ADD COLUMN sms_consent BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN sms_consent_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- STOP confirmations must reach students who just opted out
+ALTER TABLE public.sms_messages
+  ADD COLUMN bypass_consent BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.notification_consent_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL DEFAULT 'sms',
+  consented BOOLEAN NOT NULL,
+  -- 'staff', 'sms_keyword' or 'system'
+  source TEXT NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notification_consent_log_student_id_idx ON public.notification_consent_log (student_id, created_at DESC);
+
+-- Inbound texts, kept for the consent audit and keyword handling
+CREATE TABLE public.sms_inbound_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  provider_message_id TEXT,
+  sender TEXT NOT NULL,
+  body TEXT NOT NULL,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  keyword TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sms_inbound_messages_created_at_idx ON public.sms_inbound_messages (created_at DESC);
+
+ALTER TABLE public.notification_consent_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sms_inbound_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view consent changes" ON public.notification_consent_log
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Students can view their own consent changes" ON public.notification_consent_log
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
+CREATE POLICY "Records staff can view inbound SMS" ON public.sms_inbound_messages
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- Audit every consent change, whoever makes it. Functions that change
+-- consent on someone's behalf set app.consent_source and app.consent_note.
+CREATE OR REPLACE FUNCTION public.log_sms_consent_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sms_consent IS DISTINCT FROM OLD.sms_consent THEN
+    NEW.sms_consent_updated_at := now();
+
+    INSERT INTO notification_consent_log (student_id, channel, consented, source, note, changed_by)
+    VALUES (
+      NEW.id,
+      'sms',
+      NEW.sms_consent,
+      COALESCE(
+        NULLIF(current_setting('app.consent_source', true), ''),
+        CASE WHEN auth.uid() IS NOT NULL THEN 'staff' ELSE 'system' END
+      ),
+      NULLIF(current_setting('app.consent_note', true), ''),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sms_consent_change
+  BEFORE UPDATE OF sms_consent ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_sms_consent_change();
+
+-- Opting out cancels anything still waiting in the queue
+CREATE OR REPLACE FUNCTION public.cancel_queued_sms_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.sms_consent AND NOT NEW.sms_consent THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of SMS', locked_at = NULL
+    WHERE student_id = NEW.id
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_queued_sms_on_opt_out
+  AFTER UPDATE OF sms_consent ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_queued_sms_on_opt_out();
+
+-- Never queue a message for an opted-out student, however it was created
+CREATE OR REPLACE FUNCTION public.enforce_sms_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'queued'
+    AND NOT NEW.bypass_consent
+    AND EXISTS (SELECT 1 FROM students WHERE id = NEW.student_id AND NOT sms_consent)
+  THEN
+    NEW.status := 'cancelled';
+    NEW.error := 'Recipient has opted out of SMS';
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_sms_consent
+  BEFORE INSERT OR UPDATE OF status ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_sms_consent();
+
+-- Match a phone number to students ignoring formatting and country prefix
+CREATE OR REPLACE FUNCTION public.phone_matches(_stored TEXT, _incoming TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT right(regexp_replace(_stored, '\D', '', 'g'), 10) = right(regexp_replace(_incoming, '\D', '', 'g'), 10)
+    AND length(regexp_replace(_incoming, '\D', '', 'g')) >= 7;
+$$;
+
+-- Consent change requested by text message (STOP / START)
+CREATE OR REPLACE FUNCTION public.set_sms_consent_by_phone(_phone TEXT, _consented BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.consent_source', 'sms_keyword', true);
+  PERFORM set_config('app.consent_note', COALESCE(_note, ''), true);
+
+  UPDATE students
+  SET sms_consent = _consented
+  WHERE phone_matches(phone_number, _phone)
+    AND sms_consent IS DISTINCT FROM _consented;
+
+  PERFORM set_config('app.consent_source', '', true);
+  PERFORM set_config('app.consent_note', '', true);
+
+  -- Every student with this number, including those already in that state
+  RETURN QUERY SELECT id FROM students WHERE phone_matches(phone_number, _phone);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_sms_consent_by_phone(TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Consent change made by staff, with an optional reason for the audit log
+CREATE OR REPLACE FUNCTION public.set_sms_consent(_student_id UUID, _consented BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can change SMS consent';
+  END IF;
+
+  PERFORM set_config('app.consent_note', COALESCE(_note, ''), true);
+  UPDATE students SET sms_consent = _consented WHERE id = _student_id;
+  PERFORM set_config('app.consent_note', '', true);
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Two-way SMS: replies to RESULT / GPA / CGPA / HELP texts use templates too.
+-- Each template now has a purpose, and each purpose its own default.
+
+ALTER TABLE public.sms_templates
+  ADD COLUMN purpose TEXT NOT NULL DEFAULT 'result_notification'
+    CHECK (purpose IN ('result_notification', 'reply_result', 'reply_gpa', 'reply_cgpa', 'reply_help', 'reply_not_found'));
+
+DROP INDEX public.sms_templates_single_default;
+CREATE UNIQUE INDEX sms_templates_single_default ON public.sms_templates (purpose) WHERE is_default;
+
+INSERT INTO public.sms_templates (name, purpose, body, is_default) VALUES
+  ('Reply: course result', 'reply_result', '{first_name}: {course_code} ({semester}) {score}% Grade {grade}. CGPA {cgpa}.', true),
+  ('Reply: semester GPA', 'reply_gpa', '{first_name}: your GPA for {semester} is {gpa}. CGPA {cgpa}.', true),
+  ('Reply: CGPA', 'reply_cgpa', '{first_name}: your CGPA after {semester} is {cgpa}.', true),
+  ('Reply: help', 'reply_help', 'Text RESULT <course code>, GPA or CGPA, optionally followed by a semester e.g. CGPA FALL2024. Reply STOP to opt out.', true),
+  ('Reply: nothing found', 'reply_not_found', 'Sorry {first_name}, we found no published result for that request. Text HELP for commands.', true);
+
+-- Students registered with a phone number, ignoring formatting
+CREATE OR REPLACE FUNCTION public.find_students_by_phone(_phone TEXT)
+RETURNS SETOF public.students
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM students WHERE phone_matches(phone_number, _phone) ORDER BY student_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_students_by_phone(TEXT) FROM PUBLIC, anon, authenticated;
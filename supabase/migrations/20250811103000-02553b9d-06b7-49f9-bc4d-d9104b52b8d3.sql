@@ -0,0 +1,33 @@
+-- USSD opt-outs go through the same phone lookup as STOP / START texts but
+-- are recorded with their own source in notification_consent_log ('ussd').
+DROP FUNCTION public.set_sms_consent_by_phone(TEXT, BOOLEAN, TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_sms_consent_by_phone(
+  _phone TEXT,
+  _consented BOOLEAN,
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'sms_keyword'
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.consent_source', _source, true);
+  PERFORM set_config('app.consent_note', COALESCE(_note, ''), true);
+
+  UPDATE students
+  SET sms_consent = _consented
+  WHERE phone_matches(phone_number, _phone)
+    AND sms_consent IS DISTINCT FROM _consented;
+
+  PERFORM set_config('app.consent_source', '', true);
+  PERFORM set_config('app.consent_note', '', true);
+
+  -- Every student with this number, including those already in that state
+  RETURN QUERY SELECT id FROM students WHERE phone_matches(phone_number, _phone);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_sms_consent_by_phone(TEXT, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,191 @@
+-- Guardian and sponsor contacts.
+-- A student can have any number of contacts who get copies of result
+-- notifications. Messages to a contact carry its contact_id and follow the
+-- contact's own notify_sms preference instead of the student's consent.
+
+CREATE TABLE public.student_contacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  relationship TEXT NOT NULL DEFAULT 'guardian'
+    CHECK (relationship IN ('parent', 'guardian', 'sponsor', 'other')),
+  phone_number TEXT,
+  email TEXT,
+  notify_sms BOOLEAN NOT NULL DEFAULT true,
+  notify_email BOOLEAN NOT NULL DEFAULT false,
+  notify_sms_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (phone_number IS NOT NULL OR email IS NOT NULL)
+);
+
+CREATE INDEX student_contacts_student_id_idx ON public.student_contacts (student_id);
+
+ALTER TABLE public.student_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view student contacts" ON public.student_contacts
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Students can view their own contacts" ON public.student_contacts
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
+CREATE POLICY "Records staff can manage student contacts" ON public.student_contacts
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE TRIGGER update_student_contacts_updated_at
+  BEFORE UPDATE ON public.student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The contact a message went to; NULL for messages to the student
+ALTER TABLE public.sms_messages
+  ADD COLUMN contact_id UUID REFERENCES student_contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX sms_messages_contact_id_idx ON public.sms_messages (contact_id) WHERE contact_id IS NOT NULL;
+
+-- Contact consent changes are audited alongside the student's
+ALTER TABLE public.notification_consent_log
+  ADD COLUMN contact_id UUID REFERENCES student_contacts(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.log_contact_consent_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.notify_sms IS DISTINCT FROM OLD.notify_sms THEN
+    NEW.notify_sms_updated_at := now();
+
+    INSERT INTO notification_consent_log (student_id, contact_id, channel, consented, source, note, changed_by)
+    VALUES (
+      NEW.student_id,
+      NEW.id,
+      'sms',
+      NEW.notify_sms,
+      COALESCE(
+        NULLIF(current_setting('app.consent_source', true), ''),
+        CASE WHEN auth.uid() IS NOT NULL THEN 'staff' ELSE 'system' END
+      ),
+      NULLIF(current_setting('app.consent_note', true), ''),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_contact_consent_change
+  BEFORE UPDATE OF notify_sms ON public.student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_contact_consent_change();
+
+-- A student opting out no longer cancels their guardians' copies
+CREATE OR REPLACE FUNCTION public.cancel_queued_sms_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.sms_consent AND NOT NEW.sms_consent THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of SMS', locked_at = NULL
+    WHERE student_id = NEW.id
+      AND contact_id IS NULL
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_queued_contact_sms_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.notify_sms AND NOT NEW.notify_sms THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of SMS', locked_at = NULL
+    WHERE contact_id = NEW.id
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cancel_queued_contact_sms_on_opt_out
+  AFTER UPDATE OF notify_sms ON public.student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_queued_contact_sms_on_opt_out();
+
+CREATE OR REPLACE FUNCTION public.enforce_sms_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'queued'
+    AND NOT NEW.bypass_consent
+    AND (
+      (NEW.contact_id IS NOT NULL
+        AND EXISTS (SELECT 1 FROM student_contacts WHERE id = NEW.contact_id AND NOT notify_sms))
+      OR (NEW.contact_id IS NULL
+        AND EXISTS (SELECT 1 FROM students WHERE id = NEW.student_id AND NOT sms_consent))
+    )
+  THEN
+    NEW.status := 'cancelled';
+    NEW.error := 'Recipient has opted out of SMS';
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- STOP / START from a contact's phone changes that contact's preference too.
+-- Returns the students registered with the number or with a contact on it.
+CREATE OR REPLACE FUNCTION public.set_sms_consent_by_phone(
+  _phone TEXT,
+  _consented BOOLEAN,
+  _note TEXT DEFAULT NULL,
+  _source TEXT DEFAULT 'sms_keyword'
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.consent_source', _source, true);
+  PERFORM set_config('app.consent_note', COALESCE(_note, ''), true);
+
+  UPDATE students
+  SET sms_consent = _consented
+  WHERE phone_matches(phone_number, _phone)
+    AND sms_consent IS DISTINCT FROM _consented;
+
+  UPDATE student_contacts
+  SET notify_sms = _consented
+  WHERE phone_matches(phone_number, _phone)
+    AND notify_sms IS DISTINCT FROM _consented;
+
+  PERFORM set_config('app.consent_source', '', true);
+  PERFORM set_config('app.consent_note', '', true);
+
+  RETURN QUERY
+    SELECT id FROM students WHERE phone_matches(phone_number, _phone)
+    UNION
+    SELECT student_id FROM student_contacts WHERE phone_matches(phone_number, _phone);
+END;
+$$;
+
+-- Guardian copies use their own templates
+ALTER TABLE public.sms_templates DROP CONSTRAINT sms_templates_purpose_check;
+ALTER TABLE public.sms_templates ADD CONSTRAINT sms_templates_purpose_check
+  CHECK (purpose IN ('result_notification', 'guardian_notification', 'reply_result', 'reply_gpa', 'reply_cgpa', 'reply_help', 'reply_not_found'));
+
+INSERT INTO public.sms_templates (name, purpose, body, is_default) VALUES
+  ('Guardian notification', 'guardian_notification', 'Dear {contact_name}, {first_name} {last_name} ({student_id}) scored {score}% (Grade {grade}) in {course_code} for {semester}. CGPA: {cgpa}.', true);
@@ -0,0 +1,29 @@
+-- Phone numbers in E.164.
+-- Numbers without a country code are read as numbers in the default country.
+-- The app normalises numbers as they are entered; supabase/scripts/
+-- normalise-phone-numbers.ts fixes the ones stored before this.
+
+ALTER TABLE public.sms_settings
+  ADD COLUMN default_country TEXT NOT NULL DEFAULT 'NG' CHECK (default_country ~ '^[A-Z]{2}$');
+
+-- Gateways reject anything else, so such messages fail here instead of
+-- being queued and retried
+CREATE OR REPLACE FUNCTION public.reject_invalid_sms_recipient()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'queued' AND NEW.recipient !~ '^\+[1-9][0-9]{7,14}$' THEN
+    NEW.status := 'failed';
+    NEW.error := 'Invalid phone number: ' || NEW.recipient || ' is not in international (E.164) format';
+    NEW.failed_at := now();
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_invalid_sms_recipient
+  BEFORE INSERT OR UPDATE OF status, recipient ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_invalid_sms_recipient();
@@ -0,0 +1,274 @@
+-- Email as a second notification channel.
+-- sms_messages becomes the outbox for every channel: email rows carry the
+-- address in recipient, the HTML in body and a subject. The queue, retries,
+-- batches and idempotency keys work the same for both. Students and
+-- contacts have a preference per channel, each audited like SMS consent.
+
+CREATE TYPE public.notification_channel AS ENUM ('sms', 'email');
+
+ALTER TABLE public.sms_messages
+  ADD COLUMN channel public.notification_channel NOT NULL DEFAULT 'sms',
+  ADD COLUMN subject TEXT;
+
+ALTER TABLE public.students
+  ADD COLUMN email_consent BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN email_consent_updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.student_contacts
+  ADD COLUMN notify_email_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Email templates are HTML and need a subject
+ALTER TABLE public.sms_templates
+  ADD COLUMN channel public.notification_channel NOT NULL DEFAULT 'sms',
+  ADD COLUMN subject TEXT,
+  ADD CONSTRAINT sms_templates_email_subject_check CHECK (channel = 'sms' OR subject IS NOT NULL);
+
+DROP INDEX public.sms_templates_single_default;
+CREATE UNIQUE INDEX sms_templates_single_default ON public.sms_templates (purpose, channel) WHERE is_default;
+
+-- Semester summaries by email come from templates; SMS summaries are still
+-- composed to fit whole segments
+ALTER TABLE public.sms_templates DROP CONSTRAINT sms_templates_purpose_check;
+ALTER TABLE public.sms_templates ADD CONSTRAINT sms_templates_purpose_check
+  CHECK (purpose IN (
+    'result_notification', 'guardian_notification', 'semester_summary', 'guardian_semester_summary',
+    'reply_result', 'reply_gpa', 'reply_cgpa', 'reply_help', 'reply_not_found'
+  ));
+
+CREATE OR REPLACE FUNCTION public.log_sms_consent_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source TEXT := COALESCE(
+    NULLIF(current_setting('app.consent_source', true), ''),
+    CASE WHEN auth.uid() IS NOT NULL THEN 'staff' ELSE 'system' END
+  );
+  _note TEXT := NULLIF(current_setting('app.consent_note', true), '');
+BEGIN
+  IF NEW.sms_consent IS DISTINCT FROM OLD.sms_consent THEN
+    NEW.sms_consent_updated_at := now();
+    INSERT INTO notification_consent_log (student_id, channel, consented, source, note, changed_by)
+    VALUES (NEW.id, 'sms', NEW.sms_consent, _source, _note, auth.uid());
+  END IF;
+
+  IF NEW.email_consent IS DISTINCT FROM OLD.email_consent THEN
+    NEW.email_consent_updated_at := now();
+    INSERT INTO notification_consent_log (student_id, channel, consented, source, note, changed_by)
+    VALUES (NEW.id, 'email', NEW.email_consent, _source, _note, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER log_sms_consent_change ON public.students;
+CREATE TRIGGER log_sms_consent_change
+  BEFORE UPDATE OF sms_consent, email_consent ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_sms_consent_change();
+
+CREATE OR REPLACE FUNCTION public.log_contact_consent_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source TEXT := COALESCE(
+    NULLIF(current_setting('app.consent_source', true), ''),
+    CASE WHEN auth.uid() IS NOT NULL THEN 'staff' ELSE 'system' END
+  );
+  _note TEXT := NULLIF(current_setting('app.consent_note', true), '');
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.notify_sms IS DISTINCT FROM OLD.notify_sms THEN
+    NEW.notify_sms_updated_at := now();
+    INSERT INTO notification_consent_log (student_id, contact_id, channel, consented, source, note, changed_by)
+    VALUES (NEW.student_id, NEW.id, 'sms', NEW.notify_sms, _source, _note, auth.uid());
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.notify_email IS DISTINCT FROM OLD.notify_email THEN
+    NEW.notify_email_updated_at := now();
+    INSERT INTO notification_consent_log (student_id, contact_id, channel, consented, source, note, changed_by)
+    VALUES (NEW.student_id, NEW.id, 'email', NEW.notify_email, _source, _note, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER log_contact_consent_change ON public.student_contacts;
+CREATE TRIGGER log_contact_consent_change
+  BEFORE UPDATE OF notify_sms, notify_email ON public.student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_contact_consent_change();
+
+-- Opting out of one channel cancels only that channel's queued messages
+CREATE OR REPLACE FUNCTION public.cancel_queued_sms_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.sms_consent AND NOT NEW.sms_consent THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of SMS', locked_at = NULL
+    WHERE student_id = NEW.id
+      AND contact_id IS NULL
+      AND channel = 'sms'
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+
+  IF OLD.email_consent AND NOT NEW.email_consent THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of email', locked_at = NULL
+    WHERE student_id = NEW.id
+      AND contact_id IS NULL
+      AND channel = 'email'
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER cancel_queued_sms_on_opt_out ON public.students;
+CREATE TRIGGER cancel_queued_sms_on_opt_out
+  AFTER UPDATE OF sms_consent, email_consent ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_queued_sms_on_opt_out();
+
+CREATE OR REPLACE FUNCTION public.cancel_queued_contact_sms_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.notify_sms AND NOT NEW.notify_sms THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of SMS', locked_at = NULL
+    WHERE contact_id = NEW.id
+      AND channel = 'sms'
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+
+  IF OLD.notify_email AND NOT NEW.notify_email THEN
+    UPDATE sms_messages
+    SET status = 'cancelled', error = 'Recipient has opted out of email', locked_at = NULL
+    WHERE contact_id = NEW.id
+      AND channel = 'email'
+      AND status = 'queued'
+      AND NOT bypass_consent;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER cancel_queued_contact_sms_on_opt_out ON public.student_contacts;
+CREATE TRIGGER cancel_queued_contact_sms_on_opt_out
+  AFTER UPDATE OF notify_sms, notify_email ON public.student_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_queued_contact_sms_on_opt_out();
+
+CREATE OR REPLACE FUNCTION public.enforce_sms_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'queued'
+    AND NOT NEW.bypass_consent
+    AND (
+      (NEW.contact_id IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM student_contacts
+          WHERE id = NEW.contact_id
+            AND ((NEW.channel = 'sms' AND NOT notify_sms) OR (NEW.channel = 'email' AND NOT notify_email))
+        ))
+      OR (NEW.contact_id IS NULL
+        AND EXISTS (
+          SELECT 1 FROM students
+          WHERE id = NEW.student_id
+            AND ((NEW.channel = 'sms' AND NOT sms_consent) OR (NEW.channel = 'email' AND NOT email_consent))
+        ))
+    )
+  THEN
+    NEW.status := 'cancelled';
+    NEW.error := 'Recipient has opted out of ' || (CASE WHEN NEW.channel = 'email' THEN 'email' ELSE 'SMS' END);
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Email recipients need an address, SMS recipients an E.164 number
+CREATE OR REPLACE FUNCTION public.reject_invalid_sms_recipient()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'queued' AND NEW.channel = 'email' AND NEW.recipient !~ '^[^@[:space:]]+@[^@[:space:]]+\.[^@[:space:]]+$' THEN
+    NEW.status := 'failed';
+    NEW.error := 'Invalid email address: ' || NEW.recipient;
+    NEW.failed_at := now();
+    NEW.locked_at := NULL;
+  ELSIF NEW.status = 'queued' AND NEW.channel = 'sms' AND NEW.recipient !~ '^\+[1-9][0-9]{7,14}$' THEN
+    NEW.status := 'failed';
+    NEW.error := 'Invalid phone number: ' || NEW.recipient || ' is not in international (E.164) format';
+    NEW.failed_at := now();
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Email preference change made by staff, with an optional reason for the audit log
+CREATE OR REPLACE FUNCTION public.set_email_consent(_student_id UUID, _consented BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can change email preferences';
+  END IF;
+
+  PERFORM set_config('app.consent_note', COALESCE(_note, ''), true);
+  UPDATE students SET email_consent = _consented WHERE id = _student_id;
+  PERFORM set_config('app.consent_note', '', true);
+END;
+$$;
+
+INSERT INTO public.sms_templates (name, purpose, channel, subject, body, is_default) VALUES
+  ('Result notification email', 'result_notification', 'email', 'Your {course_code} result for {semester}',
+   '<p>Dear {first_name},</p>
+<p>Your result for <strong>{course_code} {course_name}</strong> has been published: {score}% (Grade {grade}).</p>
+<p>Your results for {semester} so far:</p>
+{course_table}
+<p>Semester GPA: <strong>{gpa}</strong><br>CGPA: <strong>{cgpa}</strong></p>
+<p>Student Records Office</p>', true),
+  ('Guardian notification email', 'guardian_notification', 'email', '{first_name} {last_name}: {course_code} result for {semester}',
+   '<p>Dear {contact_name},</p>
+<p>{first_name} {last_name} ({student_id}) scored {score}% (Grade {grade}) in <strong>{course_code} {course_name}</strong>.</p>
+<p>Results for {semester} so far:</p>
+{course_table}
+<p>Semester GPA: <strong>{gpa}</strong><br>CGPA: <strong>{cgpa}</strong></p>
+<p>Student Records Office</p>', true),
+  ('Semester summary email', 'semester_summary', 'email', 'Your results for {semester}',
+   '<p>Dear {first_name},</p>
+<p>Your results for {semester}:</p>
+{course_table}
+<p>Semester GPA: <strong>{gpa}</strong><br>CGPA: <strong>{cgpa}</strong></p>
+<p>Student Records Office</p>', true),
+  ('Guardian semester summary email', 'guardian_semester_summary', 'email', '{first_name} {last_name}: results for {semester}',
+   '<p>Dear {contact_name},</p>
+<p>Results for {first_name} {last_name} ({student_id}) in {semester}:</p>
+{course_table}
+<p>Semester GPA: <strong>{gpa}</strong><br>CGPA: <strong>{cgpa}</strong></p>
+<p>Student Records Office</p>', true);
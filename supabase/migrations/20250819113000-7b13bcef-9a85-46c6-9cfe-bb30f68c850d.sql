@@ -0,0 +1,260 @@
+-- At-risk CGPA alerts.
+-- Every CGPA recompute re-evaluates the student's academic risk with the
+-- thresholds below. Moving up into medium or high risk, or a CGPA fall
+-- larger than cgpa_drop_threshold, records an alert; the sms-worker turns
+-- pending alerts into messages to the student and their advisor. The same
+-- alert is not raised again within repeat_after_days.
+
+-- Singleton row of alert settings
+CREATE TABLE public.academic_risk_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  high_risk_below DECIMAL(3,2) NOT NULL DEFAULT 2.00 CHECK (high_risk_below >= 0),
+  medium_risk_below DECIMAL(3,2) NOT NULL DEFAULT 2.70,
+  cgpa_drop_threshold DECIMAL(3,2) NOT NULL DEFAULT 0.30 CHECK (cgpa_drop_threshold > 0),
+  repeat_after_days INTEGER NOT NULL DEFAULT 30 CHECK (repeat_after_days >= 0),
+  alert_by_sms BOOLEAN NOT NULL DEFAULT true,
+  alert_by_email BOOLEAN NOT NULL DEFAULT true,
+  alert_advisor BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (medium_risk_below >= high_risk_below)
+);
+
+INSERT INTO public.academic_risk_settings DEFAULT VALUES;
+
+ALTER TABLE public.students
+  ADD COLUMN risk_level TEXT NOT NULL DEFAULT 'low' CHECK (risk_level IN ('low', 'medium', 'high')),
+  ADD COLUMN risk_level_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.academic_risk_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  -- The semester whose CGPA raised the alert
+  semester_id UUID REFERENCES semesters(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('risk_level', 'cgpa_drop')),
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('low', 'medium', 'high')),
+  cgpa DECIMAL(3,2) NOT NULL,
+  previous_cgpa DECIMAL(3,2),
+  -- pending until the sms-worker has queued its messages
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'queued', 'skipped')),
+  error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX academic_risk_alerts_student_id_idx ON public.academic_risk_alerts (student_id, created_at DESC);
+CREATE INDEX academic_risk_alerts_pending_idx ON public.academic_risk_alerts (created_at) WHERE status = 'pending';
+
+ALTER TABLE public.academic_risk_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.academic_risk_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Everyone who sees the CGPA tab uses the thresholds
+CREATE POLICY "Signed-in users can view risk settings" ON public.academic_risk_settings
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can update risk settings" ON public.academic_risk_settings
+  FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Records staff can view risk alerts" ON public.academic_risk_alerts
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Advisors can view their students' risk alerts" ON public.academic_risk_alerts
+  FOR SELECT TO authenticated USING (public.is_student_advisor(auth.uid(), student_id));
+CREATE POLICY "Students can view their own risk alerts" ON public.academic_risk_alerts
+  FOR SELECT TO authenticated USING (public.is_student_self(auth.uid(), student_id));
+
+CREATE TRIGGER update_academic_risk_settings_updated_at
+  BEFORE UPDATE ON public.academic_risk_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Applies the risk rules to a student's latest cgpa_records and records any
+-- alert they call for. The same rules are in supabase/functions/_shared/risk.ts.
+CREATE OR REPLACE FUNCTION public.evaluate_academic_risk(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings academic_risk_settings%ROWTYPE;
+  latest RECORD;
+  previous RECORD;
+  old_level TEXT;
+  new_level TEXT := 'low';
+BEGIN
+  SELECT * INTO settings FROM academic_risk_settings;
+  SELECT risk_level INTO old_level FROM students WHERE id = _student_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT cr.semester_id, cr.cumulative_gpa INTO latest
+  FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+  WHERE cr.student_id = _student_id
+  ORDER BY s.start_date DESC
+  LIMIT 1;
+
+  IF latest.semester_id IS NOT NULL THEN
+    SELECT cr.cumulative_gpa INTO previous
+    FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+    WHERE cr.student_id = _student_id AND cr.semester_id <> latest.semester_id
+    ORDER BY s.start_date DESC
+    LIMIT 1;
+
+    IF latest.cumulative_gpa < settings.high_risk_below THEN
+      new_level := 'high';
+    ELSIF latest.cumulative_gpa < settings.medium_risk_below THEN
+      new_level := 'medium';
+    END IF;
+  END IF;
+
+  IF new_level IS DISTINCT FROM old_level THEN
+    UPDATE students SET risk_level = new_level, risk_level_changed_at = now() WHERE id = _student_id;
+  END IF;
+
+  IF NOT settings.enabled OR latest.semester_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only a move up: low -> medium, low -> high or medium -> high
+  IF new_level <> 'low'
+    AND (old_level = 'low' OR (old_level = 'medium' AND new_level = 'high'))
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'risk_level'
+        AND risk_level = new_level
+        AND created_at > now() - make_interval(days => settings.repeat_after_days)
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'risk_level', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+
+  -- A fall is reported once per semester, and not again within the window
+  IF previous.cumulative_gpa IS NOT NULL
+    AND previous.cumulative_gpa - latest.cumulative_gpa > settings.cgpa_drop_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'cgpa_drop'
+        AND (semester_id = latest.semester_id
+          OR created_at > now() - make_interval(days => settings.repeat_after_days))
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'cgpa_drop', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_academic_risk(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Unchanged apart from evaluating risk once the records are rebuilt
+CREATE OR REPLACE FUNCTION public.recompute_student_cgpa(_student_id UUID, _from_semester_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_date DATE;
+  sem RECORD;
+  cumulative_points NUMERIC := 0;
+  cumulative_units INTEGER := 0;
+BEGIN
+  -- Nothing to rebuild while the student itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM students WHERE id = _student_id) THEN
+    RETURN;
+  END IF;
+
+  IF _from_semester_id IS NOT NULL THEN
+    SELECT start_date INTO from_date FROM semesters WHERE id = _from_semester_id;
+  END IF;
+
+  -- Drop records from the affected range; they are rebuilt below and any
+  -- semester that no longer has results simply stays deleted.
+  DELETE FROM cgpa_records cr
+  USING semesters s
+  WHERE cr.semester_id = s.id
+    AND cr.student_id = _student_id
+    AND (from_date IS NULL OR s.start_date >= from_date);
+
+  FOR sem IN
+    SELECT s.id,
+           s.start_date,
+           SUM(r.grade_point * c.credit_units) AS points,
+           SUM(c.credit_units)::INTEGER AS units
+    FROM results r
+    JOIN courses c ON c.id = r.course_id
+    JOIN semesters s ON s.id = r.semester_id
+    WHERE r.student_id = _student_id
+    GROUP BY s.id, s.start_date
+    ORDER BY s.start_date
+  LOOP
+    cumulative_points := cumulative_points + sem.points;
+    cumulative_units := cumulative_units + sem.units;
+
+    IF from_date IS NULL OR sem.start_date >= from_date THEN
+      INSERT INTO cgpa_records (student_id, semester_id, semester_gpa, cumulative_gpa, total_credit_units)
+      VALUES (
+        _student_id,
+        sem.id,
+        ROUND(sem.points / NULLIF(sem.units, 0), 2),
+        ROUND(cumulative_points / NULLIF(cumulative_units, 0), 2),
+        cumulative_units
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM evaluate_academic_risk(_student_id);
+END;
+$$;
+
+-- Turns pending alerts into messages; called by the sms-worker
+CREATE OR REPLACE FUNCTION public.claim_risk_alerts(_limit INTEGER)
+RETURNS SETOF public.academic_risk_alerts
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE academic_risk_alerts
+  SET status = 'queued', processed_at = now()
+  WHERE id IN (
+    SELECT id FROM academic_risk_alerts
+    WHERE status = 'pending'
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_risk_alerts(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Alert templates
+ALTER TABLE public.sms_templates DROP CONSTRAINT sms_templates_purpose_check;
+ALTER TABLE public.sms_templates ADD CONSTRAINT sms_templates_purpose_check
+  CHECK (purpose IN (
+    'result_notification', 'guardian_notification', 'semester_summary', 'guardian_semester_summary',
+    'risk_alert', 'advisor_risk_alert',
+    'reply_result', 'reply_gpa', 'reply_cgpa', 'reply_help', 'reply_not_found'
+  ));
+
+INSERT INTO public.sms_templates (name, purpose, channel, subject, body, is_default) VALUES
+  ('At-risk alert', 'risk_alert', 'sms', NULL,
+   'Dear {first_name}, your CGPA is now {cgpa} ({alert_reason}). Please see your academic advisor {advisor_name} soon to plan your next steps.', true),
+  ('At-risk alert email', 'risk_alert', 'email', 'Your academic progress: please contact your advisor',
+   '<p>Dear {first_name},</p>
+<p>After your {semester} results your CGPA is <strong>{cgpa}</strong> ({alert_reason}).</p>
+<p>Please arrange to meet your academic advisor, {advisor_name}, soon. Together you can plan your course load and find the support available to you.</p>
+<p>Student Records Office</p>', true),
+  ('Advisor at-risk alert email', 'advisor_risk_alert', 'email', 'At-risk student: {first_name} {last_name} ({student_id})',
+   '<p>Dear {advisor_name},</p>
+<p>{first_name} {last_name} ({student_id}) is flagged after the {semester} results: {alert_reason}.</p>
+<p>CGPA: <strong>{cgpa}</strong> (previously {previous_cgpa})<br>Risk level: <strong>{risk_level}</strong></p>
+<p>The student has also been asked to contact you.</p>', true);
+
+-- Risk levels for existing students; no alerts for the backlog
+UPDATE public.academic_risk_settings SET enabled = false;
+SELECT public.evaluate_academic_risk(id) FROM public.students;
+UPDATE public.academic_risk_settings SET enabled = true;
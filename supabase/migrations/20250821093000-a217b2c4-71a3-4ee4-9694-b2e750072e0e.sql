@@ -0,0 +1,99 @@
+-- Broadcast campaigns: a one-off message to every student in a segment
+-- (program, year of study, CGPA range, risk level, missing results). The
+-- messages go through the normal sms_messages queue as one batch, and each
+-- campaign keeps its recipient list, including who was skipped and why.
+
+CREATE TABLE public.sms_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  channel notification_channel NOT NULL DEFAULT 'sms',
+  -- Email only
+  subject TEXT,
+  -- As composed, with {placeholder} tokens
+  body TEXT NOT NULL,
+  -- The segment as chosen in the builder, for the audit trail
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  batch_id UUID REFERENCES sms_batches(id) ON DELETE SET NULL,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  -- SMS segments billed if every message is sent
+  estimated_segments INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Who a campaign matched. The student's number and name are copied so the
+-- list still reads correctly after the student is edited or removed.
+CREATE TABLE public.sms_campaign_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES sms_campaigns(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  student_number TEXT NOT NULL,
+  student_name TEXT NOT NULL,
+  -- Phone number or email address; null when skipped for want of one
+  recipient TEXT,
+  message_id UUID REFERENCES sms_messages(id) ON DELETE SET NULL,
+  skipped_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX sms_campaign_recipients_campaign_id_idx ON public.sms_campaign_recipients (campaign_id);
+
+ALTER TABLE public.sms_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sms_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can manage campaigns" ON public.sms_campaigns
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Records staff can manage campaign recipients" ON public.sms_campaign_recipients
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- Students matching a segment with their current CGPA (after their latest
+-- semester). A NULL argument does not filter. _missing_results_semester_id
+-- keeps students with no result in that semester. Runs with the caller's
+-- rights, so row level security on students still applies.
+CREATE OR REPLACE FUNCTION public.campaign_audience(
+  _program TEXT DEFAULT NULL,
+  _year_of_study INTEGER DEFAULT NULL,
+  _min_cgpa NUMERIC DEFAULT NULL,
+  _max_cgpa NUMERIC DEFAULT NULL,
+  _risk_level TEXT DEFAULT NULL,
+  _missing_results_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  student_id TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  program TEXT,
+  year_of_study INTEGER,
+  phone_number TEXT,
+  email TEXT,
+  sms_consent BOOLEAN,
+  email_consent BOOLEAN,
+  risk_level TEXT,
+  cgpa DECIMAL(3,2)
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.student_id, s.first_name, s.last_name, s.program, s.year_of_study,
+         s.phone_number, s.email, s.sms_consent, s.email_consent, s.risk_level, latest.cumulative_gpa
+  FROM students s
+  LEFT JOIN LATERAL (
+    SELECT cr.cumulative_gpa
+    FROM cgpa_records cr JOIN semesters se ON se.id = cr.semester_id
+    WHERE cr.student_id = s.id
+    ORDER BY se.start_date DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE (_program IS NULL OR s.program = _program)
+    AND (_year_of_study IS NULL OR s.year_of_study = _year_of_study)
+    AND (_min_cgpa IS NULL OR latest.cumulative_gpa >= _min_cgpa)
+    AND (_max_cgpa IS NULL OR latest.cumulative_gpa < _max_cgpa)
+    AND (_risk_level IS NULL OR s.risk_level = _risk_level)
+    AND (_missing_results_semester_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM results r WHERE r.student_id = s.id AND r.semester_id = _missing_results_semester_id
+    ))
+  ORDER BY s.student_id;
+$$;
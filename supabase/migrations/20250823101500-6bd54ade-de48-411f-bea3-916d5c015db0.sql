@@ -0,0 +1,142 @@
+-- Scheduled sends and quiet hours.
+-- A bulk send or campaign can be scheduled: its messages are queued with
+-- next_attempt_at at the chosen time, so the sms-worker (run on a schedule,
+-- see 20250730091500) picks them up then. Texts that would go out during the
+-- institution's quiet hours are held until the quiet hours end. Emails do not
+-- buzz a phone and are never held; neither are replies to inbound texts.
+
+ALTER TABLE public.sms_settings
+  -- Both NULL turns quiet hours off; start after end spans midnight
+  ADD COLUMN quiet_hours_start TIME DEFAULT '21:00',
+  ADD COLUMN quiet_hours_end TIME DEFAULT '07:00',
+  -- IANA name; AT TIME ZONE rejects unknown zones
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Africa/Lagos' CHECK ((now() AT TIME ZONE timezone) IS NOT NULL),
+  ADD CONSTRAINT sms_settings_quiet_hours_check CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+ALTER TABLE public.sms_batches
+  -- NULL for batches sent right away
+  ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+-- When a text due at _at may go out: _at itself, or the end of the quiet
+-- hours it falls in
+CREATE OR REPLACE FUNCTION public.quiet_hours_release(_at TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings sms_settings%ROWTYPE;
+  local_at TIMESTAMP;
+  local_time TIME;
+  release_date DATE;
+BEGIN
+  SELECT * INTO settings FROM sms_settings;
+  IF settings.quiet_hours_start IS NULL OR settings.quiet_hours_start = settings.quiet_hours_end THEN
+    RETURN _at;
+  END IF;
+
+  local_at := _at AT TIME ZONE settings.timezone;
+  local_time := local_at::TIME;
+  release_date := local_at::DATE;
+
+  IF settings.quiet_hours_start < settings.quiet_hours_end THEN
+    -- e.g. 13:00-14:00
+    IF local_time < settings.quiet_hours_start OR local_time >= settings.quiet_hours_end THEN
+      RETURN _at;
+    END IF;
+  ELSE
+    -- e.g. 21:00-07:00
+    IF local_time < settings.quiet_hours_start AND local_time >= settings.quiet_hours_end THEN
+      RETURN _at;
+    END IF;
+    IF local_time >= settings.quiet_hours_start THEN
+      release_date := release_date + 1;
+    END IF;
+  END IF;
+
+  RETURN (release_date + settings.quiet_hours_end) AT TIME ZONE settings.timezone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hold_sms_in_quiet_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  release_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.status <> 'queued' OR NEW.channel <> 'sms' OR NEW.bypass_consent THEN
+    RETURN NEW;
+  END IF;
+
+  release_at := quiet_hours_release(NEW.next_attempt_at);
+  IF release_at > NEW.next_attempt_at THEN
+    NEW.next_attempt_at := release_at;
+    -- A single send locks its row to deliver it at once; leave it to the worker
+    NEW.locked_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after enforce_sms_consent, so cancelled messages are left alone
+CREATE TRIGGER hold_sms_in_quiet_hours
+  BEFORE INSERT OR UPDATE OF next_attempt_at ON public.sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.hold_sms_in_quiet_hours();
+
+-- Batches with messages waiting for a later time, whether scheduled or held
+-- by quiet hours, for the SMS tab. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.scheduled_sms_batches()
+RETURNS TABLE(
+  id UUID,
+  label TEXT,
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  waiting INTEGER,
+  next_send_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id, b.label, b.scheduled_for, b.created_at, COUNT(m.id)::INTEGER, MIN(m.next_attempt_at)
+  FROM sms_batches b
+  JOIN sms_messages m ON m.batch_id = b.id
+  WHERE b.cancelled_at IS NULL
+    AND m.status = 'queued'
+    AND m.next_attempt_at > now()
+  GROUP BY b.id
+  ORDER BY MIN(m.next_attempt_at);
+$$;
+
+-- Cancels a batch's messages that have not gone out yet
+CREATE OR REPLACE FUNCTION public.cancel_sms_batch(_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cancelled INTEGER;
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can cancel scheduled messages';
+  END IF;
+
+  UPDATE sms_messages
+  SET status = 'cancelled', error = 'Cancelled before sending', locked_at = NULL
+  WHERE batch_id = _batch_id
+    AND status = 'queued'
+    AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes');
+  GET DIAGNOSTICS cancelled = ROW_COUNT;
+
+  UPDATE sms_batches SET cancelled_at = now() WHERE id = _batch_id;
+  RETURN cancelled;
+END;
+$$;
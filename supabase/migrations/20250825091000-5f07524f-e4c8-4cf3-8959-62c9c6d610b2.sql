@@ -0,0 +1,197 @@
+-- SMS costs and budget.
+-- sms_prices holds what a segment costs per provider and destination
+-- country. The sms-worker and send-sms record each accepted text's segments
+-- and cost; once the month's spend reaches sms_settings.monthly_budget, texts
+-- stop being claimed and admins are emailed. Raising the budget, or the start
+-- of the next month, lets them go out again.
+
+ALTER TABLE public.sms_settings
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'NGN' CHECK (currency ~ '^[A-Z]{3}$'),
+  -- Provider whose prices cost estimates use; should match SMS_PROVIDER
+  ADD COLUMN billing_provider TEXT,
+  -- NULL for no cap
+  ADD COLUMN monthly_budget DECIMAL(12,2) CHECK (monthly_budget >= 0),
+  -- Set when the cap is reached; only counts within the month it was set
+  ADD COLUMN budget_paused_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.sms_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- As stored in sms_messages.provider, or '*' for any provider
+  provider TEXT NOT NULL,
+  -- ISO 3166 code, or '*' for any country
+  country TEXT NOT NULL,
+  price_per_segment DECIMAL(10,4) NOT NULL CHECK (price_per_segment >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, country)
+);
+
+ALTER TABLE public.sms_messages
+  ADD COLUMN segments INTEGER,
+  -- In sms_settings.currency; NULL when no price matched
+  ADD COLUMN cost DECIMAL(12,4);
+
+-- In sms_settings.currency at the time of the campaign
+ALTER TABLE public.sms_campaigns
+  ADD COLUMN estimated_cost DECIMAL(12,4);
+
+CREATE INDEX sms_messages_costed_sent_at_idx ON public.sms_messages (sent_at) WHERE cost IS NOT NULL;
+
+-- Spend is reported by the student's department
+ALTER TABLE public.students
+  ADD COLUMN department TEXT;
+
+UPDATE public.students SET department = program;
+
+ALTER TABLE public.sms_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view SMS prices" ON public.sms_prices
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can manage SMS prices" ON public.sms_prices
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sms_prices_updated_at
+  BEFORE UPDATE ON public.sms_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start of the month _at falls in, in the institution's time zone
+CREATE OR REPLACE FUNCTION public.sms_month_start(_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT date_trunc('month', _at AT TIME ZONE timezone) AT TIME ZONE timezone FROM sms_settings;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sms_budget_exhausted()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(budget_paused_at >= sms_month_start(now()), false) FROM sms_settings;
+$$;
+
+-- Pauses texts and emails the admins once the month's spend reaches the budget
+CREATE OR REPLACE FUNCTION public.check_sms_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings sms_settings%ROWTYPE;
+  spent NUMERIC;
+BEGIN
+  SELECT * INTO settings FROM sms_settings;
+  IF settings.monthly_budget IS NULL OR sms_budget_exhausted() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(cost), 0) INTO spent
+  FROM sms_messages
+  WHERE cost IS NOT NULL AND sent_at >= sms_month_start(now());
+
+  IF spent < settings.monthly_budget THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE sms_settings SET budget_paused_at = now();
+
+  INSERT INTO sms_messages (recipient, channel, subject, body, bypass_consent, idempotency_key)
+  SELECT p.email,
+         'email',
+         'SMS budget reached: texts are paused',
+         format(
+           '<p>This month''s SMS spend has reached %s %s against a budget of %s %s, so queued texts are paused.</p>'
+           '<p>Raise the monthly budget under Settings to resume sending. Emails are not affected.</p>',
+           settings.currency, to_char(spent, 'FM999999990.00'), settings.currency, to_char(settings.monthly_budget, 'FM999999990.00')
+         ),
+         true,
+         'budget:' || to_char(sms_month_start(now()) AT TIME ZONE settings.timezone, 'YYYY-MM') || ':' || p.id
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'admin'
+    AND p.email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER check_sms_budget
+  AFTER UPDATE OF cost ON public.sms_messages
+  FOR EACH ROW
+  WHEN (NEW.cost IS NOT NULL)
+  EXECUTE FUNCTION public.check_sms_budget();
+
+-- A new budget lifts the pause; the next costed text re-checks it
+CREATE OR REPLACE FUNCTION public.resume_sms_on_budget_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.monthly_budget IS DISTINCT FROM OLD.monthly_budget THEN
+    NEW.budget_paused_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resume_sms_on_budget_change
+  BEFORE UPDATE OF monthly_budget ON public.sms_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resume_sms_on_budget_change();
+
+-- Unchanged apart from leaving texts alone while the budget is exhausted
+CREATE OR REPLACE FUNCTION public.claim_sms_messages(_limit INTEGER)
+RETURNS SETOF public.sms_messages
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE sms_messages
+  SET locked_at = now(), attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM sms_messages
+    WHERE status = 'queued'
+      AND next_attempt_at <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      AND (channel <> 'sms' OR NOT sms_budget_exhausted())
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Spend per department for the month starting at _month (a date in it will
+-- do). Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.sms_spend_by_department(_month DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(
+  department TEXT,
+  messages INTEGER,
+  segments INTEGER,
+  cost DECIMAL(12,4)
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(s.department, s.program, 'No student'),
+         COUNT(*)::INTEGER,
+         COALESCE(SUM(m.segments), 0)::INTEGER,
+         COALESCE(SUM(m.cost), 0)
+  FROM sms_messages m
+  LEFT JOIN students s ON s.id = m.student_id
+  WHERE m.channel = 'sms'
+    AND m.sent_at >= sms_month_start(_month::TIMESTAMP WITH TIME ZONE)
+    AND m.sent_at < sms_month_start((_month + interval '1 month')::TIMESTAMP WITH TIME ZONE)
+  GROUP BY 1
+  ORDER BY 4 DESC;
+$$;
@@ -0,0 +1,43 @@
+-- Message templates in the languages students' families read.
+-- A template's own subject and body are its English text; each variant
+-- holds the same message in another language. Messages are rendered from
+-- the variant in the recipient's preferred_language, falling back to the
+-- English text when the template has no such variant.
+
+ALTER TABLE public.students
+  ADD COLUMN preferred_language TEXT NOT NULL DEFAULT 'en'
+    CHECK (preferred_language IN ('en', 'yo', 'ha', 'ig', 'fr'));
+
+ALTER TABLE public.student_contacts
+  ADD COLUMN preferred_language TEXT NOT NULL DEFAULT 'en'
+    CHECK (preferred_language IN ('en', 'yo', 'ha', 'ig', 'fr'));
+
+CREATE TABLE public.sms_template_variants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES sms_templates(id) ON DELETE CASCADE,
+  -- English is the template itself
+  language TEXT NOT NULL CHECK (language IN ('yo', 'ha', 'ig', 'fr')),
+  -- Email only; NULL keeps the English subject
+  subject TEXT,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_id, language)
+);
+
+ALTER TABLE public.sms_template_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view SMS template variants" ON public.sms_template_variants
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can manage SMS template variants" ON public.sms_template_variants
+  FOR ALL TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sms_template_variants_updated_at
+  BEFORE UPDATE ON public.sms_template_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.sms_template_variants (template_id, language, body)
+SELECT id, 'fr', 'Cher(e) {first_name}, votre résultat en {course_code} pour {semester} : {score}% (note {grade}). MPC : {cgpa}. Consultez le portail pour plus de détails.'
+FROM public.sms_templates
+WHERE purpose = 'result_notification' AND channel = 'sms' AND is_default;
@@ -0,0 +1,158 @@
+-- Result notifications without anyone having to open the SMS tab.
+-- Entering a result, or changing its score or grade, adds a row to
+-- result_outbox. The sms-worker (run on a schedule, see 20250730091500) turns
+-- outbox rows into queued messages according to the notification policy:
+--   immediate  each result is notified on the next worker run
+--   semester   a student's results for a semester go out together as one
+--              summary, once no result has been entered for that semester
+--              for batch_delay_minutes
+--   approval   rows wait until staff approve or reject them
+-- Approved rows, including those from the Send button in the Results table,
+-- go out on the next worker run as one message per result, whatever the policy.
+
+CREATE TABLE public.result_notification_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  policy TEXT NOT NULL DEFAULT 'approval' CHECK (policy IN ('immediate', 'semester', 'approval')),
+  channel TEXT NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms', 'email', 'both')),
+  audience TEXT NOT NULL DEFAULT 'students' CHECK (audience IN ('students', 'guardians', 'both')),
+  batch_delay_minutes INTEGER NOT NULL DEFAULT 120 CHECK (batch_delay_minutes >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.result_notification_settings DEFAULT VALUES;
+
+CREATE TABLE public.result_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  result_id UUID NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  semester_id UUID NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+  -- corrected: the score or grade changed after the result was notified
+  event TEXT NOT NULL DEFAULT 'published' CHECK (event IN ('published', 'corrected')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'queued', 'skipped')),
+  error TEXT,
+  -- Who approved or rejected the row
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open row per result; edits before it is processed fold into it, as
+-- messages are rendered from the result as it is then
+CREATE UNIQUE INDEX result_outbox_open_result_idx ON public.result_outbox (result_id)
+  WHERE status IN ('pending', 'approved');
+CREATE INDEX result_outbox_semester_id_idx ON public.result_outbox (semester_id, created_at DESC);
+
+ALTER TABLE public.result_notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.result_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Records staff can view result notification settings" ON public.result_notification_settings
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+CREATE POLICY "Admins can update result notification settings" ON public.result_notification_settings
+  FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+-- Changed only through the functions below
+CREATE POLICY "Records staff can view the result outbox" ON public.result_outbox
+  FOR SELECT TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE TRIGGER update_result_notification_settings_updated_at
+  BEFORE UPDATE ON public.result_notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.add_result_to_outbox()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  outbox_event TEXT := 'published';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.score IS NOT DISTINCT FROM OLD.score AND NEW.grade IS NOT DISTINCT FROM OLD.grade THEN
+      RETURN NULL;
+    END IF;
+    IF NEW.sms_sent THEN
+      outbox_event := 'corrected';
+    END IF;
+  END IF;
+
+  INSERT INTO result_outbox (result_id, student_id, semester_id, event)
+  VALUES (NEW.id, NEW.student_id, NEW.semester_id, outbox_event)
+  ON CONFLICT (result_id) WHERE status IN ('pending', 'approved') DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER add_result_to_outbox
+  AFTER INSERT OR UPDATE OF score, grade ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_result_to_outbox();
+
+-- Outbox rows due under the policy, marked queued for the sms-worker to turn
+-- into messages. Approved rows have decided_at set; the worker sends those
+-- one per result and pending rows under the semester policy as summaries.
+CREATE OR REPLACE FUNCTION public.claim_result_outbox(_limit INTEGER)
+RETURNS SETOF public.result_outbox
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE result_outbox
+  SET status = 'queued', processed_at = now()
+  WHERE id IN (
+    SELECT o.id
+    FROM result_outbox o
+    CROSS JOIN result_notification_settings s
+    WHERE o.status = 'approved'
+       OR (o.status = 'pending' AND s.policy = 'immediate')
+       OR (o.status = 'pending' AND s.policy = 'semester' AND NOT EXISTS (
+         SELECT 1 FROM result_outbox latest
+         WHERE latest.semester_id = o.semester_id
+           AND latest.created_at > now() - make_interval(mins => s.batch_delay_minutes)
+       ))
+    -- Keeps a student's semester together when the limit cuts a run short
+    ORDER BY o.semester_id, o.student_id, o.created_at
+    LIMIT _limit
+    FOR UPDATE OF o SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_result_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Approves or rejects the open outbox rows of the given results. Approving a
+-- result without an open row adds one, so it is sent on the next worker run.
+CREATE OR REPLACE FUNCTION public.decide_result_notifications(_result_ids UUID[], _approve BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  decided INTEGER;
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can approve result notifications';
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO result_outbox (result_id, student_id, semester_id)
+    SELECT id, student_id, semester_id FROM results WHERE id = ANY(_result_ids)
+    ON CONFLICT (result_id) WHERE status IN ('pending', 'approved') DO NOTHING;
+  END IF;
+
+  UPDATE result_outbox
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE result_id = ANY(_result_ids)
+    AND status IN ('pending', 'approved');
+  GET DIAGNOSTICS decided = ROW_COUNT;
+
+  RETURN decided;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Archiving students instead of deleting them. results, cgpa_records and the
+-- other student tables cascade on delete, so deleting a student removes
+-- their whole academic history. Archived students keep everything but are
+-- left out of pickers, counts and campaign audiences until restored.
+
+ALTER TABLE public.students
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX students_archived_at_idx ON public.students (archived_at);
+
+-- Records that go with a student when they are deleted, shown before
+-- archiving or deleting
+CREATE OR REPLACE FUNCTION public.student_dependents(_student_id UUID)
+RETURNS TABLE(
+  results INTEGER,
+  cgpa_records INTEGER,
+  contacts INTEGER,
+  messages INTEGER,
+  risk_alerts INTEGER
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM results WHERE student_id = _student_id),
+    (SELECT COUNT(*)::INTEGER FROM cgpa_records WHERE student_id = _student_id),
+    (SELECT COUNT(*)::INTEGER FROM student_contacts WHERE student_id = _student_id),
+    (SELECT COUNT(*)::INTEGER FROM sms_messages WHERE student_id = _student_id),
+    (SELECT COUNT(*)::INTEGER FROM academic_risk_alerts WHERE student_id = _student_id);
+$$;
+
+-- Only students without an academic record, such as a duplicate added by
+-- mistake, can be deleted outright
+CREATE OR REPLACE FUNCTION public.prevent_student_with_records_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM results WHERE student_id = OLD.id)
+     OR EXISTS (SELECT 1 FROM cgpa_records WHERE student_id = OLD.id) THEN
+    RAISE EXCEPTION 'Student % has results; archive them instead of deleting', OLD.student_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_student_with_records_delete
+  BEFORE DELETE ON public.students
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_student_with_records_delete();
+
+-- As before, without archived students
+CREATE OR REPLACE FUNCTION public.campaign_audience(
+  _program TEXT DEFAULT NULL,
+  _year_of_study INTEGER DEFAULT NULL,
+  _min_cgpa NUMERIC DEFAULT NULL,
+  _max_cgpa NUMERIC DEFAULT NULL,
+  _risk_level TEXT DEFAULT NULL,
+  _missing_results_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  student_id TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  program TEXT,
+  year_of_study INTEGER,
+  phone_number TEXT,
+  email TEXT,
+  sms_consent BOOLEAN,
+  email_consent BOOLEAN,
+  risk_level TEXT,
+  cgpa DECIMAL(3,2)
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.student_id, s.first_name, s.last_name, s.program, s.year_of_study,
+         s.phone_number, s.email, s.sms_consent, s.email_consent, s.risk_level, latest.cumulative_gpa
+  FROM students s
+  LEFT JOIN LATERAL (
+    SELECT cr.cumulative_gpa
+    FROM cgpa_records cr JOIN semesters se ON se.id = cr.semester_id
+    WHERE cr.student_id = s.id
+    ORDER BY se.start_date DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE s.archived_at IS NULL
+    AND (_program IS NULL OR s.program = _program)
+    AND (_year_of_study IS NULL OR s.year_of_study = _year_of_study)
+    AND (_min_cgpa IS NULL OR latest.cumulative_gpa >= _min_cgpa)
+    AND (_max_cgpa IS NULL OR latest.cumulative_gpa < _max_cgpa)
+    AND (_risk_level IS NULL OR s.risk_level = _risk_level)
+    AND (_missing_results_semester_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM results r WHERE r.student_id = s.id AND r.semester_id = _missing_results_semester_id
+    ))
+  ORDER BY s.student_id;
+$$;
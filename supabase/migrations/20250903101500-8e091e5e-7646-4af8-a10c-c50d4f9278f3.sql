@@ -0,0 +1,87 @@
+-- Course catalogue maintained from the Courses tab. A course's level is its
+-- year band (100 for first-year courses and so on). Courses that have results
+-- are retired (is_active = false) rather than deleted, as deleting a course
+-- cascades to its results; retired courses keep their results but are no
+-- longer offered for result entry.
+
+ALTER TABLE public.courses
+  ADD COLUMN level INTEGER NOT NULL DEFAULT 100 CHECK (level BETWEEN 100 AND 900 AND level % 100 = 0),
+  ADD COLUMN department TEXT,
+  ADD COLUMN course_type TEXT NOT NULL DEFAULT 'core'
+    CHECK (course_type IN ('core', 'elective', 'general_studies')),
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Existing codes carry the level as their first digit (CS101, MATH201)
+UPDATE public.courses
+SET level = substring(course_code FROM '[0-9]')::INTEGER * 100
+WHERE course_code ~ '[1-9][0-9]{2}';
+
+CREATE TRIGGER update_courses_updated_at
+  BEFORE UPDATE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Courses that must be passed before taking course_id
+CREATE TABLE public.course_prerequisites (
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  prerequisite_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, prerequisite_id),
+  CHECK (course_id <> prerequisite_id)
+);
+
+CREATE INDEX course_prerequisites_prerequisite_id_idx ON public.course_prerequisites (prerequisite_id);
+
+ALTER TABLE public.course_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view course prerequisites" ON public.course_prerequisites
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage course prerequisites" ON public.course_prerequisites
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+-- A course cannot end up as its own prerequisite through a chain
+CREATE OR REPLACE FUNCTION public.prevent_prerequisite_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE chain(course_id) AS (
+      SELECT NEW.prerequisite_id
+      UNION
+      SELECT p.prerequisite_id
+      FROM course_prerequisites p
+      JOIN chain ON p.course_id = chain.course_id
+    )
+    SELECT 1 FROM chain WHERE course_id = NEW.course_id
+  ) THEN
+    RAISE EXCEPTION 'Prerequisites would form a cycle';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_prerequisite_cycle
+  BEFORE INSERT OR UPDATE ON public.course_prerequisites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_prerequisite_cycle();
+
+CREATE OR REPLACE FUNCTION public.prevent_course_with_results_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM results WHERE course_id = OLD.id) THEN
+    RAISE EXCEPTION 'Course % has results; retire it instead of deleting', OLD.course_code;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_course_with_results_delete
+  BEFORE DELETE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_course_with_results_delete();
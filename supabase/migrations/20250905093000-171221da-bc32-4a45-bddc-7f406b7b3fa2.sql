@@ -0,0 +1,167 @@
+-- Academic sessions (2024/2025) holding their semesters in order. A
+-- semester's position within its session, together with the session's start
+-- year, gives sort_order, which orders semesters chronologically where the
+-- calendar year alone ties (Spring and Fall 2024). Exactly one semester is
+-- current at any time; set_current_semester moves the flag.
+
+CREATE TABLE public.academic_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  -- 2024 for the 2024/2025 session
+  start_year INTEGER NOT NULL UNIQUE CHECK (start_year BETWEEN 1900 AND 2999),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.academic_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view academic sessions" ON public.academic_sessions
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Records staff can manage academic sessions" ON public.academic_sessions
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE TRIGGER update_academic_sessions_updated_at
+  BEFORE UPDATE ON public.academic_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.semesters
+  ADD COLUMN session_id UUID REFERENCES academic_sessions(id) ON DELETE RESTRICT,
+  -- 1 for the first semester of the session
+  ADD COLUMN position INTEGER CHECK (position > 0),
+  ADD COLUMN sort_order INTEGER;
+
+-- Existing semesters go into the session their start date falls in; a
+-- session runs from August to July
+INSERT INTO public.academic_sessions (name, start_year)
+SELECT DISTINCT session_year || '/' || (session_year + 1), session_year
+FROM (
+  SELECT CASE WHEN EXTRACT(MONTH FROM start_date) >= 8
+              THEN EXTRACT(YEAR FROM start_date)::INTEGER
+              ELSE EXTRACT(YEAR FROM start_date)::INTEGER - 1 END AS session_year
+  FROM public.semesters
+) years;
+
+UPDATE public.semesters s
+SET session_id = placed.session_id,
+    position = placed.position,
+    sort_order = placed.start_year * 100 + placed.position
+FROM (
+  SELECT se.id, a.id AS session_id, a.start_year,
+         ROW_NUMBER() OVER (PARTITION BY a.id ORDER BY se.start_date)::INTEGER AS position
+  FROM public.semesters se
+  JOIN public.academic_sessions a ON a.start_year = CASE WHEN EXTRACT(MONTH FROM se.start_date) >= 8
+                                                         THEN EXTRACT(YEAR FROM se.start_date)::INTEGER
+                                                         ELSE EXTRACT(YEAR FROM se.start_date)::INTEGER - 1 END
+) placed
+WHERE s.id = placed.id;
+
+UPDATE public.semesters SET is_current = false WHERE is_current IS NULL;
+
+-- Keep only the latest current semester if several were flagged, and flag
+-- the latest semester if none was
+UPDATE public.semesters SET is_current = false
+WHERE is_current AND id <> (SELECT id FROM public.semesters WHERE is_current ORDER BY sort_order DESC LIMIT 1);
+UPDATE public.semesters SET is_current = true
+WHERE id = (SELECT id FROM public.semesters ORDER BY sort_order DESC LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM public.semesters WHERE is_current);
+
+ALTER TABLE public.semesters
+  ALTER COLUMN session_id SET NOT NULL,
+  ALTER COLUMN position SET NOT NULL,
+  ALTER COLUMN sort_order SET NOT NULL,
+  ALTER COLUMN is_current SET NOT NULL,
+  ADD CONSTRAINT semesters_session_position_key UNIQUE (session_id, position);
+
+CREATE INDEX semesters_sort_order_idx ON public.semesters (sort_order);
+
+-- At most one current semester; the constraint trigger below requires one
+CREATE UNIQUE INDEX semesters_one_current_idx ON public.semesters (is_current) WHERE is_current;
+
+CREATE OR REPLACE FUNCTION public.set_semester_sort_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.sort_order := (SELECT start_year FROM academic_sessions WHERE id = NEW.session_id) * 100 + NEW.position;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_semester_sort_order
+  BEFORE INSERT OR UPDATE OF session_id, position ON public.semesters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_semester_sort_order();
+
+CREATE OR REPLACE FUNCTION public.update_session_semesters_sort_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE semesters SET sort_order = NEW.start_year * 100 + position WHERE session_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_session_semesters_sort_order
+  AFTER UPDATE OF start_year ON public.academic_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_session_semesters_sort_order();
+
+-- Checked at commit, so the current flag can move within a transaction
+CREATE OR REPLACE FUNCTION public.check_one_current_semester()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM semesters) AND NOT EXISTS (SELECT 1 FROM semesters WHERE is_current) THEN
+    RAISE EXCEPTION 'One semester must be the current semester';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_one_current_semester
+  AFTER INSERT OR UPDATE OF is_current OR DELETE ON public.semesters
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_one_current_semester();
+
+-- Deleting a semester cascades to its results
+CREATE OR REPLACE FUNCTION public.prevent_semester_with_results_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM results WHERE semester_id = OLD.id) THEN
+    RAISE EXCEPTION 'Semester % has results and cannot be deleted', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_semester_with_results_delete
+  BEFORE DELETE ON public.semesters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_semester_with_results_delete();
+
+-- Makes _semester_id the current semester. Runs with the caller's rights, so
+-- only records staff can change it.
+CREATE OR REPLACE FUNCTION public.set_current_semester(_semester_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE semesters SET is_current = false WHERE is_current AND id <> _semester_id;
+  UPDATE semesters SET is_current = true WHERE id = _semester_id AND NOT is_current;
+
+  IF NOT EXISTS (SELECT 1 FROM semesters WHERE id = _semester_id AND is_current) THEN
+    RAISE EXCEPTION 'Semester not found or not permitted';
+  END IF;
+END;
+$$;
@@ -0,0 +1,206 @@
+-- Course registration. A student registers for the courses they take each
+-- semester, and results can only be recorded for registered courses, so
+-- registered courses without a result show up as missing results.
+-- Registering checks that the course is offered, that its prerequisites were
+-- passed in an earlier semester and that the semester's credit load stays
+-- within the maximum. The minimum load is reported rather than enforced, as
+-- a student registers one course at a time.
+
+CREATE TABLE public.registration_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  min_credit_units INTEGER NOT NULL DEFAULT 15 CHECK (min_credit_units >= 0),
+  max_credit_units INTEGER NOT NULL DEFAULT 24 CHECK (max_credit_units > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (min_credit_units <= max_credit_units)
+);
+
+INSERT INTO public.registration_settings DEFAULT VALUES;
+
+CREATE TABLE public.course_registrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  semester_id UUID NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'registered' CHECK (status IN ('registered', 'dropped')),
+  registered_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (student_id, course_id, semester_id)
+);
+
+CREATE INDEX course_registrations_semester_course_idx ON public.course_registrations (semester_id, course_id);
+
+-- Results recorded before registration existed count as registered
+INSERT INTO public.course_registrations (student_id, course_id, semester_id, created_at)
+SELECT student_id, course_id, semester_id, created_at FROM public.results;
+
+ALTER TABLE public.registration_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_registrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view registration settings" ON public.registration_settings
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can update registration settings" ON public.registration_settings
+  FOR UPDATE TO authenticated USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view course registrations" ON public.course_registrations
+  FOR SELECT TO authenticated
+  USING (public.is_records_staff(auth.uid()) OR public.has_role(auth.uid(), 'lecturer') OR public.has_role(auth.uid(), 'advisor'));
+CREATE POLICY "Students can view their own registrations" ON public.course_registrations
+  FOR SELECT TO authenticated
+  USING (student_id IN (SELECT id FROM students WHERE user_id = auth.uid()));
+CREATE POLICY "Records staff can manage course registrations" ON public.course_registrations
+  FOR ALL TO authenticated USING (public.is_records_staff(auth.uid()));
+
+CREATE TRIGGER update_registration_settings_updated_at
+  BEFORE UPDATE ON public.registration_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_course_registrations_updated_at
+  BEFORE UPDATE ON public.course_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.check_course_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reg_course courses%ROWTYPE;
+  reg_sort_order INTEGER;
+  max_units INTEGER;
+  credit_load INTEGER;
+  unmet TEXT;
+BEGIN
+  IF NEW.status <> 'registered' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO reg_course FROM courses WHERE id = NEW.course_id;
+  IF NOT reg_course.is_active THEN
+    RAISE EXCEPTION '% is retired and cannot be registered for', reg_course.course_code;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM students WHERE id = NEW.student_id AND archived_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Archived students cannot register for courses';
+  END IF;
+
+  SELECT sort_order INTO reg_sort_order FROM semesters WHERE id = NEW.semester_id;
+
+  SELECT string_agg(c.course_code, ', ' ORDER BY c.course_code) INTO unmet
+  FROM course_prerequisites p
+  JOIN courses c ON c.id = p.prerequisite_id
+  WHERE p.course_id = NEW.course_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM results r JOIN semesters s ON s.id = r.semester_id
+      WHERE r.student_id = NEW.student_id
+        AND r.course_id = p.prerequisite_id
+        AND r.is_pass
+        AND s.sort_order < reg_sort_order
+    );
+  IF unmet IS NOT NULL THEN
+    RAISE EXCEPTION '% requires passing % first', reg_course.course_code, unmet;
+  END IF;
+
+  SELECT max_credit_units INTO max_units FROM registration_settings;
+  SELECT COALESCE(SUM(c.credit_units), 0) + reg_course.credit_units INTO credit_load
+  FROM course_registrations cr
+  JOIN courses c ON c.id = cr.course_id
+  WHERE cr.student_id = NEW.student_id
+    AND cr.semester_id = NEW.semester_id
+    AND cr.status = 'registered'
+    AND cr.id <> NEW.id;
+  IF credit_load > max_units THEN
+    RAISE EXCEPTION 'Registering % would bring the credit load to % units, above the maximum of %',
+      reg_course.course_code, credit_load, max_units;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_course_registration
+  BEFORE INSERT OR UPDATE OF status, student_id, course_id, semester_id ON public.course_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_course_registration();
+
+-- A registration with a result stays registered
+CREATE OR REPLACE FUNCTION public.prevent_graded_registration_drop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'DELETE' OR NEW.status <> 'registered')
+     AND EXISTS (
+       SELECT 1 FROM results
+       WHERE student_id = OLD.student_id AND course_id = OLD.course_id AND semester_id = OLD.semester_id
+     ) THEN
+    RAISE EXCEPTION 'The course already has a result and cannot be dropped';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER prevent_graded_registration_drop
+  BEFORE UPDATE OF status OR DELETE ON public.course_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_graded_registration_drop();
+
+CREATE OR REPLACE FUNCTION public.require_course_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM course_registrations
+    WHERE student_id = NEW.student_id
+      AND course_id = NEW.course_id
+      AND semester_id = NEW.semester_id
+      AND status = 'registered'
+  ) THEN
+    RAISE EXCEPTION 'The student is not registered for this course in this semester';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_course_registration
+  BEFORE INSERT OR UPDATE OF student_id, course_id, semester_id ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_course_registration();
+
+-- Registered courses in a semester that have no result yet, optionally for
+-- one course. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.missing_results(_semester_id UUID, _course_id UUID DEFAULT NULL)
+RETURNS TABLE(
+  registration_id UUID,
+  student_id TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  program TEXT,
+  course_code TEXT,
+  course_name TEXT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT cr.id, s.student_id, s.first_name, s.last_name, s.program, c.course_code, c.course_name
+  FROM course_registrations cr
+  JOIN students s ON s.id = cr.student_id
+  JOIN courses c ON c.id = cr.course_id
+  WHERE cr.semester_id = _semester_id
+    AND cr.status = 'registered'
+    AND (_course_id IS NULL OR cr.course_id = _course_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM results r
+      WHERE r.student_id = cr.student_id AND r.course_id = cr.course_id AND r.semester_id = cr.semester_id
+    )
+  ORDER BY c.course_code, s.student_id;
+$$;
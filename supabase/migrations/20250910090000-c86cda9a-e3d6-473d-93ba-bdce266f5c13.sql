@@ -0,0 +1,34 @@
+-- Replaces a scale's bands in one transaction. Deleting and inserting from
+-- the client could leave a scale with no bands when the insert failed, and
+-- then no result on that scale could be graded.
+CREATE OR REPLACE FUNCTION public.replace_grade_bands(_grading_scale_id UUID, _bands JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can change grading scales';
+  END IF;
+
+  IF jsonb_array_length(_bands) = 0 THEN
+    RAISE EXCEPTION 'A scale needs at least one band';
+  END IF;
+
+  DELETE FROM grade_bands WHERE grading_scale_id = _grading_scale_id;
+
+  INSERT INTO grade_bands (grading_scale_id, letter, min_score, grade_point, is_pass)
+  SELECT _grading_scale_id, upper(trim(b.letter)), b.min_score, b.grade_point, b.is_pass
+  FROM jsonb_to_recordset(_bands) AS b(letter TEXT, min_score DECIMAL, grade_point DECIMAL, is_pass BOOLEAN);
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+
+  IF NOT EXISTS (SELECT 1 FROM grade_bands WHERE grading_scale_id = _grading_scale_id AND min_score = 0) THEN
+    RAISE EXCEPTION 'One band must start at 0 so every score gets a grade';
+  END IF;
+
+  RETURN inserted;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Queues messages and links them to the results they cover in one call.
+-- The idempotency key still turns a repeat of a queued, sent or delivered
+-- message into a no-op, but a failed or cancelled message with the same key
+-- is queued again with the new content, so it can be re-sent. Runs with the
+-- caller's rights; returns the rows that were queued or revived, with the
+-- status the consent and recipient checks left them in.
+CREATE OR REPLACE FUNCTION public.enqueue_sms_messages(_batch_id UUID, _messages JSONB)
+RETURNS TABLE(id UUID, idempotency_key TEXT, status public.sms_status)
+LANGUAGE SQL
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT DISTINCT ON (m.idempotency_key) m.*
+    FROM jsonb_to_recordset(_messages) AS m(
+      student_id UUID,
+      contact_id UUID,
+      result_id UUID,
+      channel notification_channel,
+      recipient TEXT,
+      subject TEXT,
+      body TEXT,
+      template_id UUID,
+      idempotency_key TEXT,
+      next_attempt_at TIMESTAMP WITH TIME ZONE,
+      bypass_consent BOOLEAN,
+      result_ids UUID[]
+    )
+  ),
+  queued AS (
+    INSERT INTO sms_messages AS s (
+      student_id, contact_id, result_id, channel, recipient, subject, body, template_id,
+      idempotency_key, next_attempt_at, bypass_consent, batch_id
+    )
+    SELECT student_id, contact_id, result_id, COALESCE(channel, 'sms'), recipient, subject, body, template_id,
+      idempotency_key, COALESCE(next_attempt_at, now()), COALESCE(bypass_consent, false), _batch_id
+    FROM incoming
+    ON CONFLICT (idempotency_key) DO UPDATE
+    SET status = 'queued',
+      attempts = 0,
+      error = NULL,
+      failed_at = NULL,
+      locked_at = NULL,
+      provider_message_id = NULL,
+      next_attempt_at = EXCLUDED.next_attempt_at,
+      contact_id = EXCLUDED.contact_id,
+      recipient = EXCLUDED.recipient,
+      subject = EXCLUDED.subject,
+      body = EXCLUDED.body,
+      template_id = EXCLUDED.template_id,
+      bypass_consent = EXCLUDED.bypass_consent,
+      batch_id = EXCLUDED.batch_id
+    WHERE s.status IN ('failed', 'cancelled')
+    RETURNING s.id, s.idempotency_key, s.status
+  ),
+  linked AS (
+    INSERT INTO sms_message_results (message_id, result_id)
+    SELECT q.id, unnest(i.result_ids)
+    FROM queued q
+    JOIN incoming i ON i.idempotency_key = q.idempotency_key
+    WHERE i.result_ids IS NOT NULL
+    ON CONFLICT DO NOTHING
+  )
+  SELECT q.id, q.idempotency_key, q.status FROM queued q;
+$$;
@@ -0,0 +1,49 @@
+-- sms_settings.rate_per_second applies to all workers together. Each worker
+-- paced its own sends, so two running at once (a scheduled run and one
+-- started from the Notifications tab) sent at twice the configured rate.
+-- Claims are now stamped and a claim only takes what is left of the last
+-- second's allowance.
+
+ALTER TABLE public.sms_messages
+  -- When a worker last claimed the message; unlike locked_at it is not
+  -- cleared after the send
+  ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX sms_messages_claimed_at_idx ON public.sms_messages (claimed_at) WHERE claimed_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.claim_sms_messages(_limit INTEGER)
+RETURNS SETOF public.sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allowance INTEGER;
+BEGIN
+  -- One claim at a time, so concurrent workers see each other's claims
+  PERFORM pg_advisory_xact_lock(hashtext('claim_sms_messages'));
+
+  SELECT CEIL(rate_per_second)::INTEGER INTO allowance FROM sms_settings;
+  allowance := allowance - (
+    SELECT COUNT(*) FROM sms_messages WHERE claimed_at > clock_timestamp() - interval '1 second'
+  );
+  IF allowance <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE sms_messages
+  SET locked_at = now(), claimed_at = clock_timestamp(), attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM sms_messages
+    WHERE status = 'queued'
+      AND next_attempt_at <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '5 minutes')
+      AND (channel <> 'sms' OR NOT sms_budget_exhausted())
+    ORDER BY next_attempt_at
+    LIMIT LEAST(_limit, allowance)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- Providers retry the inbound webhook when a response is slow or lost, and
+-- each retry was logged and answered again. A provider's message id now
+-- identifies an inbound text once; messages without an id are still logged
+-- every time.
+
+DELETE FROM public.sms_inbound_messages m
+USING public.sms_inbound_messages earlier
+WHERE m.provider = earlier.provider
+  AND m.provider_message_id = earlier.provider_message_id
+  AND (m.created_at, m.id) > (earlier.created_at, earlier.id);
+
+CREATE UNIQUE INDEX sms_inbound_messages_provider_message_id_key
+  ON public.sms_inbound_messages (provider, provider_message_id);
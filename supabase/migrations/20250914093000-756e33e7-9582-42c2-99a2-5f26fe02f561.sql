@@ -0,0 +1,54 @@
+-- When a result was released to the student. SMS and USSD lookups answered
+-- from every result, so a student could read a grade that was still waiting
+-- for approval before it was announced. A result is released once it has been
+-- sent, or once its outbox row is approved or taken up by the sms-worker
+-- under the notification policy; a pending or rejected row keeps it back.
+
+ALTER TABLE public.results
+  ADD COLUMN released_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.results r
+SET released_at = r.updated_at
+WHERE r.sms_sent
+   OR EXISTS (
+     SELECT 1 FROM result_outbox o
+     WHERE o.result_id = r.id AND o.status NOT IN ('pending', 'rejected')
+   );
+
+CREATE OR REPLACE FUNCTION public.release_result_on_send()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sms_sent AND NEW.released_at IS NULL THEN
+    NEW.released_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_result_on_send
+  BEFORE INSERT OR UPDATE OF sms_sent ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_result_on_send();
+
+CREATE OR REPLACE FUNCTION public.release_result_from_outbox()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('pending', 'rejected') THEN
+    UPDATE results SET released_at = now()
+    WHERE id = NEW.result_id AND released_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER release_result_from_outbox
+  AFTER INSERT OR UPDATE OF status ON public.result_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_result_from_outbox();
@@ -0,0 +1,104 @@
+-- The risk thresholds in academic_risk_settings are on the 4.0 scale. They
+-- were compared with CGPAs as they stand, so a 2.4 CGPA on a 5-point scale,
+-- 1.92 on the 4.0 scale, only counted as medium risk. A student's CGPA
+-- and any fall in it are now converted to the 4.0 scale from the maximum
+-- grade point of their programme's scale, or the default scale, first.
+-- Existing risk levels catch up on the next CGPA recompute.
+
+-- Best grade point on a student's programme scale, or on the default scale
+CREATE OR REPLACE FUNCTION public.student_max_grade_point(_student_id UUID)
+RETURNS DECIMAL
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT max_grade_point FROM grading_scales WHERE id = resolve_grading_scale(_student_id, NULL)),
+    4
+  );
+$$;
+
+-- Unchanged apart from comparing on the 4.0 scale
+CREATE OR REPLACE FUNCTION public.evaluate_academic_risk(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings academic_risk_settings%ROWTYPE;
+  latest RECORD;
+  previous RECORD;
+  old_level TEXT;
+  new_level TEXT := 'low';
+  -- Multiplies a CGPA on the student's scale onto the 4.0 scale
+  to_four NUMERIC;
+BEGIN
+  SELECT * INTO settings FROM academic_risk_settings;
+  SELECT risk_level INTO old_level FROM students WHERE id = _student_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  to_four := 4 / student_max_grade_point(_student_id);
+
+  SELECT cr.semester_id, cr.cumulative_gpa INTO latest
+  FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+  WHERE cr.student_id = _student_id
+  ORDER BY s.start_date DESC
+  LIMIT 1;
+
+  IF latest.semester_id IS NOT NULL THEN
+    SELECT cr.cumulative_gpa INTO previous
+    FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+    WHERE cr.student_id = _student_id AND cr.semester_id <> latest.semester_id
+    ORDER BY s.start_date DESC
+    LIMIT 1;
+
+    IF latest.cumulative_gpa * to_four < settings.high_risk_below THEN
+      new_level := 'high';
+    ELSIF latest.cumulative_gpa * to_four < settings.medium_risk_below THEN
+      new_level := 'medium';
+    END IF;
+  END IF;
+
+  IF new_level IS DISTINCT FROM old_level THEN
+    UPDATE students SET risk_level = new_level, risk_level_changed_at = now() WHERE id = _student_id;
+  END IF;
+
+  IF NOT settings.enabled OR latest.semester_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only a move up: low -> medium, low -> high or medium -> high
+  IF new_level <> 'low'
+    AND (old_level = 'low' OR (old_level = 'medium' AND new_level = 'high'))
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'risk_level'
+        AND risk_level = new_level
+        AND created_at > now() - make_interval(days => settings.repeat_after_days)
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'risk_level', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+
+  -- A fall is reported once per semester, and not again within the window
+  IF previous.cumulative_gpa IS NOT NULL
+    AND (previous.cumulative_gpa - latest.cumulative_gpa) * to_four > settings.cgpa_drop_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'cgpa_drop'
+        AND (semester_id = latest.semester_id
+          OR created_at > now() - make_interval(days => settings.repeat_after_days))
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'cgpa_drop', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+END;
+$$;
+
@@ -0,0 +1,85 @@
+-- Creates a campaign in one transaction: its batch, the campaign row, the
+-- queued messages and the recipient list. Four separate requests from the
+-- builder could fail half way and leave a campaign without its messages, or
+-- messages going out with no campaign to show them.
+-- _recipients holds everyone the segment matched: student_id,
+-- student_number, student_name, recipient (NULL with a skipped_reason when
+-- the student cannot be reached) and the rendered subject and body.
+CREATE OR REPLACE FUNCTION public.create_sms_campaign(
+  _campaign JSONB,
+  _recipients JSONB,
+  _scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  campaign_channel notification_channel := COALESCE((_campaign->>'channel')::notification_channel, 'sms');
+  new_batch_id UUID;
+  new_campaign_id UUID;
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can send campaigns';
+  END IF;
+
+  INSERT INTO sms_batches (label, scheduled_for)
+  VALUES ('Campaign: ' || (_campaign->>'name'), _scheduled_for)
+  RETURNING id INTO new_batch_id;
+
+  INSERT INTO sms_campaigns (
+    name, channel, subject, body, filters, batch_id,
+    recipient_count, skipped_count, estimated_segments, estimated_cost
+  )
+  SELECT _campaign->>'name',
+         campaign_channel,
+         _campaign->>'subject',
+         _campaign->>'body',
+         COALESCE(_campaign->'filters', '{}'::jsonb),
+         new_batch_id,
+         COUNT(*) FILTER (WHERE r->>'recipient' IS NOT NULL),
+         COUNT(*) FILTER (WHERE r->>'recipient' IS NULL),
+         COALESCE((_campaign->>'estimated_segments')::INTEGER, 0),
+         (_campaign->>'estimated_cost')::DECIMAL
+  FROM jsonb_array_elements(_recipients) AS r
+  RETURNING id INTO new_campaign_id;
+
+  WITH matched AS (
+    SELECT r.*,
+           'campaign:' || new_campaign_id || ':' || r.student_id
+             || CASE WHEN campaign_channel = 'email' THEN ':email' ELSE '' END AS message_key
+    FROM jsonb_to_recordset(_recipients) AS r(
+      student_id UUID,
+      student_number TEXT,
+      student_name TEXT,
+      recipient TEXT,
+      skipped_reason TEXT,
+      subject TEXT,
+      body TEXT
+    )
+  ),
+  queued AS (
+    SELECT q.id, q.idempotency_key
+    FROM enqueue_sms_messages(new_batch_id, (
+      SELECT jsonb_agg(jsonb_build_object(
+        'student_id', m.student_id,
+        'channel', campaign_channel,
+        'recipient', m.recipient,
+        'subject', m.subject,
+        'body', m.body,
+        'idempotency_key', m.message_key,
+        'next_attempt_at', _scheduled_for
+      ))
+      FROM matched m
+      WHERE m.recipient IS NOT NULL
+    )) AS q
+  )
+  INSERT INTO sms_campaign_recipients (campaign_id, student_id, student_number, student_name, recipient, message_id, skipped_reason)
+  SELECT new_campaign_id, m.student_id, m.student_number, m.student_name, m.recipient, q.id, m.skipped_reason
+  FROM matched m
+  LEFT JOIN queued q ON q.idempotency_key = m.message_key;
+
+  RETURN new_batch_id;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- A hard monthly SMS budget. Texts were only checked against the budget when
+-- claimed and paused after a costed send took the spend over it, so texts
+-- already claimed still went out. deliverMessage now asks
+-- sms_budget_allows before each text and leaves it queued when the text
+-- would take the month's spend over the budget.
+
+-- Pauses texts and emails the admins, once a month
+CREATE OR REPLACE FUNCTION public.pause_sms_budget(_spent NUMERIC)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings sms_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO settings FROM sms_settings;
+  UPDATE sms_settings SET budget_paused_at = now();
+
+  INSERT INTO sms_messages (recipient, channel, subject, body, bypass_consent, idempotency_key)
+  SELECT p.email,
+         'email',
+         'SMS budget reached: texts are paused',
+         format(
+           '<p>This month''s SMS spend of %s %s leaves no room for further texts in the budget of %s %s, so queued texts are paused.</p>'
+           '<p>Raise the monthly budget under Settings to resume sending. Emails are not affected.</p>',
+           settings.currency, to_char(_spent, 'FM999999990.00'), settings.currency, to_char(settings.monthly_budget, 'FM999999990.00')
+         ),
+         true,
+         'budget:' || to_char(sms_month_start(now()) AT TIME ZONE settings.timezone, 'YYYY-MM') || ':' || p.id
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'admin'
+    AND p.email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+  ON CONFLICT (idempotency_key) DO NOTHING;
+END;
+$$;
+
+-- Spend in costed texts since the start of the month. Runs with the
+-- caller's rights.
+CREATE OR REPLACE FUNCTION public.sms_month_spend()
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost), 0)
+  FROM sms_messages
+  WHERE cost IS NOT NULL AND sent_at >= sms_month_start(now());
+$$;
+
+-- Unchanged apart from sharing pause_sms_budget
+CREATE OR REPLACE FUNCTION public.check_sms_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget DECIMAL;
+  spent NUMERIC;
+BEGIN
+  SELECT monthly_budget INTO budget FROM sms_settings;
+  IF budget IS NULL OR sms_budget_exhausted() THEN
+    RETURN NULL;
+  END IF;
+
+  spent := sms_month_spend();
+  IF spent >= budget THEN
+    PERFORM pause_sms_budget(spent);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Whether a text costing _cost fits in what is left of the month's budget.
+-- One that does not pauses texts, so the worker stops claiming them.
+CREATE OR REPLACE FUNCTION public.sms_budget_allows(_cost NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget DECIMAL;
+  spent NUMERIC;
+BEGIN
+  SELECT monthly_budget INTO budget FROM sms_settings;
+  IF budget IS NULL THEN
+    RETURN true;
+  END IF;
+  IF sms_budget_exhausted() THEN
+    RETURN false;
+  END IF;
+
+  spent := sms_month_spend();
+  IF spent + COALESCE(_cost, 0) <= budget THEN
+    RETURN true;
+  END IF;
+
+  PERFORM pause_sms_budget(spent);
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pause_sms_budget(NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sms_budget_allows(NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- What is left of this month's budget for the send screens' estimates, or
+-- NULL when there is no budget. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.sms_budget_remaining()
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN monthly_budget IS NULL THEN NULL
+    WHEN sms_budget_exhausted() THEN 0
+    ELSE GREATEST(monthly_budget - sms_month_spend(), 0)
+  END
+  FROM sms_settings;
+$$;
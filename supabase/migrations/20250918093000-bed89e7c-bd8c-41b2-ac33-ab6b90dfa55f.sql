@@ -0,0 +1,81 @@
+-- Result outbox rows are leased while the sms-worker turns them into
+-- messages. claim_result_outbox marked rows queued before any message
+-- existed, so a worker that failed part way left them queued with nothing
+-- sent. Claimed rows are now processing; the worker marks them queued or
+-- skipped once their messages are in, or hands them back with
+-- release_result_outbox when it fails. Rows a crashed worker never handed
+-- back are claimed again once the lease runs out.
+
+ALTER TABLE public.result_outbox
+  DROP CONSTRAINT result_outbox_status_check,
+  ADD CONSTRAINT result_outbox_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected', 'processing', 'queued', 'skipped'));
+
+CREATE OR REPLACE FUNCTION public.claim_result_outbox(_limit INTEGER)
+RETURNS SETOF public.result_outbox
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE result_outbox
+  SET status = 'processing', processed_at = now()
+  WHERE id IN (
+    SELECT o.id
+    FROM result_outbox o
+    CROSS JOIN result_notification_settings s
+    WHERE o.status = 'approved'
+       OR (o.status = 'processing' AND o.processed_at < now() - interval '10 minutes')
+       OR (o.status = 'pending' AND s.policy = 'immediate')
+       OR (o.status = 'pending' AND s.policy = 'semester' AND NOT EXISTS (
+         SELECT 1 FROM result_outbox latest
+         WHERE latest.semester_id = o.semester_id
+           AND latest.created_at > now() - make_interval(mins => s.batch_delay_minutes)
+       ))
+    -- Keeps a student's semester together when the limit cuts a run short
+    ORDER BY o.semester_id, o.student_id, o.created_at
+    LIMIT _limit
+    FOR UPDATE OF o SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Hands claimed rows back to be tried on the next run, approved or pending
+-- as they were, noting why. A row whose result changed in the meantime is
+-- skipped instead: the newer open row covers it.
+CREATE OR REPLACE FUNCTION public.release_result_outbox(_ids UUID[], _error TEXT)
+RETURNS void
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE result_outbox o
+  SET status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM result_outbox newer
+          WHERE newer.result_id = o.result_id AND newer.status IN ('pending', 'approved')
+        ) THEN 'skipped'
+        WHEN o.decided_at IS NOT NULL THEN 'approved'
+        ELSE 'pending'
+      END,
+      error = _error
+  WHERE o.id = ANY(_ids) AND o.status = 'processing';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_result_outbox(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A row being processed does not release its result yet; it may be handed
+-- back
+CREATE OR REPLACE FUNCTION public.release_result_from_outbox()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('pending', 'processing', 'rejected') THEN
+    UPDATE results SET released_at = now()
+    WHERE id = NEW.result_id AND released_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Saves a course and its prerequisites in one transaction. The Courses tab
+-- updated the course and then its prerequisites in separate requests, so a
+-- prerequisite refused as a cycle left the course edited with its old
+-- prerequisites. _course_id is NULL for a new course; _course holds the
+-- course's fields and _prerequisite_ids the full prerequisite list. Returns
+-- the course id.
+CREATE OR REPLACE FUNCTION public.save_course(
+  _course_id UUID,
+  _course JSONB,
+  _prerequisite_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id UUID := _course_id;
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can manage courses';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO courses (course_code, course_name, credit_units, level, department, course_type, is_active)
+    SELECT r.course_code, r.course_name, r.credit_units, r.level, r.department, r.course_type, r.is_active
+    FROM jsonb_populate_record(NULL::courses, _course) r
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE courses c
+    SET course_code = r.course_code,
+        course_name = r.course_name,
+        credit_units = r.credit_units,
+        level = r.level,
+        department = r.department,
+        course_type = r.course_type,
+        is_active = r.is_active
+    FROM jsonb_populate_record(NULL::courses, _course) r
+    WHERE c.id = saved_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Course not found';
+    END IF;
+  END IF;
+
+  DELETE FROM course_prerequisites
+  WHERE course_id = saved_id AND prerequisite_id <> ALL(_prerequisite_ids);
+
+  INSERT INTO course_prerequisites (course_id, prerequisite_id)
+  SELECT saved_id, unnest(_prerequisite_ids)
+  ON CONFLICT DO NOTHING;
+
+  RETURN saved_id;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Students only see released results. 20250914093000 kept unreleased
+-- results out of the SMS and USSD lookups, but a signed-in student could
+-- still read them, and the GPAs computed from them, in the app.
+
+-- Whether every result of a student's semester has been released. Reads
+-- past the students' own results policy, which hides the unreleased ones.
+CREATE OR REPLACE FUNCTION public.semester_results_released(_student_id UUID, _semester_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM results
+    WHERE student_id = _student_id AND semester_id = _semester_id AND released_at IS NULL
+  );
+$$;
+
+DROP POLICY "Students can view their own results" ON public.results;
+CREATE POLICY "Students can view their own results" ON public.results
+  FOR SELECT TO authenticated
+  USING (public.is_student_self(auth.uid(), student_id) AND released_at IS NOT NULL);
+
+-- A semester's GPA shows once all of its results are released, as in the
+-- SMS and USSD lookups
+DROP POLICY "Students can view their own CGPA records" ON public.cgpa_records;
+CREATE POLICY "Students can view their own CGPA records" ON public.cgpa_records
+  FOR SELECT TO authenticated
+  USING (
+    public.is_student_self(auth.uid(), student_id)
+    AND public.semester_results_released(student_id, semester_id)
+  );
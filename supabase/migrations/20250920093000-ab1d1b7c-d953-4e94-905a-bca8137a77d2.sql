@@ -0,0 +1,44 @@
+-- Runs the sms-worker every minute. Until now it only ran when staff sent
+-- from the SMS tab or recorded a result, so lecturers' results, approved
+-- outbox rows, scheduled sends and texts held for quiet hours waited for
+-- someone to come along.
+--
+-- Deploy step: the job calls the worker with the project URL and the
+-- service-role key, which it reads from the vault. Add them once per
+-- project, from the SQL editor:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+-- Until both exist every run logs a warning and does nothing.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_sms_worker()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url TEXT;
+  service_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RAISE WARNING 'sms-worker not called: add the project_url and service_role_key secrets to the vault';
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/sms-worker',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_key),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_sms_worker() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('sms-worker', '* * * * *', 'SELECT public.invoke_sms_worker()');
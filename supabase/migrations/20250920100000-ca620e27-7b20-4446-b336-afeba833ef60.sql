@@ -0,0 +1,97 @@
+-- Sign-ups no longer grant anything before the email is confirmed. The first
+-- account to register became admin, and anyone registering with a student's
+-- email was linked to that student's records straight away. Accounts are now
+-- linked to a student once their email is confirmed, and admins are made
+-- explicitly. To create the first admin after they have signed up, run from
+-- the SQL editor or with the service-role key:
+--   SELECT public.grant_admin('registrar@university.edu');
+
+-- Links a confirmed account to the student record with the same email
+CREATE OR REPLACE FUNCTION public.link_student_account(_user_id UUID, _email TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_student UUID;
+BEGIN
+  UPDATE students SET user_id = _user_id
+  WHERE lower(email) = lower(_email) AND user_id IS NULL
+  RETURNING id INTO linked_student;
+
+  IF linked_student IS NOT NULL THEN
+    INSERT INTO user_roles (user_id, role) VALUES (_user_id, 'student') ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- New sign-ups get a profile; accounts created already confirmed (by an
+-- admin, say) are linked at once
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, full_name, email)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'full_name', NEW.email);
+
+  IF NEW.email_confirmed_at IS NOT NULL THEN
+    PERFORM link_student_account(NEW.id, NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_user_confirmed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM link_student_account(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_user_confirmed();
+
+-- Makes an existing account an admin
+CREATE OR REPLACE FUNCTION public.grant_admin(_email TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account UUID;
+BEGIN
+  SELECT id INTO account FROM profiles WHERE lower(email) = lower(_email);
+  IF account IS NULL THEN
+    RAISE EXCEPTION 'No account with the email %; sign up first', _email;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role) VALUES (account, 'admin') ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_student_account(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.grant_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Undo links made before the email was confirmed
+DELETE FROM public.user_roles r
+USING auth.users u
+WHERE r.user_id = u.id AND r.role = 'student' AND u.email_confirmed_at IS NULL;
+
+UPDATE public.students s
+SET user_id = NULL
+FROM auth.users u
+WHERE s.user_id = u.id AND u.email_confirmed_at IS NULL;
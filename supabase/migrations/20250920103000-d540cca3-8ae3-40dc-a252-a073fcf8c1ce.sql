@@ -0,0 +1,153 @@
+-- At-risk alerts are leased while the sms-worker turns them into messages,
+-- as result_outbox rows are since 20250918093000. claim_risk_alerts marked
+-- alerts queued before any message existed, so a failed lookup left them
+-- queued with nothing sent. Claimed alerts are now processing until the
+-- worker marks them queued or skipped, or hands them back with
+-- release_risk_alerts; a crashed worker's alerts are claimed again once the
+-- lease runs out.
+--
+-- Risk is also judged only from semesters whose results are all released,
+-- so an alert cannot give away a grade still waiting for approval. Releasing
+-- a result evaluates the student again.
+
+ALTER TABLE public.academic_risk_alerts
+  DROP CONSTRAINT academic_risk_alerts_status_check,
+  ADD CONSTRAINT academic_risk_alerts_status_check
+    CHECK (status IN ('pending', 'processing', 'queued', 'skipped'));
+
+CREATE OR REPLACE FUNCTION public.claim_risk_alerts(_limit INTEGER)
+RETURNS SETOF public.academic_risk_alerts
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE academic_risk_alerts
+  SET status = 'processing', processed_at = now()
+  WHERE id IN (
+    SELECT id FROM academic_risk_alerts
+    WHERE status = 'pending'
+       OR (status = 'processing' AND processed_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Hands claimed alerts back to be tried on the next run, noting why
+CREATE OR REPLACE FUNCTION public.release_risk_alerts(_ids UUID[], _error TEXT)
+RETURNS void
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE academic_risk_alerts
+  SET status = 'pending', error = _error
+  WHERE id = ANY(_ids) AND status = 'processing';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_risk_alerts(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Unchanged apart from leaving out semesters with unreleased results
+CREATE OR REPLACE FUNCTION public.evaluate_academic_risk(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings academic_risk_settings%ROWTYPE;
+  latest RECORD;
+  previous RECORD;
+  old_level TEXT;
+  new_level TEXT := 'low';
+  -- Multiplies a CGPA on the student's scale onto the 4.0 scale
+  to_four NUMERIC;
+BEGIN
+  SELECT * INTO settings FROM academic_risk_settings;
+  SELECT risk_level INTO old_level FROM students WHERE id = _student_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  to_four := 4 / student_max_grade_point(_student_id);
+
+  SELECT cr.semester_id, cr.cumulative_gpa INTO latest
+  FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+  WHERE cr.student_id = _student_id
+    AND semester_results_released(_student_id, cr.semester_id)
+  ORDER BY s.start_date DESC
+  LIMIT 1;
+
+  IF latest.semester_id IS NOT NULL THEN
+    SELECT cr.cumulative_gpa INTO previous
+    FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+    WHERE cr.student_id = _student_id AND cr.semester_id <> latest.semester_id
+      AND semester_results_released(_student_id, cr.semester_id)
+    ORDER BY s.start_date DESC
+    LIMIT 1;
+
+    IF latest.cumulative_gpa * to_four < settings.high_risk_below THEN
+      new_level := 'high';
+    ELSIF latest.cumulative_gpa * to_four < settings.medium_risk_below THEN
+      new_level := 'medium';
+    END IF;
+  END IF;
+
+  IF new_level IS DISTINCT FROM old_level THEN
+    UPDATE students SET risk_level = new_level, risk_level_changed_at = now() WHERE id = _student_id;
+  END IF;
+
+  IF NOT settings.enabled OR latest.semester_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only a move up: low -> medium, low -> high or medium -> high
+  IF new_level <> 'low'
+    AND (old_level = 'low' OR (old_level = 'medium' AND new_level = 'high'))
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'risk_level'
+        AND risk_level = new_level
+        AND created_at > now() - make_interval(days => settings.repeat_after_days)
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'risk_level', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+
+  -- A fall is reported once per semester, and not again within the window
+  IF previous.cumulative_gpa IS NOT NULL
+    AND (previous.cumulative_gpa - latest.cumulative_gpa) * to_four > settings.cgpa_drop_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'cgpa_drop'
+        AND (semester_id = latest.semester_id
+          OR created_at > now() - make_interval(days => settings.repeat_after_days))
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'cgpa_drop', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_risk_on_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_academic_risk(NEW.student_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER evaluate_risk_on_release
+  AFTER UPDATE OF released_at ON public.results
+  FOR EACH ROW
+  WHEN (OLD.released_at IS NULL AND NEW.released_at IS NOT NULL)
+  EXECUTE FUNCTION public.evaluate_risk_on_release();
@@ -0,0 +1,186 @@
+-- Archived students get no more messages. Their results were still
+-- notified from the outbox, risk alerts were still raised and sent, and
+-- messages queued before archiving still went out. Archiving now cancels the
+-- student's queued messages and skips their open outbox rows and pending
+-- alerts, and the claims and risk evaluation leave archived students out.
+
+CREATE OR REPLACE FUNCTION public.claim_result_outbox(_limit INTEGER)
+RETURNS SETOF public.result_outbox
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE result_outbox
+  SET status = 'processing', processed_at = now()
+  WHERE id IN (
+    SELECT o.id
+    FROM result_outbox o
+    JOIN students st ON st.id = o.student_id AND st.archived_at IS NULL
+    CROSS JOIN result_notification_settings s
+    WHERE o.status = 'approved'
+       OR (o.status = 'processing' AND o.processed_at < now() - interval '10 minutes')
+       OR (o.status = 'pending' AND s.policy = 'immediate')
+       OR (o.status = 'pending' AND s.policy = 'semester' AND NOT EXISTS (
+         SELECT 1 FROM result_outbox latest
+         WHERE latest.semester_id = o.semester_id
+           AND latest.created_at > now() - make_interval(mins => s.batch_delay_minutes)
+       ))
+    -- Keeps a student's semester together when the limit cuts a run short
+    ORDER BY o.semester_id, o.student_id, o.created_at
+    LIMIT _limit
+    FOR UPDATE OF o SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_risk_alerts(_limit INTEGER)
+RETURNS SETOF public.academic_risk_alerts
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE academic_risk_alerts
+  SET status = 'processing', processed_at = now()
+  WHERE id IN (
+    SELECT a.id
+    FROM academic_risk_alerts a
+    JOIN students st ON st.id = a.student_id AND st.archived_at IS NULL
+    WHERE a.status = 'pending'
+       OR (a.status = 'processing' AND a.processed_at < now() - interval '10 minutes')
+    ORDER BY a.created_at
+    LIMIT _limit
+    FOR UPDATE OF a SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Unchanged apart from leaving archived students alone
+CREATE OR REPLACE FUNCTION public.evaluate_academic_risk(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings academic_risk_settings%ROWTYPE;
+  latest RECORD;
+  previous RECORD;
+  old_level TEXT;
+  new_level TEXT := 'low';
+  -- Multiplies a CGPA on the student's scale onto the 4.0 scale
+  to_four NUMERIC;
+BEGIN
+  SELECT * INTO settings FROM academic_risk_settings;
+  SELECT risk_level INTO old_level FROM students WHERE id = _student_id AND archived_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  to_four := 4 / student_max_grade_point(_student_id);
+
+  SELECT cr.semester_id, cr.cumulative_gpa INTO latest
+  FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+  WHERE cr.student_id = _student_id
+    AND semester_results_released(_student_id, cr.semester_id)
+  ORDER BY s.start_date DESC
+  LIMIT 1;
+
+  IF latest.semester_id IS NOT NULL THEN
+    SELECT cr.cumulative_gpa INTO previous
+    FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+    WHERE cr.student_id = _student_id AND cr.semester_id <> latest.semester_id
+      AND semester_results_released(_student_id, cr.semester_id)
+    ORDER BY s.start_date DESC
+    LIMIT 1;
+
+    IF latest.cumulative_gpa * to_four < settings.high_risk_below THEN
+      new_level := 'high';
+    ELSIF latest.cumulative_gpa * to_four < settings.medium_risk_below THEN
+      new_level := 'medium';
+    END IF;
+  END IF;
+
+  IF new_level IS DISTINCT FROM old_level THEN
+    UPDATE students SET risk_level = new_level, risk_level_changed_at = now() WHERE id = _student_id;
+  END IF;
+
+  IF NOT settings.enabled OR latest.semester_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only a move up: low -> medium, low -> high or medium -> high
+  IF new_level <> 'low'
+    AND (old_level = 'low' OR (old_level = 'medium' AND new_level = 'high'))
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'risk_level'
+        AND risk_level = new_level
+        AND created_at > now() - make_interval(days => settings.repeat_after_days)
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'risk_level', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+
+  -- A fall is reported once per semester, and not again within the window
+  IF previous.cumulative_gpa IS NOT NULL
+    AND (previous.cumulative_gpa - latest.cumulative_gpa) * to_four > settings.cgpa_drop_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'cgpa_drop'
+        AND (semester_id = latest.semester_id
+          OR created_at > now() - make_interval(days => settings.repeat_after_days))
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'cgpa_drop', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+END;
+$$;
+
+-- What archiving stops: queued messages, open outbox rows and pending alerts
+CREATE OR REPLACE FUNCTION public.stop_messages_to_student(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sms_messages
+  SET status = 'cancelled', error = 'Student archived', locked_at = NULL
+  WHERE student_id = _student_id AND status = 'queued';
+
+  UPDATE result_outbox
+  SET status = 'skipped', error = 'Student archived'
+  WHERE student_id = _student_id AND status IN ('pending', 'approved');
+
+  UPDATE academic_risk_alerts
+  SET status = 'skipped', error = 'Student archived'
+  WHERE student_id = _student_id AND status = 'pending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.stop_messages_to_student(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.stop_messages_on_archive()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM stop_messages_to_student(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER stop_messages_on_archive
+  AFTER UPDATE OF archived_at ON public.students
+  FOR EACH ROW
+  WHEN (OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL)
+  EXECUTE FUNCTION public.stop_messages_on_archive();
+
+-- Students archived before now
+SELECT public.stop_messages_to_student(id) FROM public.students WHERE archived_at IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Makes a scale the default in one transaction. Clearing the old default and
+-- setting the new one from the client could leave no default when the
+-- second update failed, and resolve_grading_scale would have nothing to fall
+-- back on.
+CREATE OR REPLACE FUNCTION public.set_default_grading_scale(_grading_scale_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_records_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admin or registry staff can change grading scales';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM grading_scales WHERE id = _grading_scale_id) THEN
+    RAISE EXCEPTION 'Grading scale not found';
+  END IF;
+
+  UPDATE grading_scales SET is_default = false WHERE is_default AND id <> _grading_scale_id;
+  UPDATE grading_scales SET is_default = true WHERE id = _grading_scale_id;
+END;
+$$;
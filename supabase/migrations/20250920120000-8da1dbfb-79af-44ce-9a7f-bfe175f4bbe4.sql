@@ -0,0 +1,43 @@
+-- Parts of one summary sent at the same moment by two workers each saw the
+-- other part as not yet sent, so neither marked the results and the summary
+-- was offered again. The covered results are now locked first: the second
+-- part waits for the first to commit, and its check then sees it sent.
+CREATE OR REPLACE FUNCTION public.mark_results_notified()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('sent', 'delivered') OR OLD.status IN ('sent', 'delivered') THEN
+    RETURN NEW;
+  END IF;
+
+  -- In a fixed order, so two parts never wait on each other
+  PERFORM 1
+  FROM results r
+  WHERE r.id = NEW.result_id
+     OR r.id IN (SELECT result_id FROM sms_message_results WHERE message_id = NEW.id)
+  ORDER BY r.id
+  FOR UPDATE;
+
+  UPDATE results r
+  SET sms_sent = true
+  WHERE NOT r.sms_sent
+    AND (
+      r.id = NEW.result_id
+      OR r.id IN (SELECT result_id FROM sms_message_results WHERE message_id = NEW.id)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM sms_message_results link
+      JOIN sms_messages m ON m.id = link.message_id
+      WHERE link.result_id = r.id
+        AND m.status NOT IN ('sent', 'delivered')
+        -- Only siblings of this message; older failed sends don't block
+        AND m.batch_id IS NOT DISTINCT FROM NEW.batch_id
+    );
+
+  RETURN NEW;
+END;
+$$;
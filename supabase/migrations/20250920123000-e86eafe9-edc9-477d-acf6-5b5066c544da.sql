@@ -0,0 +1,226 @@
+-- Semesters are ordered by sort_order, as in the app and the registration
+-- checks, rather than by start date. The CGPA chain, the latest CGPA used by
+-- campaigns and risk evaluation, and the recompute cut-off still went by
+-- start date, so they could disagree with what the CGPA tab shows. Existing
+-- records follow on each student's next recompute, or at once with the
+-- Recompute All button on the CGPA tab.
+
+-- Unchanged apart from chaining semesters by sort_order
+CREATE OR REPLACE FUNCTION public.recompute_student_cgpa(_student_id UUID, _from_semester_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_order INTEGER;
+  sem RECORD;
+  cumulative_points NUMERIC := 0;
+  cumulative_units INTEGER := 0;
+BEGIN
+  -- Nothing to rebuild while the student itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM students WHERE id = _student_id) THEN
+    RETURN;
+  END IF;
+
+  IF _from_semester_id IS NOT NULL THEN
+    SELECT sort_order INTO from_order FROM semesters WHERE id = _from_semester_id;
+  END IF;
+
+  -- Drop records from the affected range; they are rebuilt below and any
+  -- semester that no longer has results simply stays deleted.
+  DELETE FROM cgpa_records cr
+  USING semesters s
+  WHERE cr.semester_id = s.id
+    AND cr.student_id = _student_id
+    AND (from_order IS NULL OR s.sort_order >= from_order);
+
+  FOR sem IN
+    SELECT s.id,
+           s.sort_order,
+           SUM(r.grade_point * c.credit_units) AS points,
+           SUM(c.credit_units)::INTEGER AS units
+    FROM results r
+    JOIN courses c ON c.id = r.course_id
+    JOIN semesters s ON s.id = r.semester_id
+    WHERE r.student_id = _student_id
+    GROUP BY s.id, s.sort_order
+    ORDER BY s.sort_order
+  LOOP
+    cumulative_points := cumulative_points + sem.points;
+    cumulative_units := cumulative_units + sem.units;
+
+    IF from_order IS NULL OR sem.sort_order >= from_order THEN
+      INSERT INTO cgpa_records (student_id, semester_id, semester_gpa, cumulative_gpa, total_credit_units)
+      VALUES (
+        _student_id,
+        sem.id,
+        ROUND(sem.points / NULLIF(sem.units, 0), 2),
+        ROUND(cumulative_points / NULLIF(cumulative_units, 0), 2),
+        cumulative_units
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM evaluate_academic_risk(_student_id);
+END;
+$$;
+
+-- Unchanged apart from starting at the earliest semester by sort_order
+CREATE OR REPLACE FUNCTION public.handle_course_credit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected RECORD;
+BEGIN
+  FOR affected IN
+    SELECT r.student_id, (array_agg(r.semester_id ORDER BY s.sort_order))[1] AS semester_id
+    FROM results r
+    JOIN semesters s ON s.id = r.semester_id
+    WHERE r.course_id = NEW.id
+    GROUP BY r.student_id
+  LOOP
+    PERFORM recompute_student_cgpa(affected.student_id, affected.semester_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Unchanged apart from the latest CGPA by sort_order
+CREATE OR REPLACE FUNCTION public.campaign_audience(
+  _program TEXT DEFAULT NULL,
+  _year_of_study INTEGER DEFAULT NULL,
+  _min_cgpa NUMERIC DEFAULT NULL,
+  _max_cgpa NUMERIC DEFAULT NULL,
+  _risk_level TEXT DEFAULT NULL,
+  _missing_results_semester_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  student_id TEXT,
+  first_name TEXT,
+  last_name TEXT,
+  program TEXT,
+  year_of_study INTEGER,
+  phone_number TEXT,
+  email TEXT,
+  sms_consent BOOLEAN,
+  email_consent BOOLEAN,
+  risk_level TEXT,
+  cgpa DECIMAL(3,2)
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.student_id, s.first_name, s.last_name, s.program, s.year_of_study,
+         s.phone_number, s.email, s.sms_consent, s.email_consent, s.risk_level, latest.cumulative_gpa
+  FROM students s
+  LEFT JOIN LATERAL (
+    SELECT cr.cumulative_gpa
+    FROM cgpa_records cr JOIN semesters se ON se.id = cr.semester_id
+    WHERE cr.student_id = s.id
+    ORDER BY se.sort_order DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE s.archived_at IS NULL
+    AND (_program IS NULL OR s.program = _program)
+    AND (_year_of_study IS NULL OR s.year_of_study = _year_of_study)
+    AND (_min_cgpa IS NULL OR latest.cumulative_gpa >= _min_cgpa)
+    AND (_max_cgpa IS NULL OR latest.cumulative_gpa < _max_cgpa)
+    AND (_risk_level IS NULL OR s.risk_level = _risk_level)
+    AND (_missing_results_semester_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM results r WHERE r.student_id = s.id AND r.semester_id = _missing_results_semester_id
+    ))
+  ORDER BY s.student_id;
+$$;
+
+-- Unchanged apart from the latest and previous CGPA by sort_order
+CREATE OR REPLACE FUNCTION public.evaluate_academic_risk(_student_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings academic_risk_settings%ROWTYPE;
+  latest RECORD;
+  previous RECORD;
+  old_level TEXT;
+  new_level TEXT := 'low';
+  -- Multiplies a CGPA on the student's scale onto the 4.0 scale
+  to_four NUMERIC;
+BEGIN
+  SELECT * INTO settings FROM academic_risk_settings;
+  SELECT risk_level INTO old_level FROM students WHERE id = _student_id AND archived_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  to_four := 4 / student_max_grade_point(_student_id);
+
+  SELECT cr.semester_id, cr.cumulative_gpa INTO latest
+  FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+  WHERE cr.student_id = _student_id
+    AND semester_results_released(_student_id, cr.semester_id)
+  ORDER BY s.sort_order DESC
+  LIMIT 1;
+
+  IF latest.semester_id IS NOT NULL THEN
+    SELECT cr.cumulative_gpa INTO previous
+    FROM cgpa_records cr JOIN semesters s ON s.id = cr.semester_id
+    WHERE cr.student_id = _student_id AND cr.semester_id <> latest.semester_id
+      AND semester_results_released(_student_id, cr.semester_id)
+    ORDER BY s.sort_order DESC
+    LIMIT 1;
+
+    IF latest.cumulative_gpa * to_four < settings.high_risk_below THEN
+      new_level := 'high';
+    ELSIF latest.cumulative_gpa * to_four < settings.medium_risk_below THEN
+      new_level := 'medium';
+    END IF;
+  END IF;
+
+  IF new_level IS DISTINCT FROM old_level THEN
+    UPDATE students SET risk_level = new_level, risk_level_changed_at = now() WHERE id = _student_id;
+  END IF;
+
+  IF NOT settings.enabled OR latest.semester_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only a move up: low -> medium, low -> high or medium -> high
+  IF new_level <> 'low'
+    AND (old_level = 'low' OR (old_level = 'medium' AND new_level = 'high'))
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'risk_level'
+        AND risk_level = new_level
+        AND created_at > now() - make_interval(days => settings.repeat_after_days)
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'risk_level', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+
+  -- A fall is reported once per semester, and not again within the window
+  IF previous.cumulative_gpa IS NOT NULL
+    AND (previous.cumulative_gpa - latest.cumulative_gpa) * to_four > settings.cgpa_drop_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM academic_risk_alerts
+      WHERE student_id = _student_id
+        AND kind = 'cgpa_drop'
+        AND (semester_id = latest.semester_id
+          OR created_at > now() - make_interval(days => settings.repeat_after_days))
+    )
+  THEN
+    INSERT INTO academic_risk_alerts (student_id, semester_id, kind, risk_level, cgpa, previous_cgpa)
+    VALUES (_student_id, latest.semester_id, 'cgpa_drop', new_level, latest.cumulative_gpa, previous.cumulative_gpa);
+  END IF;
+END;
+$$;
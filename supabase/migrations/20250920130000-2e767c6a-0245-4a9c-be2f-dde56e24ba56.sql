@@ -0,0 +1,69 @@
+-- Two registrations for the same student at the same moment could each
+-- pass the maximum load check, as neither saw the other, and together go
+-- over it. The check now locks the student's row first, so concurrent
+-- registrations for one student are checked one after the other.
+
+-- Unchanged apart from the lock
+CREATE OR REPLACE FUNCTION public.check_course_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reg_course courses%ROWTYPE;
+  reg_sort_order INTEGER;
+  max_units INTEGER;
+  credit_load INTEGER;
+  unmet TEXT;
+  student_archived_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.status <> 'registered' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO reg_course FROM courses WHERE id = NEW.course_id;
+  IF NOT reg_course.is_active THEN
+    RAISE EXCEPTION '% is retired and cannot be registered for', reg_course.course_code;
+  END IF;
+
+  -- Holds the student's other registrations until this one commits
+  SELECT archived_at INTO student_archived_at FROM students WHERE id = NEW.student_id FOR UPDATE;
+  IF student_archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Archived students cannot register for courses';
+  END IF;
+
+  SELECT sort_order INTO reg_sort_order FROM semesters WHERE id = NEW.semester_id;
+
+  SELECT string_agg(c.course_code, ', ' ORDER BY c.course_code) INTO unmet
+  FROM course_prerequisites p
+  JOIN courses c ON c.id = p.prerequisite_id
+  WHERE p.course_id = NEW.course_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM results r JOIN semesters s ON s.id = r.semester_id
+      WHERE r.student_id = NEW.student_id
+        AND r.course_id = p.prerequisite_id
+        AND r.is_pass
+        AND s.sort_order < reg_sort_order
+    );
+  IF unmet IS NOT NULL THEN
+    RAISE EXCEPTION '% requires passing % first', reg_course.course_code, unmet;
+  END IF;
+
+  SELECT max_credit_units INTO max_units FROM registration_settings;
+  SELECT COALESCE(SUM(c.credit_units), 0) + reg_course.credit_units INTO credit_load
+  FROM course_registrations cr
+  JOIN courses c ON c.id = cr.course_id
+  WHERE cr.student_id = NEW.student_id
+    AND cr.semester_id = NEW.semester_id
+    AND cr.status = 'registered'
+    AND cr.id <> NEW.id;
+  IF credit_load > max_units THEN
+    RAISE EXCEPTION 'Registering % would bring the credit load to % units, above the maximum of %',
+      reg_course.course_code, credit_load, max_units;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,93 @@
+// Posts fake delivery receipts to the sms-receipts webhook, for local testing
+// with the console sink. Reads the messages the sink wrote to SMS_SINK_FILE
+// and reports each one in the chosen provider's webhook format.
+//
+//   deno run --allow-net --allow-env --allow-read supabase/scripts/fake-sms-receipts.ts \
+//     [--status delivered|failed|sent] [--invalid] [--id <provider message id>] \
+//     [--provider console|twilio|africastalking|termii] [--url <webhook url>]
+//
+// The sink's provider name is "console", so receipts in another provider's
+// format only match messages when SMS_PROVIDER was set to that provider.
+import { parseArgs } from 'https://deno.land/std@0.224.0/cli/parse_args.ts';
+
+const args = parseArgs(Deno.args, {
+  string: ['status', 'id', 'provider', 'url', 'file'],
+  boolean: ['invalid'],
+  default: {
+    status: 'delivered',
+    provider: 'console',
+    url: 'http://127.0.0.1:54321/functions/v1/sms-receipts',
+    file: Deno.env.get('SMS_SINK_FILE') || '/tmp/sms-sink.jsonl',
+  },
+});
+
+const secret = Deno.env.get('SMS_WEBHOOK_SECRET');
+if (!secret) {
+  console.error('Set SMS_WEBHOOK_SECRET to the value the sms-receipts function uses');
+  Deno.exit(1);
+}
+
+const failed = args.status === 'failed';
+
+// Payloads as each provider would send them
+const payloadFor = (id: string): { body: string; contentType: string } => {
+  switch (args.provider) {
+    case 'twilio':
+      return {
+        contentType: 'application/x-www-form-urlencoded',
+        body: new URLSearchParams({
+          MessageSid: id,
+          MessageStatus: failed ? 'undelivered' : args.status,
+          ...(failed ? { ErrorCode: args.invalid ? '30005' : '30003' } : {}),
+        }).toString(),
+      };
+    case 'africastalking':
+      return {
+        contentType: 'application/x-www-form-urlencoded',
+        body: new URLSearchParams({
+          id,
+          status: failed ? 'Failed' : args.status === 'sent' ? 'Sent' : 'Success',
+          ...(failed ? { failureReason: args.invalid ? 'InvalidPhoneNumber' : 'AbsentSubscriber' } : {}),
+        }).toString(),
+      };
+    case 'termii':
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify({
+          message_id: id,
+          status: failed ? (args.invalid ? 'Invalid Phone Number' : 'Message Failed') : args.status === 'sent' ? 'Message Sent' : 'Delivered',
+        }),
+      };
+    default:
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify({
+          message_id: id,
+          status: args.status,
+          ...(failed ? { error: args.invalid ? 'Unknown subscriber' : 'Handset unreachable', invalid_number: args.invalid } : {}),
+        }),
+      };
+  }
+};
+
+const ids: string[] = args.id
+  ? [args.id]
+  : (await Deno.readTextFile(args.file))
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line).id);
+
+if (ids.length === 0) {
+  console.log(`No messages in ${args.file}`);
+  Deno.exit(0);
+}
+
+const webhook = new URL(args.url);
+webhook.searchParams.set('provider', args.provider);
+webhook.searchParams.set('token', secret);
+
+for (const id of ids) {
+  const { body, contentType } = payloadFor(id);
+  const response = await fetch(webhook, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+  console.log(`${id}: ${response.status} ${await response.text()}`);
+}
@@ -0,0 +1,96 @@
+// One-off clean-up of phone numbers stored before numbers were normalised on
+// entry. Reports every student and guardian number that is not in E.164,
+// with the fix where one can be worked out. With --apply it saves the fixes
+// and flags the students whose numbers cannot be fixed, so they show up as
+// "Invalid number" in the Students tab.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//   deno run --allow-net --allow-env supabase/scripts/normalise-phone-numbers.ts \
+//     [--country NG] [--apply]
+//
+// --country overrides the default country from the SMS settings.
+import { parseArgs } from 'https://deno.land/std@0.224.0/cli/parse_args.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalisePhone } from '../functions/_shared/phone.ts';
+import { loadSmsSettings } from '../functions/_shared/sms/settings.ts';
+
+const args = parseArgs(Deno.args, {
+  string: ['country'],
+  boolean: ['apply'],
+});
+
+const url = Deno.env.get('SUPABASE_URL');
+const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+if (!url || !key) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  Deno.exit(1);
+}
+
+const admin = createClient(url, key, { auth: { persistSession: false } });
+const country = args.country?.toUpperCase() || (await loadSmsSettings(admin)).default_country;
+
+interface Row {
+  table: 'students' | 'student_contacts';
+  id: string;
+  label: string;
+  phone_number: string;
+}
+
+const [{ data: students, error: studentsError }, { data: contacts, error: contactsError }] = await Promise.all([
+  admin.from('students').select('id, student_id, first_name, last_name, phone_number'),
+  admin.from('student_contacts').select('id, name, phone_number, students (student_id)').not('phone_number', 'is', null),
+]);
+if (studentsError) throw studentsError;
+if (contactsError) throw contactsError;
+
+const rows: Row[] = [
+  ...(students ?? []).map((student) => ({
+    table: 'students' as const,
+    id: student.id,
+    label: `${student.student_id} ${student.first_name} ${student.last_name}`,
+    phone_number: student.phone_number,
+  })),
+  ...(contacts ?? []).map((contact) => ({
+    table: 'student_contacts' as const,
+    id: contact.id,
+    label: `${contact.students?.student_id} contact ${contact.name}`,
+    phone_number: contact.phone_number,
+  })),
+];
+
+const fixable: (Row & { e164: string })[] = [];
+const invalid: (Row & { error: string })[] = [];
+for (const row of rows) {
+  const phone = normalisePhone(row.phone_number, country);
+  if (!phone.valid) {
+    invalid.push({ ...row, error: phone.error! });
+  } else if (phone.e164 !== row.phone_number) {
+    fixable.push({ ...row, e164: phone.e164! });
+  }
+}
+
+console.log(`Checked ${rows.length} numbers with ${country} as the default country`);
+console.log(`\n${fixable.length} can be fixed:`);
+for (const row of fixable) console.log(`  ${row.label}: ${row.phone_number} -> ${row.e164}`);
+console.log(`\n${invalid.length} cannot be fixed:`);
+for (const row of invalid) console.log(`  ${row.label}: ${row.phone_number} (${row.error})`);
+
+if (!args.apply) {
+  if (fixable.length + invalid.length > 0) console.log('\nRun again with --apply to save the fixes.');
+  Deno.exit(0);
+}
+
+for (const row of fixable) {
+  const { error } = await admin.from(row.table).update({ phone_number: row.e164 }).eq('id', row.id);
+  if (error) console.error(`  Failed to update ${row.label}: ${error.message}`);
+}
+
+for (const row of invalid.filter((row) => row.table === 'students')) {
+  const { error } = await admin
+    .from('students')
+    .update({ phone_invalid_at: new Date().toISOString(), phone_invalid_reason: row.error })
+    .eq('id', row.id);
+  if (error) console.error(`  Failed to flag ${row.label}: ${error.message}`);
+}
+
+console.log(`\nFixed ${fixable.length} numbers and flagged ${invalid.filter((row) => row.table === 'students').length} students.`);